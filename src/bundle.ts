@@ -0,0 +1,313 @@
+import type { GagaraBoostClient } from './client.js'
+import type {
+  BundleDataset,
+  ColumnSet,
+  DatasetItem,
+  ImportWorkspaceOptions,
+  ModelDetail,
+  RequestOptions,
+  RowSet,
+  TrainingParamSet,
+  WorkspaceBundle,
+  WorkspaceImportResult,
+} from './types.js'
+import { canonicalJson, nodeFs } from './util.js'
+
+/**
+ * Downloads a workspace's datasets and reads its row sets, column sets,
+ * param sets and model metadata into one bundle.
+ */
+export async function exportWorkspace (
+  client: GagaraBoostClient,
+  id: string,
+  options: RequestOptions = {}
+): Promise<WorkspaceBundle> {
+  const workspace = await client.getWorkspace(id, options)
+  const datasets: BundleDataset[] = []
+  for await (const dataset of client.iterateDatasets(id, options)) {
+    datasets.push({
+      id: dataset.id,
+      alias: dataset.alias,
+      data: new Uint8Array(await client.downloadDataset(dataset.id, options)),
+      columns: await client.listDatasetColumns(dataset.id, options),
+    })
+  }
+  return {
+    version: 1,
+    exported_at: new Date().toISOString(),
+    workspace,
+    datasets,
+    rowSets: await collect(client.iterateRowSets(id, options)),
+    columnSets: await collect(client.iterateColumnSets({ workspaceId: id }, options)),
+    trainingParamSets: await collect(client.iterateTrainingParamSets(id, options)),
+    models: await collect(client.iterateModels({ workspaceId: id }, options)),
+  }
+}
+
+/**
+ * Recreates a bundle's resources in a new or existing workspace, pointing
+ * each one at the resources created for the ones it referenced. In an
+ * existing workspace, resources with the same name and settings (datasets:
+ * alias and data) are reused, so an import that failed part way can be run again;
+ * same-named resources with other settings fail the import before anything
+ * is created. Resources created before a failure are not removed.
+ */
+export async function importWorkspace (
+  client: GagaraBoostClient,
+  bundle: WorkspaceBundle,
+  options: ImportWorkspaceOptions = {}
+): Promise<WorkspaceImportResult> {
+  const { targetWorkspaceId, name, retrainModels = false, pollInterval, ...requestOptions } = options
+  checkReferences(bundle)
+
+  const existing = targetWorkspaceId === undefined
+    ? undefined
+    : await readTarget(client, targetWorkspaceId, requestOptions)
+  const reuse = existing ? await matchExisting(client, bundle, existing, requestOptions) : {}
+  const workspaceId = targetWorkspaceId ??
+    (await client.createWorkspace(name ?? bundle.workspace.name, requestOptions)).id
+  const ids: Record<string, string> = { [bundle.workspace.id]: workspaceId }
+  const reused = Object.keys(reuse)
+
+  for (const dataset of bundle.datasets) {
+    ids[dataset.id] = reuse[dataset.id] ?? (await client.uploadDataset(dataset.data, {
+      ...requestOptions,
+      workspaceId,
+      alias: dataset.alias ?? undefined,
+      filename: `${dataset.alias ?? dataset.id}.parquet`,
+    })).dataset_id
+    await importColumns(client, ids[dataset.id], dataset, requestOptions)
+  }
+
+  for (const rowSet of bundle.rowSets) {
+    ids[rowSet.id] = reuse[rowSet.id] ?? (await client.createRowSet({
+      workspace_id: workspaceId,
+      base_dataset_id: ids[rowSet.base_dataset_id],
+      name: rowSet.name,
+      predicate: rowSet.predicate,
+    }, requestOptions)).id
+  }
+
+  for (const columnSet of bundle.columnSets) {
+    ids[columnSet.id] = reuse[columnSet.id] ?? (await client.createColumnSet({
+      dataset_id: ids[columnSet.dataset_id],
+      name: columnSet.name,
+      column_to_predict: columnSet.column_to_predict,
+      feature_columns: columnSet.feature_columns,
+    }, requestOptions)).id
+  }
+
+  for (const paramSet of bundle.trainingParamSets) {
+    ids[paramSet.id] = reuse[paramSet.id] ?? (await client.createTrainingParamSet({
+      workspace_id: workspaceId,
+      name: paramSet.name,
+      params: paramSet.params,
+      meta: paramSet.meta,
+    }, requestOptions)).id
+  }
+
+  const skippedModels: string[] = []
+  for (const model of bundle.models) {
+    const rowSetId = model.row_set_id && ids[model.row_set_id]
+    const columnSetId = model.column_set_id && ids[model.column_set_id]
+    const paramSetId = model.training_param_set_id && ids[model.training_param_set_id]
+    if (!retrainModels || !rowSetId || !columnSetId || !paramSetId) {
+      skippedModels.push(model.id)
+      continue
+    }
+    const match = existing?.models.find((candidate) =>
+      candidate.name === model.name &&
+      candidate.row_set_id === rowSetId &&
+      candidate.column_set_id === columnSetId &&
+      candidate.training_param_set_id === paramSetId)
+    if (match) {
+      ids[model.id] = match.id
+      reused.push(model.id)
+      continue
+    }
+    const job = await client.startTraining({
+      workspace_id: workspaceId,
+      row_set_id: rowSetId,
+      column_set_id: columnSetId,
+      training_param_set_id: paramSetId,
+    }, requestOptions)
+    const trained = await job.wait({ pollInterval, signal: requestOptions.signal })
+    if (model.name) {
+      await client.renameModel(trained.id, model.name, requestOptions)
+    }
+    ids[model.id] = trained.id
+  }
+
+  return { workspaceId, ids, reused, skippedModels }
+}
+
+/**
+ * Writes a bundle as `bundle.json` plus one parquet file per dataset under
+ * `datasets/`, so large datasets are not inlined into JSON.
+ */
+export async function saveWorkspaceBundle (bundle: WorkspaceBundle, directory: string): Promise<void> {
+  const fs = await nodeFs()
+  await fs.promises.mkdir(`${directory}/datasets`, { recursive: true })
+  const datasets = []
+  for (const { data, ...dataset } of bundle.datasets) {
+    const file = `datasets/${dataset.id}.parquet`
+    await fs.promises.writeFile(`${directory}/${file}`, data)
+    datasets.push({ ...dataset, file })
+  }
+  await fs.promises.writeFile(`${directory}/bundle.json`, `${JSON.stringify({ ...bundle, datasets }, null, 2)}\n`)
+}
+
+/** Reads a bundle written by `saveWorkspaceBundle()` */
+export async function loadWorkspaceBundle (directory: string): Promise<WorkspaceBundle> {
+  const fs = await nodeFs()
+  const saved = JSON.parse(await fs.promises.readFile(`${directory}/bundle.json`, 'utf8')) as
+    Omit<WorkspaceBundle, 'datasets'> & { datasets: Array<Omit<BundleDataset, 'data'> & { file: string }> }
+  if (saved?.version !== 1 || !Array.isArray(saved.datasets)) {
+    throw new TypeError(`${directory} does not contain a version 1 workspace bundle`)
+  }
+  const datasets: BundleDataset[] = []
+  for (const { file, ...dataset } of saved.datasets) {
+    datasets.push({ ...dataset, data: new Uint8Array(await fs.promises.readFile(`${directory}/${file}`)) })
+  }
+  return { ...saved, datasets }
+}
+
+interface Target {
+  datasets: DatasetItem[]
+  rowSets: RowSet[]
+  columnSets: ColumnSet[]
+  trainingParamSets: TrainingParamSet[]
+  models: ModelDetail[]
+}
+
+async function readTarget (client: GagaraBoostClient, id: string, options: RequestOptions): Promise<Target> {
+  return {
+    datasets: await collect(client.iterateDatasets(id, options)),
+    rowSets: await collect(client.iterateRowSets(id, options)),
+    columnSets: await collect(client.iterateColumnSets({ workspaceId: id }, options)),
+    trainingParamSets: await collect(client.iterateTrainingParamSets(id, options)),
+    models: await collect(client.iterateModels({ workspaceId: id }, options)),
+  }
+}
+
+/**
+ * Maps bundle ids to the target's same-named resources with the same
+ * settings (datasets: the same bytes), and throws when a name is taken by a
+ * resource that differs.
+ */
+async function matchExisting (
+  client: GagaraBoostClient,
+  bundle: WorkspaceBundle,
+  target: Target,
+  options: RequestOptions
+): Promise<Record<string, string>> {
+  const reuse: Record<string, string> = {}
+  const conflicts: string[] = []
+  const match = <T extends { id: string, name: string }>(
+    label: string,
+    item: T,
+    candidates: T[],
+    fields: Array<keyof T>,
+    datasetField?: keyof T
+  ): void => {
+    const named = candidates.filter((candidate) => candidate.name === item.name)
+    if (named.length === 0) {
+      return
+    }
+    const same = named.find((candidate) =>
+      (!datasetField || candidate[datasetField] === reuse[item[datasetField] as string]) &&
+      fields.every((key) => canonicalJson(candidate[key] ?? null) === canonicalJson(item[key] ?? null)))
+    if (same) {
+      reuse[item.id] = same.id
+    } else {
+      conflicts.push(`${label} "${item.name}"`)
+    }
+  }
+
+  for (const dataset of bundle.datasets) {
+    const same = dataset.alias === null ? undefined : target.datasets.find((candidate) => candidate.alias === dataset.alias)
+    if (!same) {
+      continue
+    }
+    if (await sameData(client, same, dataset.data, options)) {
+      reuse[dataset.id] = same.id
+    } else {
+      conflicts.push(`dataset "${dataset.alias}"`)
+    }
+  }
+  for (const rowSet of bundle.rowSets) {
+    match('row set', rowSet, target.rowSets, ['predicate'], 'base_dataset_id')
+  }
+  for (const columnSet of bundle.columnSets) {
+    match('column set', columnSet, target.columnSets, ['column_to_predict', 'feature_columns'], 'dataset_id')
+  }
+  for (const paramSet of bundle.trainingParamSets) {
+    match('param set', paramSet, target.trainingParamSets, ['params', 'meta'])
+  }
+  if (conflicts.length > 0) {
+    throw new TypeError(`Target workspace has resources with the same names and other settings: ${conflicts.join('; ')}`)
+  }
+  return reuse
+}
+
+/** Compares sizes first, so only a dataset that may be identical is downloaded */
+async function sameData (
+  client: GagaraBoostClient,
+  dataset: DatasetItem,
+  data: Uint8Array,
+  options: RequestOptions
+): Promise<boolean> {
+  if (dataset.file_size_bytes != null && dataset.file_size_bytes !== data.byteLength) {
+    return false
+  }
+  const existing = new Uint8Array(await client.downloadDataset(dataset.id, options))
+  return existing.byteLength === data.byteLength && existing.every((byte, index) => byte === data[index])
+}
+
+async function collect<T> (items: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = []
+  for await (const item of items) {
+    collected.push(item)
+  }
+  return collected
+}
+
+/** Copies user-entered column settings, updating columns the server created on upload */
+async function importColumns (
+  client: GagaraBoostClient,
+  datasetId: string,
+  dataset: BundleDataset,
+  options: RequestOptions
+): Promise<void> {
+  if (dataset.columns.length === 0) {
+    return
+  }
+  const existing = new Map((await client.listDatasetColumns(datasetId, options)).map((column) => [column.name, column]))
+  for (const { name, userInput, statistics } of dataset.columns) {
+    const current = existing.get(name)
+    if (current) {
+      await client.updateDatasetColumn(datasetId, current.id, { userInput, statistics }, options)
+    } else {
+      await client.createDatasetColumn(datasetId, { name, userInput, statistics }, options)
+    }
+  }
+}
+
+/** Fails before anything is created when a resource points outside the bundle */
+function checkReferences (bundle: WorkspaceBundle): void {
+  if (bundle?.version !== 1) {
+    throw new TypeError('Not a version 1 workspace bundle')
+  }
+  const datasetIds = new Set(bundle.datasets.map((dataset) => dataset.id))
+  const missing = [
+    ...bundle.rowSets
+      .filter((rowSet) => !datasetIds.has(rowSet.base_dataset_id))
+      .map((rowSet) => `row set "${rowSet.name}" (dataset ${rowSet.base_dataset_id})`),
+    ...bundle.columnSets
+      .filter((columnSet) => !datasetIds.has(columnSet.dataset_id))
+      .map((columnSet) => `column set "${columnSet.name}" (dataset ${columnSet.dataset_id})`),
+  ]
+  if (missing.length > 0) {
+    throw new TypeError(`Bundle references datasets it does not contain: ${missing.join('; ')}`)
+  }
+}
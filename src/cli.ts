@@ -0,0 +1,495 @@
+import { promises as fs } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+import { GagaraBoostClient } from './client.js'
+import { GagaraBoostError } from './types.js'
+import type {
+  ColumnSetCreate,
+  DownloadResult,
+  FeatureColumnDetail,
+  ListOptions,
+  PredicateNode,
+  SchemaCompatibilityMode,
+  WorkspaceManifest,
+} from './types.js'
+import { toBlob } from './upload.js'
+
+export interface CliIO {
+  env: Record<string, string | undefined>
+  stdout: (text: string) => void
+  stderr: (text: string) => void
+  readFile: (file: string) => Promise<Uint8Array>
+  /** Opens a file for upload, without reading it into memory where the runtime allows */
+  openFile: (file: string) => Promise<Blob>
+  /** Downloads a dataset to a file */
+  downloadDataset: (client: GagaraBoostClient, id: string, file: string) => Promise<DownloadResult>
+  fetch?: typeof globalThis.fetch
+}
+
+export interface CliProfile {
+  baseUrl?: string
+  token?: string
+  serviceToken?: string
+  timeout?: number
+}
+
+export interface CliConfig {
+  profiles?: Record<string, CliProfile>
+}
+
+class UsageError extends Error {}
+
+const OPTIONS = {
+  help: { type: 'boolean', short: 'h' },
+  json: { type: 'boolean' },
+  profile: { type: 'string' },
+  url: { type: 'string' },
+  token: { type: 'string' },
+  timeout: { type: 'string' },
+  workspace: { type: 'string', short: 'w' },
+  dataset: { type: 'string', short: 'd' },
+  name: { type: 'string', short: 'n' },
+  alias: { type: 'string' },
+  predicate: { type: 'string' },
+  target: { type: 'string' },
+  features: { type: 'string' },
+  categorical: { type: 'string' },
+  params: { type: 'string' },
+  meta: { type: 'string' },
+  'row-set': { type: 'string' },
+  'column-set': { type: 'string' },
+  'param-set': { type: 'string' },
+  'time-budget': { type: 'string' },
+  objective: { type: 'string' },
+  metric: { type: 'string' },
+  force: { type: 'boolean' },
+  compatibility: { type: 'string' },
+  'all-columns': { type: 'boolean' },
+  limit: { type: 'string' },
+  offset: { type: 'string' },
+  sort: { type: 'string' },
+  search: { type: 'string' },
+  prune: { type: 'boolean' },
+} as const
+
+type Values = ReturnType<typeof parseArgs<{ options: typeof OPTIONS, allowPositionals: true }>>['values']
+
+export const USAGE = `Usage: gagara-boost <command> [subcommand] [args] [options]
+
+Commands:
+  health
+  workspaces   ls | get <id> | create <name> | rename <id> <name> | rm <id>
+  datasets     ls [-w ws] | get <id> | upload <file> [-w ws] [--alias a]
+               | replace <id> <file> [--compatibility strict|additive] [--all-columns]
+               | download <id> <file> | meta <id>
+               | schema <id> | alias <id> <alias> | rm <id>
+  row-sets     ls [-w ws] | get <id> | create -w ws -d ds -n name [--predicate json]
+               | update <id> [-n name] [--predicate json] | schema <id>
+               | meta <id> [--force] | sample <id> | rm <id>
+  column-sets  ls [-w ws] [-d ds] | get <id> | clone <id> | rm <id>
+               | create -d ds -n name --target col --features a,b [--categorical b]
+  param-sets   ls [-w ws] | get <id> | create -w ws -n name --params json | rm <id>
+  models       ls [-w ws] [-d ds] | get <id> | rename <id> <name> | rm <id>
+  train        -w ws --row-set id --column-set id --param-set id [--time-budget s]
+  optimize     --row-set id --column-set id --objective obj [--metric m] [--time-budget s]
+  predict      <model-id> <features-json | @file>
+  query        <sql> [-w ws]
+  plan         <manifest-json | @file> [--prune]
+  apply        <manifest-json | @file> [--prune]
+
+Options:
+  --json             Print raw JSON instead of tables
+  --profile <name>   Config profile (default: $GAGARA_BOOST_PROFILE or "default")
+  --url <url>        Server URL (default: $GAGARA_BOOST_SERVER_URL)
+  --token <token>    User token (default: $GAGARA_BOOST_USER_TOKEN)
+  --timeout <ms>     Request timeout
+
+List options (ls):
+  --limit <n> --offset <n>   Page through results
+  --sort <field>             Sort by a field; --sort=-field for descending
+  --search <text>            Match names (dataset aliases) containing text
+
+JSON arguments accept inline JSON or @path/to/file.json.
+Profiles are read from $GAGARA_BOOST_CONFIG or ~/.config/gagara-boost/config.json:
+  { "profiles": { "default": { "baseUrl": "...", "token": "..." } } }
+`
+
+export function nodeIO (): CliIO {
+  return {
+    env: process.env,
+    stdout: (text) => process.stdout.write(text.endsWith('\n') ? text : `${text}\n`),
+    stderr: (text) => process.stderr.write(text.endsWith('\n') ? text : `${text}\n`),
+    readFile: async (file) => new Uint8Array(await fs.readFile(file)),
+    openFile: (file) => toBlob(file, 'application/octet-stream'),
+    downloadDataset: (client, id, file) => client.downloadDatasetToFile(id, file),
+  }
+}
+
+/**
+ * Runs the CLI and resolves with the process exit code.
+ */
+export async function runCli (argv: string[], io: CliIO = nodeIO()): Promise<number> {
+  let parsed
+  try {
+    parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true })
+  } catch (error) {
+    io.stderr(`error: ${(error as Error).message}\n\n${USAGE}`)
+    return 2
+  }
+
+  const { values, positionals } = parsed
+  if (values.help || positionals.length === 0) {
+    io.stdout(USAGE)
+    return values.help ? 0 : 2
+  }
+
+  try {
+    const client = await createClient(values, io)
+    const result = await dispatch(client, positionals, values, io)
+    if (result !== undefined) {
+      io.stdout(values.json ? JSON.stringify(result, null, 2) : formatTable(result))
+    }
+    return 0
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr(`error: ${error.message}\n\n${USAGE}`)
+      return 2
+    }
+    if (error instanceof GagaraBoostError) {
+      const status = error.status ? ` (${error.status})` : ''
+      io.stderr(`error${status}: ${error.message}`)
+      return 1
+    }
+    io.stderr(`error: ${error instanceof Error ? error.message : String(error)}`)
+    return 1
+  }
+}
+
+async function createClient (values: Values, io: CliIO): Promise<GagaraBoostClient> {
+  const profile = await loadProfile(values.profile ?? io.env.GAGARA_BOOST_PROFILE, io)
+  const baseUrl = values.url ?? io.env.GAGARA_BOOST_SERVER_URL ?? profile.baseUrl
+  if (!baseUrl) {
+    throw new UsageError('No server URL. Pass --url, set GAGARA_BOOST_SERVER_URL or configure a profile.')
+  }
+  const timeout = values.timeout ?? io.env.GAGARA_BOOST_CLIENT_TIMEOUT_MS
+  return new GagaraBoostClient({
+    baseUrl,
+    token: values.token ?? io.env.GAGARA_BOOST_USER_TOKEN ?? profile.token,
+    serviceToken: io.env.GAGARA_BOOST_SERVICE_TOKEN ?? profile.serviceToken,
+    timeout: timeout ? Number(timeout) : profile.timeout,
+    fetch: io.fetch,
+  })
+}
+
+async function loadProfile (name: string | undefined, io: CliIO): Promise<CliProfile> {
+  const configPath = io.env.GAGARA_BOOST_CONFIG ??
+    path.join(io.env.HOME ?? os.homedir(), '.config', 'gagara-boost', 'config.json')
+
+  let config: CliConfig
+  try {
+    config = JSON.parse(new TextDecoder().decode(await io.readFile(configPath)))
+  } catch {
+    if (name) {
+      throw new UsageError(`Profile "${name}" requested but ${configPath} could not be read`)
+    }
+    return {}
+  }
+
+  const profile = config.profiles?.[name ?? 'default']
+  if (!profile && name) {
+    throw new UsageError(`Profile "${name}" not found in ${configPath}`)
+  }
+  return profile ?? {}
+}
+
+async function dispatch (
+  client: GagaraBoostClient,
+  positionals: string[],
+  values: Values,
+  io: CliIO
+): Promise<unknown> {
+  const [command, sub, ...args] = positionals
+  const arg = (index: number, label: string): string => {
+    const value = args[index]
+    if (value === undefined) {
+      throw new UsageError(`Missing <${label}> for "${command} ${sub}"`)
+    }
+    return value
+  }
+  const unknownSubcommand = (): never => {
+    throw new UsageError(`Unknown subcommand "${command} ${sub ?? ''}"`)
+  }
+
+  switch (command) {
+    case 'health':
+      return { healthy: await client.health() }
+
+    case 'workspaces':
+      switch (sub) {
+        case 'ls': return client.listWorkspaces(listOptions(values))
+        case 'get': return client.getWorkspace(arg(0, 'id'))
+        case 'create': return client.createWorkspace(arg(0, 'name'))
+        case 'rename': return client.renameWorkspace(arg(0, 'id'), arg(1, 'name'))
+        case 'rm': return client.deleteWorkspace(arg(0, 'id'))
+      }
+      return unknownSubcommand()
+
+    case 'datasets':
+      switch (sub) {
+        case 'ls': return client.listDatasets(values.workspace, listOptions(values))
+        case 'get': return client.getDataset(arg(0, 'id'))
+        case 'upload': {
+          const file = arg(0, 'file')
+          return client.uploadDataset(await io.openFile(file), {
+            workspaceId: values.workspace,
+            alias: values.alias,
+            filename: path.basename(file),
+          })
+        }
+        case 'replace': {
+          const file = arg(1, 'file')
+          const compatibility = compatibilityMode(values.compatibility)
+          return client.replaceDataset(arg(0, 'id'), await io.openFile(file), {
+            compatibility,
+            allColumns: values['all-columns'],
+            filename: path.basename(file),
+          })
+        }
+        case 'download':
+          return io.downloadDataset(client, arg(0, 'id'), arg(1, 'file'))
+        case 'meta': return client.getDatasetMeta(arg(0, 'id'))
+        case 'schema': return (await client.getDatasetSchema(arg(0, 'id'))).columns
+        case 'alias': return client.updateDatasetAlias(arg(0, 'id'), arg(1, 'alias'))
+        case 'rm': return client.deleteDataset(arg(0, 'id'))
+      }
+      return unknownSubcommand()
+
+    case 'row-sets':
+      switch (sub) {
+        case 'ls': return client.listRowSets(values.workspace, listOptions(values))
+        case 'get': return client.getRowSet(arg(0, 'id'))
+        case 'create':
+          return client.createRowSet({
+            workspace_id: required(values.workspace, '--workspace'),
+            base_dataset_id: required(values.dataset, '--dataset'),
+            name: required(values.name, '--name'),
+            predicate: values.predicate
+              ? await readJson<PredicateNode>(values.predicate, io)
+              : null,
+          })
+        case 'update':
+          return client.updateRowSet(arg(0, 'id'), {
+            name: values.name,
+            predicate: values.predicate
+              ? await readJson<PredicateNode>(values.predicate, io)
+              : undefined,
+          })
+        case 'schema': return (await client.getRowSetSchema(arg(0, 'id'))).columns
+        case 'meta': return client.getRowSetMeta(arg(0, 'id'), { force: values.force })
+        case 'sample': return client.getRowSetSample(arg(0, 'id'))
+        case 'rm': return client.deleteRowSet(arg(0, 'id'))
+      }
+      return unknownSubcommand()
+
+    case 'column-sets':
+      switch (sub) {
+        case 'ls':
+          return client.listColumnSets({ workspaceId: values.workspace, datasetId: values.dataset }, listOptions(values))
+        case 'get': return client.getColumnSet(arg(0, 'id'))
+        case 'clone': return client.cloneColumnSet(arg(0, 'id'))
+        case 'create': {
+          const categorical = new Set(splitList(values.categorical))
+          const features = splitList(required(values.features, '--features'))
+            .map((field): string | FeatureColumnDetail =>
+              categorical.has(field) ? { field, is_categorical: true } : field
+            )
+          const payload: ColumnSetCreate = {
+            dataset_id: required(values.dataset, '--dataset'),
+            name: required(values.name, '--name'),
+            column_to_predict: required(values.target, '--target'),
+            feature_columns: features,
+          }
+          return client.createColumnSet(payload)
+        }
+        case 'rm': return client.deleteColumnSet(arg(0, 'id'))
+      }
+      return unknownSubcommand()
+
+    case 'param-sets':
+      switch (sub) {
+        case 'ls': return client.listTrainingParamSets(values.workspace, listOptions(values))
+        case 'get': return client.getTrainingParamSet(arg(0, 'id'))
+        case 'create':
+          return client.createTrainingParamSet({
+            workspace_id: required(values.workspace, '--workspace'),
+            name: required(values.name, '--name'),
+            params: await readJson(required(values.params, '--params'), io),
+            meta: values.meta ? await readJson(values.meta, io) : null,
+          })
+        case 'rm': return client.deleteTrainingParamSet(arg(0, 'id'))
+      }
+      return unknownSubcommand()
+
+    case 'models':
+      switch (sub) {
+        case 'ls':
+          return client.listModels({ workspaceId: values.workspace, datasetId: values.dataset }, listOptions(values))
+        case 'get': return client.getModel(arg(0, 'id'))
+        case 'rename': return client.renameModel(arg(0, 'id'), arg(1, 'name'))
+        case 'rm': return client.deleteModel(arg(0, 'id'))
+      }
+      return unknownSubcommand()
+
+    case 'train':
+      return client.train({
+        workspace_id: required(values.workspace, '--workspace'),
+        row_set_id: required(values['row-set'], '--row-set'),
+        column_set_id: required(values['column-set'], '--column-set'),
+        training_param_set_id: required(values['param-set'], '--param-set'),
+        time_budget_seconds: optionalNumber(values['time-budget']),
+      })
+
+    case 'optimize':
+      return client.calculateOptimalParamSet({
+        row_set_id: required(values['row-set'], '--row-set'),
+        column_set_id: required(values['column-set'], '--column-set'),
+        objective: required(values.objective, '--objective'),
+        metric: values.metric,
+        time_budget_seconds: optionalNumber(values['time-budget']),
+      })
+
+    case 'predict': {
+      const modelId = sub ?? ''
+      if (!modelId || args[0] === undefined) {
+        throw new UsageError('Usage: gagara-boost predict <model-id> <features-json | @file>')
+      }
+      const features = await readJson<unknown>(args[0], io)
+      const rows = Array.isArray(features) ? features : [features]
+      return client.predict(modelId, { features: rows as Array<Record<string, unknown>> })
+    }
+
+    case 'query': {
+      if (!sub) {
+        throw new UsageError('Usage: gagara-boost query <sql> [-w workspace]')
+      }
+      const result = await client.query([sub, ...args].join(' '), values.workspace)
+      return values.json ? result : result.rows
+    }
+
+    case 'plan':
+    case 'apply': {
+      if (!sub) {
+        throw new UsageError(`Usage: gagara-boost ${command} <manifest-json | @file> [--prune]`)
+      }
+      const manifest = await readJson<WorkspaceManifest>(sub, io)
+      const options = { prune: values.prune }
+      const plan = command === 'plan'
+        ? await client.plan(manifest, options)
+        : await client.apply(manifest, options)
+      if (values.json) {
+        return plan
+      }
+      if (plan.changes.length === 0) {
+        return `No changes (${plan.unchanged} unchanged)`
+      }
+      return plan.changes.map(({ action, kind, name, id, fields }) => ({ action, kind, name, id, fields: fields.join(', ') }))
+    }
+  }
+
+  throw new UsageError(`Unknown command "${command}"`)
+}
+
+function required (value: string | undefined, flag: string): string {
+  if (!value) {
+    throw new UsageError(`Missing required option ${flag}`)
+  }
+  return value
+}
+
+function listOptions (values: Values): ListOptions {
+  return {
+    limit: optionalNumber(values.limit),
+    offset: optionalNumber(values.offset),
+    sort: values.sort,
+    search: values.search,
+  }
+}
+
+function compatibilityMode (value: string | undefined): SchemaCompatibilityMode | undefined {
+  if (value !== undefined && !['strict', 'additive', 'none'].includes(value)) {
+    throw new UsageError(`--compatibility must be strict, additive or none, got "${value}"`)
+  }
+  return value as SchemaCompatibilityMode | undefined
+}
+
+function optionalNumber (value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined
+  }
+  const parsed = Number(value)
+  if (!Number.isFinite(parsed)) {
+    throw new UsageError(`Expected a number, got "${value}"`)
+  }
+  return parsed
+}
+
+function splitList (value: string | undefined): string[] {
+  return (value ?? '').split(',').map((item) => item.trim()).filter(Boolean)
+}
+
+async function readJson<T = Record<string, unknown>> (input: string, io: CliIO): Promise<T> {
+  const text = input.startsWith('@')
+    ? new TextDecoder().decode(await io.readFile(input.slice(1)))
+    : input
+  try {
+    return JSON.parse(text) as T
+  } catch {
+    throw new UsageError(`Invalid JSON: ${input.length > 60 ? `${input.slice(0, 60)}...` : input}`)
+  }
+}
+
+// ----------------------------------------------------------
+// Table output
+// ----------------------------------------------------------
+
+export function formatTable (value: unknown): string {
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return '(empty)'
+    }
+    if (value.every((row) => typeof row === 'object' && row !== null && !Array.isArray(row))) {
+      const rows = value as Array<Record<string, unknown>>
+      const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))]
+      return renderGrid(columns, rows.map((row) => columns.map((column) => formatCell(row[column]))))
+    }
+    return value.map(formatCell).join('\n')
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+    return renderGrid(['field', 'value'], entries.map(([key, entry]) => [key, formatCell(entry)]))
+  }
+  return formatCell(value)
+}
+
+function formatCell (value: unknown): string {
+  if (value === null || value === undefined) {
+    return ''
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value)
+  }
+  return String(value)
+}
+
+function renderGrid (columns: string[], rows: string[][]): string {
+  const widths = columns.map((column, index) =>
+    Math.max(column.length, ...rows.map((row) => row[index].length))
+  )
+  const line = (cells: string[]): string =>
+    cells.map((cell, index) => cell.padEnd(widths[index])).join('  ').trimEnd()
+  return [
+    line(columns.map((column) => column.toUpperCase())),
+    ...rows.map(line),
+  ].join('\n')
+}
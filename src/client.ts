@@ -6,9 +6,19 @@ import type {
   DatasetItem,
   UploadResponse,
   UserCreateResponse,
-  UploadFileInput,
+  UploadSource,
+  UploadSession,
   UploadDatasetOptions,
+  UploadRecordsOptions,
+  UploadCsvOptions,
+  RecordInput,
+  ChunkedUploadOptions,
   ReplaceDatasetOptions,
+  SchemaCompatibilityMode,
+  SchemaCompatibilityReport,
+  DownloadOptions,
+  DownloadToFileOptions,
+  DownloadResult,
   DatasetMetaResponse,
   DatasetSchemaResponse,
   DatasetColumnCreate,
@@ -36,13 +46,153 @@ import type {
   QueryRequest,
   QueryResponse,
   ErrorResponse,
+  RequestOptions,
+  ListOptions,
+  IterateOptions,
+  QueryOptions,
+  QueryIteratorOptions,
+  QueryPage,
+  Middleware,
+  StartJobOptions,
+  TrainingJobStatus,
+  OptimalParamSearchJobStatus,
+  PredicateInput,
+  RowSetWriteOptions,
+  ResponseValidationMode,
+  SqlNameTemplates,
+  PipelineOptions,
+  PipelineResult,
+  PipelineSpec,
+  ManifestOptions,
+  ManifestPlan,
+  WorkspaceManifest,
+  WorkspaceBundle,
+  ImportWorkspaceOptions,
+  WorkspaceImportResult,
 } from './types.js'
-import { GagaraBoostError } from './types.js'
+import {
+  GagaraBoostError,
+  AuthenticationError,
+  PermissionDeniedError,
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+  RateLimitError,
+  ServerError,
+  ResponseParseError,
+  TimeoutError,
+  NetworkError,
+  PredicateValidationError,
+  ResponseValidationError,
+  ChecksumMismatchError,
+  SchemaCompatibilityError,
+  FixtureMismatchError,
+} from './types.js'
+import { composeMiddleware } from './middleware.js'
+import {
+  OptimalParamSearchJob,
+  TrainingJob,
+  localJobSource,
+  normalizeJobState,
+} from './jobs.js'
+import { validatePredicate } from './predicate-validation.js'
+import type { Schema } from './schema.js'
+import { array } from './schema.js'
+import {
+  ColumnSetSchema,
+  DatasetItemSchema,
+  DatasetMetaResponseSchema,
+  DatasetSchemaResponseSchema,
+  ModelDetailSchema,
+  OptimalParamSearchJobStatusSchema,
+  OptimalParamSearchResponseSchema,
+  PredictionResponseSchema,
+  PredictionWithFreeParameterResponseSchema,
+  QueryPageSchema,
+  QueryResponseSchema,
+  RowSetSampleResponseSchema,
+  RowSetSchema,
+  StatusResponseSchema,
+  StoredDatasetColumnSchema,
+  TrainingJobStatusSchema,
+  TrainingParamSetSchema,
+  TrainingResponseSchema,
+  UploadResponseSchema,
+  UploadSessionSchema,
+  UserCreateResponseSchema,
+  WorkspaceSchema,
+  listResponse,
+} from './schemas.js'
+import { nodeCrypto, nodeFs, randomId } from './util.js'
+import { csvToParquet, parquetFilename, recordsToParquet } from './convert.js'
+import { readParquetSchema } from './inspect.js'
+import { isSorted, searchItems, sortItems, unwrapList } from './list.js'
+import type { SqlQuery } from './sql.js'
+import { coerceRows, sql as sqlTag } from './sql.js'
+import type { SelectQuery } from './query-builder.js'
+import { checkSchemaCompatibility, describeIncompatibility } from './compatibility.js'
+import {
+  ColumnSetResource,
+  DatasetResource,
+  ModelResource,
+  RowSetResource,
+  TrainingParamSetResource,
+  WorkspaceResource,
+} from './resources.js'
+import { runPipeline } from './pipeline.js'
+import { applyManifest, planManifest } from './manifest.js'
+import { exportWorkspace, importWorkspace } from './bundle.js'
+import {
+  checksumFromHeaders,
+  normalizeChecksum,
+  parseContentRange,
+  progressStream,
+  unsatisfiedRangeTotal,
+} from './download.js'
+import {
+  DEFAULT_CHUNK_SIZE,
+  isInMemorySource,
+  readChunks,
+  shouldChunk,
+  sourceSize,
+  toBlob,
+  uploadFilename,
+} from './upload.js'
+import type { ResolvedRetryOptions } from './retry.js'
+import {
+  isIdempotentMethod,
+  isResumableError,
+  isRetryableError,
+  parseRetryAfter,
+  resolveRetryOptions,
+  retryDelay,
+  sleep,
+} from './retry.js'
+
+type RequestInitWithOptions = RequestInit & RequestOptions
+
+interface OpenDownload {
+  body: ReadableStream<Uint8Array>
+  headers: Headers
+  /** Byte offset of the first body byte within the file */
+  start: number
+  total?: number
+}
+
+interface RequestContext {
+  method: string
+  url: string
+  requestId: string
+}
 
 export class GagaraBoostClient {
   readonly #baseUrl: string
   readonly #fetch: typeof globalThis.fetch
   readonly #timeout: number
+  readonly #retry: ResolvedRetryOptions
+  readonly #middleware: Middleware[]
+  readonly #validateResponses: ResponseValidationMode
+  readonly #sqlNames: Required<SqlNameTemplates>
   #serviceToken?: string
   #token?: string
 
@@ -50,6 +200,13 @@ export class GagaraBoostClient {
     this.#baseUrl = options.baseUrl.replace(/\/$/, '')
     this.#fetch = options.fetch ?? globalThis.fetch.bind(globalThis)
     this.#timeout = options.timeout ?? 30_000
+    this.#retry = resolveRetryOptions(options.retry)
+    this.#middleware = [...(options.middleware ?? [])]
+    this.#validateResponses = options.validateResponses ?? 'off'
+    this.#sqlNames = {
+      datasetTable: options.sqlNames?.datasetTable ?? 'dataset_{id}',
+      rowSetView: options.sqlNames?.rowSetView ?? 'row_set_{id}',
+    }
     this.#serviceToken = options.serviceToken
     this.#token = options.token
   }
@@ -70,194 +227,470 @@ export class GagaraBoostClient {
     this.#token = token
   }
 
+  /**
+   * Appends a middleware to the chain. Later middleware run closer to fetch.
+   */
+  use (middleware: Middleware): this {
+    this.#middleware.push(middleware)
+    return this
+  }
+
   // ----------------------------------------------------------
   // Health
   // ----------------------------------------------------------
 
-  async health (): Promise<boolean> {
+  async health (options?: RequestOptions): Promise<boolean> {
     try {
-      const res = await this.#request('/health')
+      const res = await this.#request('/health', options)
       return res.ok
     } catch {
       return false
     }
   }
 
-  async createUser (): Promise<UserCreateResponse> {
-    return this.#requestJson('/user/new', { method: 'POST' })
+  async createUser (options?: RequestOptions): Promise<UserCreateResponse> {
+    return this.#requestJson('/user/new', {
+      ...options,
+      method: 'POST',
+      schema: UserCreateResponseSchema,
+    })
   }
 
-  async createUserAndSetToken (): Promise<UserCreateResponse> {
-    const resp = await this.createUser()
+  async createUserAndSetToken (options?: RequestOptions): Promise<UserCreateResponse> {
+    const resp = await this.createUser(options)
     this.setServiceToken(resp.token)
     return resp
   }
 
+  // ----------------------------------------------------------
+  // Resource handles
+  // ----------------------------------------------------------
+
+  /**
+   * A handle on a workspace. Nothing is fetched until `load()`; the handle's
+   * `datasets`, `rowSets`, ... collections create and list objects in it.
+   */
+  workspace (id: string): WorkspaceResource {
+    return new WorkspaceResource(this, id)
+  }
+
+  dataset (id: string): DatasetResource {
+    return new DatasetResource(this, id)
+  }
+
+  rowSet (id: string): RowSetResource {
+    return new RowSetResource(this, id)
+  }
+
+  columnSet (id: string): ColumnSetResource {
+    return new ColumnSetResource(this, id)
+  }
+
+  trainingParamSet (id: string): TrainingParamSetResource {
+    return new TrainingParamSetResource(this, id)
+  }
+
+  model (id: string): ModelResource {
+    return new ModelResource(this, id)
+  }
+
   // ----------------------------------------------------------
   // Workspaces
   // ----------------------------------------------------------
 
-  async listWorkspaces (): Promise<Workspace[]> {
-    return this.#requestJson('/workspaces')
+  async listWorkspaces (options?: ListOptions): Promise<Workspace[]> {
+    return this.#list('/workspaces', WorkspaceSchema, {}, options)
+  }
+
+  iterateWorkspaces (options?: IterateOptions): AsyncGenerator<Workspace> {
+    return this.#iterate('/workspaces', WorkspaceSchema, {}, options)
   }
 
-  async createWorkspace (data: WorkspaceCreate | string): Promise<Workspace> {
+  async createWorkspace (
+    data: WorkspaceCreate | string,
+    options?: RequestOptions
+  ): Promise<Workspace> {
     const payload = typeof data === 'string' ? { name: data } : data
     return this.#requestJson('/workspaces', {
+      ...options,
       method: 'POST',
       body: JSON.stringify(payload),
+      schema: WorkspaceSchema,
     })
   }
 
-  async getWorkspace (id: string): Promise<Workspace> {
-    return this.#requestJson(`/workspaces/${id}`)
+  async getWorkspace (id: string, options?: RequestOptions): Promise<Workspace> {
+    return this.#requestJson(`/workspaces/${id}`, { ...options, schema: WorkspaceSchema })
   }
 
-  async renameWorkspace (id: string, name: string): Promise<Workspace> {
+  async renameWorkspace (
+    id: string,
+    name: string,
+    options?: RequestOptions
+  ): Promise<Workspace> {
     const payload: WorkspaceRename = { name }
     return this.#requestJson(`/workspaces/${id}`, {
+      ...options,
       method: 'PATCH',
       body: JSON.stringify(payload),
+      schema: WorkspaceSchema,
     })
   }
 
-  async deleteWorkspace (id: string): Promise<{ status: string }> {
-    return this.#requestJson(`/workspaces/${id}`, { method: 'DELETE' })
+  async deleteWorkspace (
+    id: string,
+    options?: RequestOptions
+  ): Promise<{ status: string }> {
+    return this.#requestJson(`/workspaces/${id}`, {
+      ...options,
+      method: 'DELETE',
+      schema: StatusResponseSchema,
+    })
   }
 
   // ----------------------------------------------------------
   // Datasets
   // ----------------------------------------------------------
 
-  async listDatasets (workspaceId?: string): Promise<DatasetItem[]> {
-    return this.#requestJson('/datasets', undefined, {
-      workspace_id: workspaceId,
-    })
+  async listDatasets (
+    workspaceId?: string,
+    options?: ListOptions
+  ): Promise<DatasetItem[]> {
+    return this.#list('/datasets', DatasetItemSchema, { workspace_id: workspaceId }, options, 'alias')
   }
 
-  async getDataset (id: string): Promise<DatasetItem> {
-    return this.#requestJson(`/datasets/${id}`)
+  iterateDatasets (workspaceId?: string, options?: IterateOptions): AsyncGenerator<DatasetItem> {
+    return this.#iterate('/datasets', DatasetItemSchema, { workspace_id: workspaceId }, options, 'alias')
   }
 
+  async getDataset (id: string, options?: RequestOptions): Promise<DatasetItem> {
+    return this.#requestJson(`/datasets/${id}`, { ...options, schema: DatasetItemSchema })
+  }
+
+  /**
+   * Uploads a parquet file. Streams, file paths and large inputs go through
+   * the resumable chunked protocol when the server supports it; see
+   * ChunkedUploadOptions.
+   */
   async uploadDataset (
-    file: UploadFileInput,
+    file: UploadSource,
     options: UploadDatasetOptions = {}
   ): Promise<UploadResponse> {
-    const form = new FormData()
-    const filename = options.filename ?? 'dataset.parquet'
-    const contentType = options.contentType ?? 'application/octet-stream'
-
-    let payload: Blob | File
-    if (file instanceof Blob) {
-      payload = file
-    } else {
-      const bytes = new Uint8Array(file)
-      payload = new Blob([bytes], { type: contentType })
-    }
-
-    if (payload instanceof File) {
-      form.append('file', payload)
-    } else {
-      form.append('file', payload, filename)
-    }
-
-    if (options.workspaceId) {
-      form.append('workspace_id', options.workspaceId)
-    }
-    if (options.alias) {
-      form.append('alias', options.alias)
+    const fields = { workspace_id: options.workspaceId, alias: options.alias }
+    if (await shouldChunk(file, options)) {
+      const result = await this.#uploadChunked(
+        file,
+        { ...fields, filename: uploadFilename(file, options.filename) },
+        UploadResponseSchema,
+        options
+      )
+      if (result) {
+        return result
+      }
     }
-
-    return this.#requestJson('/datasets', { method: 'POST', body: form })
+    return this.#uploadMultipart('/datasets', file, fields, UploadResponseSchema, options)
   }
 
   async replaceDataset (
     id: string,
-    file: UploadFileInput,
+    file: UploadSource,
     options: ReplaceDatasetOptions = {}
   ): Promise<DatasetItem> {
-    const form = new FormData()
-    const filename = options.filename ?? 'dataset.parquet'
-    const contentType = options.contentType ?? 'application/octet-stream'
-
-    let payload: Blob | File
-    if (file instanceof Blob) {
-      payload = file
-    } else {
-      const bytes = new Uint8Array(file)
-      payload = new Blob([bytes], { type: contentType })
+    const { compatibility = 'none', allColumns } = options
+    if (compatibility !== 'none') {
+      if (!isInMemorySource(file) && typeof file !== 'string') {
+        // Streams can only be read once: buffer them for the schema check and the upload
+        file = await toBlob(file, options.contentType ?? 'application/octet-stream')
+      }
+      const report = await this.checkReplaceCompatibility(id, file, compatibility, { ...options, allColumns })
+      if (!report.compatible) {
+        throw new SchemaCompatibilityError(describeIncompatibility(report), report)
+      }
     }
-
-    if (payload instanceof File) {
-      form.append('file', payload)
-    } else {
-      form.append('file', payload, filename)
+    if (await shouldChunk(file, options)) {
+      const result = await this.#uploadChunked(
+        file,
+        { dataset_id: id, filename: uploadFilename(file, options.filename) },
+        DatasetItemSchema,
+        options
+      )
+      if (result) {
+        return result
+      }
     }
+    return this.#uploadMultipart(`/datasets/${id}/replace`, file, {}, DatasetItemSchema, options)
+  }
 
-    return this.#requestJson(`/datasets/${id}/replace`, {
-      method: 'POST',
-      body: form,
+  /**
+   * Compares a parquet file's schema with the dataset's and with the column
+   * sets built on it, without uploading anything. Only the parquet footer is
+   * read; streams are consumed.
+   */
+  async checkReplaceCompatibility (
+    id: string,
+    file: UploadSource,
+    mode: SchemaCompatibilityMode = 'strict',
+    options?: RequestOptions & { allColumns?: boolean }
+  ): Promise<SchemaCompatibilityReport> {
+    const requestOptions = { signal: options?.signal, timeout: options?.timeout }
+    const [candidate, current, columnSets] = await Promise.all([
+      readParquetSchema(file),
+      this.getDatasetSchema(id, requestOptions),
+      this.listColumnSets({ datasetId: id }, requestOptions),
+    ])
+    return checkSchemaCompatibility(current, candidate, columnSets, mode, options?.allColumns)
+  }
+
+  /**
+   * Converts objects or an Apache Arrow table to parquet and uploads it.
+   * JSON Lines can be passed through `parseJsonLines(source)`.
+   */
+  async uploadRecords (
+    records: RecordInput,
+    options: UploadRecordsOptions = {}
+  ): Promise<UploadResponse> {
+    const parquet = await recordsToParquet(records, options)
+    return this.uploadDataset(parquet, {
+      ...options,
+      filename: options.filename ?? 'dataset.parquet',
+    })
+  }
+
+  /** Converts CSV to parquet and uploads it. String sources are file paths. */
+  async uploadCsv (
+    source: UploadSource,
+    options: UploadCsvOptions = {}
+  ): Promise<UploadResponse> {
+    const parquet = await csvToParquet(source, options)
+    return this.uploadDataset(parquet, {
+      ...options,
+      filename: options.filename ?? parquetFilename(source),
+    })
+  }
+
+  async getUploadSession (id: string, options?: RequestOptions): Promise<UploadSession> {
+    return this.#requestJson(`/uploads/${id}`, { ...options, schema: UploadSessionSchema })
+  }
+
+  /** Discards an unfinished upload and the bytes stored for it */
+  async abortUpload (id: string, options?: RequestOptions): Promise<{ status: string }> {
+    return this.#requestJson(`/uploads/${id}`, {
+      ...options,
+      method: 'DELETE',
+      schema: StatusResponseSchema,
     })
   }
 
-  async downloadDataset (id: string): Promise<ArrayBuffer> {
-    const res = await this.#request(`/datasets/${id}/download`)
-    if (!res.ok) {
-      const errorBody = await this.#parseError(res)
-      throw new GagaraBoostError(
-        this.#errorMessage(res.status, errorBody),
-        res.status,
-        errorBody
+  async downloadDataset (id: string, options?: RequestOptions): Promise<ArrayBuffer> {
+    const res = await this.#request(`/datasets/${id}/download`, options)
+    return res.arrayBuffer()
+  }
+
+  /**
+   * Streams a dataset without buffering it. With `offset`, the download
+   * starts that many bytes in via an HTTP Range request.
+   */
+  async downloadDatasetStream (
+    id: string,
+    options: DownloadOptions = {}
+  ): Promise<ReadableStream<Uint8Array>> {
+    const offset = options.offset ?? 0
+    const download = await this.#openDownload(id, offset, options)
+    return progressStream(download.body, {
+      received: offset,
+      skip: offset - download.start,
+      total: download.total,
+      onProgress: options.onProgress,
+      signal: options.signal,
+    })
+  }
+
+  /**
+   * Downloads a dataset to a file in Node. Bytes go to `<path>.part` first,
+   * which is renamed once the checksum has been verified. Dropped connections
+   * and earlier interrupted calls are resumed with Range requests.
+   */
+  async downloadDatasetToFile (
+    id: string,
+    path: string,
+    options: DownloadToFileOptions = {}
+  ): Promise<DownloadResult> {
+    const fs = await nodeFs()
+    const { createHash } = await nodeCrypto()
+    const { signal, onProgress } = options
+    const maxResumeAttempts = options.maxResumeAttempts ?? 5
+    const partPath = `${path}.part`
+
+    let offset = 0
+    let hash = createHash('sha256')
+    if (options.resume !== false) {
+      offset = (await fs.promises.stat(partPath).catch(() => undefined))?.size ?? 0
+      if (offset > 0) {
+        for await (const chunk of fs.createReadStream(partPath)) {
+          hash.update(chunk as Uint8Array)
+        }
+      }
+    }
+    let resumed = offset > 0
+    let expected = options.checksum ? normalizeChecksum(options.checksum) : undefined
+
+    const handle = await fs.promises.open(partPath, offset > 0 ? 'r+' : 'w')
+    try {
+      const restart = async (): Promise<void> => {
+        await handle.truncate(0)
+        hash = createHash('sha256')
+        offset = 0
+        resumed = false
+      }
+
+      for (let failures = 0; ;) {
+        let download: OpenDownload
+        try {
+          download = await this.#openDownload(id, offset, options)
+        } catch (error) {
+          if (error instanceof GagaraBoostError && error.status === 416 && offset > 0) {
+            // The partial file does not fit the current dataset, e.g. it was replaced
+            await restart()
+            continue
+          }
+          if (++failures > maxResumeAttempts || signal?.aborted || !isResumableError(error)) {
+            throw error
+          }
+          await sleep(retryDelay(failures, this.#retry), signal)
+          continue
+        }
+
+        if (download.start !== offset) {
+          await restart()
+        }
+        expected ??= checksumFromHeaders(download.headers)
+
+        try {
+          const reader = progressStream(download.body, { received: offset, signal }).getReader()
+          for (let next = await reader.read(); !next.done; next = await reader.read()) {
+            const chunk = next.value
+            await handle.write(chunk, 0, chunk.byteLength, offset)
+            hash.update(chunk)
+            offset += chunk.byteLength
+            onProgress?.(offset, download.total)
+          }
+          if (download.total === undefined || offset >= download.total) {
+            break
+          }
+          throw new NetworkError(`Download ended after ${offset} of ${download.total} bytes`)
+        } catch (error) {
+          if (++failures > maxResumeAttempts || signal?.aborted || !isResumableError(error)) {
+            throw error
+          }
+          await sleep(retryDelay(failures, this.#retry), signal)
+        }
+      }
+    } finally {
+      await handle.close()
+    }
+
+    const actual = hash.digest('hex')
+    if (expected && expected !== actual) {
+      await fs.promises.rm(partPath, { force: true })
+      throw new ChecksumMismatchError(
+        `Checksum mismatch for dataset ${id}: expected ${expected}, got ${actual}`,
+        expected,
+        actual
       )
     }
-    return res.arrayBuffer()
+    await fs.promises.rename(partPath, path)
+    return { path, bytes: offset, sha256: actual, resumed }
   }
 
-  async deleteDataset (id: string): Promise<{ status: string }> {
-    return this.#requestJson(`/datasets/${id}`, { method: 'DELETE' })
+  async deleteDataset (
+    id: string,
+    options?: RequestOptions
+  ): Promise<{ status: string }> {
+    return this.#requestJson(`/datasets/${id}`, {
+      ...options,
+      method: 'DELETE',
+      schema: StatusResponseSchema,
+    })
   }
 
-  async updateDatasetAlias (id: string, alias: string): Promise<DatasetItem> {
+  async updateDatasetAlias (
+    id: string,
+    alias: string,
+    options?: RequestOptions
+  ): Promise<DatasetItem> {
     return this.#requestJson(`/datasets/${id}`, {
+      ...options,
       method: 'PATCH',
       body: JSON.stringify({ alias }),
+      schema: DatasetItemSchema,
     })
   }
 
-  async getDatasetMeta (id: string): Promise<DatasetMetaResponse> {
-    return this.#requestJson(`/datasets/${id}/meta`)
+  async getDatasetMeta (
+    id: string,
+    options?: RequestOptions
+  ): Promise<DatasetMetaResponse> {
+    return this.#requestJson(`/datasets/${id}/meta`, {
+      ...options,
+      schema: DatasetMetaResponseSchema,
+    })
   }
 
-  async refreshDatasetMeta (id: string): Promise<DatasetMetaResponse> {
-    return this.#requestJson(`/datasets/${id}/refresh`, { method: 'POST' })
+  async refreshDatasetMeta (
+    id: string,
+    options?: RequestOptions
+  ): Promise<DatasetMetaResponse> {
+    return this.#requestJson(`/datasets/${id}/refresh`, {
+      ...options,
+      method: 'POST',
+      schema: DatasetMetaResponseSchema,
+    })
   }
 
-  async getDatasetSchema (id: string): Promise<DatasetSchemaResponse> {
-    return this.#requestJson(`/datasets/${id}/schema`)
+  async getDatasetSchema (
+    id: string,
+    options?: RequestOptions
+  ): Promise<DatasetSchemaResponse> {
+    return this.#requestJson(`/datasets/${id}/schema`, {
+      ...options,
+      schema: DatasetSchemaResponseSchema,
+    })
   }
 
-  async listDatasetColumns (datasetId: string): Promise<StoredDatasetColumn[]> {
-    return this.#requestJson(`/datasets/${datasetId}/columns`)
+  async listDatasetColumns (
+    datasetId: string,
+    options?: RequestOptions
+  ): Promise<StoredDatasetColumn[]> {
+    return this.#requestJson(`/datasets/${datasetId}/columns`, {
+      ...options,
+      schema: array(StoredDatasetColumnSchema),
+    })
   }
 
   async createDatasetColumn (
     datasetId: string,
-    payload: DatasetColumnCreate
+    payload: DatasetColumnCreate,
+    options?: RequestOptions
   ): Promise<StoredDatasetColumn> {
     return this.#requestJson(`/datasets/${datasetId}/columns`, {
+      ...options,
       method: 'POST',
       body: JSON.stringify(payload),
+      schema: StoredDatasetColumnSchema,
     })
   }
 
   async updateDatasetColumn (
     datasetId: string,
     columnId: string,
-    payload: DatasetColumnUpdate
+    payload: DatasetColumnUpdate,
+    options?: RequestOptions
   ): Promise<StoredDatasetColumn> {
     return this.#requestJson(`/datasets/${datasetId}/columns/${columnId}`, {
+      ...options,
       method: 'PATCH',
       body: JSON.stringify(payload),
+      schema: StoredDatasetColumnSchema,
     })
   }
 
@@ -265,49 +698,92 @@ export class GagaraBoostClient {
   // Row Sets
   // ----------------------------------------------------------
 
-  async listRowSets (workspaceId?: string): Promise<RowSet[]> {
-    return this.#requestJson('/row-sets', undefined, {
-      workspace_id: workspaceId,
-    })
+  async listRowSets (workspaceId?: string, options?: ListOptions): Promise<RowSet[]> {
+    return this.#list('/row-sets', RowSetSchema, { workspace_id: workspaceId }, options)
+  }
+
+  iterateRowSets (workspaceId?: string, options?: IterateOptions): AsyncGenerator<RowSet> {
+    return this.#iterate('/row-sets', RowSetSchema, { workspace_id: workspaceId }, options)
   }
 
-  async getRowSet (id: string): Promise<RowSet> {
-    return this.#requestJson(`/row-sets/${id}`)
+  async getRowSet (id: string, options?: RequestOptions): Promise<RowSet> {
+    return this.#requestJson(`/row-sets/${id}`, { ...options, schema: RowSetSchema })
   }
 
-  async createRowSet (payload: RowSetCreate): Promise<RowSet> {
+  async createRowSet (
+    payload: RowSetCreate,
+    options: RowSetWriteOptions = {}
+  ): Promise<RowSet> {
+    const { validate, ...requestOptions } = options
+    if (validate && payload.predicate) {
+      const schema = await this.getDatasetSchema(payload.base_dataset_id, requestOptions)
+      assertValidPredicate(payload.predicate, schema)
+    }
     return this.#requestJson('/row-sets', {
+      ...requestOptions,
       method: 'POST',
       body: JSON.stringify(payload),
+      schema: RowSetSchema,
     })
   }
 
-  async updateRowSet (id: string, payload: RowSetUpdate): Promise<RowSet> {
+  async updateRowSet (
+    id: string,
+    payload: RowSetUpdate,
+    options: RowSetWriteOptions = {}
+  ): Promise<RowSet> {
+    const { validate, ...requestOptions } = options
+    if (validate && payload.predicate) {
+      const schema = await this.getRowSetSchema(id, requestOptions)
+      assertValidPredicate(payload.predicate, schema)
+    }
     return this.#requestJson(`/row-sets/${id}`, {
+      ...requestOptions,
       method: 'PATCH',
       body: JSON.stringify(payload),
+      schema: RowSetSchema,
     })
   }
 
-  async deleteRowSet (id: string): Promise<{ status: string }> {
-    return this.#requestJson(`/row-sets/${id}`, { method: 'DELETE' })
+  async deleteRowSet (id: string, options?: RequestOptions): Promise<{ status: string }> {
+    return this.#requestJson(`/row-sets/${id}`, {
+      ...options,
+      method: 'DELETE',
+      schema: StatusResponseSchema,
+    })
   }
 
-  async getRowSetSchema (id: string): Promise<DatasetSchemaResponse> {
-    return this.#requestJson(`/row-sets/${id}/schema`)
+  async getRowSetSchema (
+    id: string,
+    options?: RequestOptions
+  ): Promise<DatasetSchemaResponse> {
+    return this.#requestJson(`/row-sets/${id}/schema`, {
+      ...options,
+      schema: DatasetSchemaResponseSchema,
+    })
   }
 
   async getRowSetMeta (
     id: string,
-    options?: { force?: boolean }
+    options?: RequestOptions & { force?: boolean }
   ): Promise<DatasetMetaResponse> {
-    return this.#requestJson(`/row-sets/${id}/meta`, undefined, {
-      force: options?.force ? 'true' : undefined,
+    const { force, ...requestOptions } = options ?? {}
+    return this.#requestJson(`/row-sets/${id}/meta`, {
+      ...requestOptions,
+      schema: DatasetMetaResponseSchema,
+    }, {
+      force: force ? 'true' : undefined,
     })
   }
 
-  async getRowSetSample (id: string): Promise<RowSetSampleResponse> {
-    return this.#requestJson(`/row-sets/${id}/sample`)
+  async getRowSetSample (
+    id: string,
+    options?: RequestOptions
+  ): Promise<RowSetSampleResponse> {
+    return this.#requestJson(`/row-sets/${id}/sample`, {
+      ...options,
+      schema: RowSetSampleResponseSchema,
+    })
   }
 
   // ----------------------------------------------------------
@@ -317,75 +793,132 @@ export class GagaraBoostClient {
   async listColumnSets (params?: {
     workspaceId?: string
     datasetId?: string
-  }): Promise<ColumnSet[]> {
-    return this.#requestJson('/column-sets', undefined, {
+  }, options?: ListOptions): Promise<ColumnSet[]> {
+    return this.#list('/column-sets', ColumnSetSchema, {
       workspace_id: params?.workspaceId,
       dataset_id: params?.datasetId,
-    })
+    }, options)
+  }
+
+  iterateColumnSets (params?: {
+    workspaceId?: string
+    datasetId?: string
+  }, options?: IterateOptions): AsyncGenerator<ColumnSet> {
+    return this.#iterate('/column-sets', ColumnSetSchema, {
+      workspace_id: params?.workspaceId,
+      dataset_id: params?.datasetId,
+    }, options)
   }
 
-  async getColumnSet (id: string): Promise<ColumnSet> {
-    return this.#requestJson(`/column-sets/${id}`)
+  async getColumnSet (id: string, options?: RequestOptions): Promise<ColumnSet> {
+    return this.#requestJson(`/column-sets/${id}`, { ...options, schema: ColumnSetSchema })
   }
 
-  async createColumnSet (payload: ColumnSetCreate): Promise<ColumnSet> {
+  async createColumnSet (
+    payload: ColumnSetCreate,
+    options?: RequestOptions
+  ): Promise<ColumnSet> {
     return this.#requestJson('/column-sets', {
+      ...options,
       method: 'POST',
       body: JSON.stringify(payload),
+      schema: ColumnSetSchema,
     })
   }
 
-  async cloneColumnSet (id: string): Promise<ColumnSet> {
-    return this.#requestJson(`/column-sets/${id}/clone`, { method: 'POST' })
+  async cloneColumnSet (id: string, options?: RequestOptions): Promise<ColumnSet> {
+    return this.#requestJson(`/column-sets/${id}/clone`, {
+      ...options,
+      method: 'POST',
+      schema: ColumnSetSchema,
+    })
   }
 
-  async updateColumnSet (id: string, payload: ColumnSetUpdate): Promise<ColumnSet> {
+  async updateColumnSet (
+    id: string,
+    payload: ColumnSetUpdate,
+    options?: RequestOptions
+  ): Promise<ColumnSet> {
     return this.#requestJson(`/column-sets/${id}`, {
+      ...options,
       method: 'PATCH',
       body: JSON.stringify(payload),
+      schema: ColumnSetSchema,
     })
   }
 
-  async deleteColumnSet (id: string): Promise<{ status: string }> {
-    return this.#requestJson(`/column-sets/${id}`, { method: 'DELETE' })
+  async deleteColumnSet (
+    id: string,
+    options?: RequestOptions
+  ): Promise<{ status: string }> {
+    return this.#requestJson(`/column-sets/${id}`, {
+      ...options,
+      method: 'DELETE',
+      schema: StatusResponseSchema,
+    })
   }
 
   // ----------------------------------------------------------
   // Training Param Sets
   // ----------------------------------------------------------
 
-  async listTrainingParamSets (workspaceId?: string): Promise<TrainingParamSet[]> {
-    return this.#requestJson('/training-param-sets', undefined, {
-      workspace_id: workspaceId,
-    })
+  async listTrainingParamSets (
+    workspaceId?: string,
+    options?: ListOptions
+  ): Promise<TrainingParamSet[]> {
+    return this.#list('/training-param-sets', TrainingParamSetSchema, { workspace_id: workspaceId }, options)
   }
 
-  async getTrainingParamSet (id: string): Promise<TrainingParamSet> {
-    return this.#requestJson(`/training-param-sets/${id}`)
+  iterateTrainingParamSets (
+    workspaceId?: string,
+    options?: IterateOptions
+  ): AsyncGenerator<TrainingParamSet> {
+    return this.#iterate('/training-param-sets', TrainingParamSetSchema, { workspace_id: workspaceId }, options)
+  }
+
+  async getTrainingParamSet (
+    id: string,
+    options?: RequestOptions
+  ): Promise<TrainingParamSet> {
+    return this.#requestJson(`/training-param-sets/${id}`, {
+      ...options,
+      schema: TrainingParamSetSchema,
+    })
   }
 
   async createTrainingParamSet (
-    payload: TrainingParamSetCreate
+    payload: TrainingParamSetCreate,
+    options?: RequestOptions
   ): Promise<TrainingParamSet> {
     return this.#requestJson('/training-param-sets', {
+      ...options,
       method: 'POST',
       body: JSON.stringify(payload),
+      schema: TrainingParamSetSchema,
     })
   }
 
   async updateTrainingParamSet (
     id: string,
-    payload: TrainingParamSetUpdate
+    payload: TrainingParamSetUpdate,
+    options?: RequestOptions
   ): Promise<TrainingParamSet> {
     return this.#requestJson(`/training-param-sets/${id}`, {
+      ...options,
       method: 'PATCH',
       body: JSON.stringify(payload),
+      schema: TrainingParamSetSchema,
     })
   }
 
-  async deleteTrainingParamSet (id: string): Promise<{ status: string }> {
+  async deleteTrainingParamSet (
+    id: string,
+    options?: RequestOptions
+  ): Promise<{ status: string }> {
     return this.#requestJson(`/training-param-sets/${id}`, {
+      ...options,
       method: 'DELETE',
+      schema: StatusResponseSchema,
     })
   }
 
@@ -396,25 +929,45 @@ export class GagaraBoostClient {
   async listModels (params?: {
     workspaceId?: string
     datasetId?: string
-  }): Promise<ModelDetail[]> {
-    return this.#requestJson('/models', undefined, {
+  }, options?: ListOptions): Promise<ModelDetail[]> {
+    return this.#list('/models', ModelDetailSchema, {
       workspace_id: params?.workspaceId,
       dataset_id: params?.datasetId,
-    })
+    }, options)
+  }
+
+  iterateModels (params?: {
+    workspaceId?: string
+    datasetId?: string
+  }, options?: IterateOptions): AsyncGenerator<ModelDetail> {
+    return this.#iterate('/models', ModelDetailSchema, {
+      workspace_id: params?.workspaceId,
+      dataset_id: params?.datasetId,
+    }, options)
   }
 
-  async getModel (id: string): Promise<ModelDetail> {
-    return this.#requestJson(`/models/${id}`)
+  async getModel (id: string, options?: RequestOptions): Promise<ModelDetail> {
+    return this.#requestJson(`/models/${id}`, { ...options, schema: ModelDetailSchema })
   }
 
-  async deleteModel (id: string): Promise<{ status: string }> {
-    return this.#requestJson(`/models/${id}`, { method: 'DELETE' })
+  async deleteModel (id: string, options?: RequestOptions): Promise<{ status: string }> {
+    return this.#requestJson(`/models/${id}`, {
+      ...options,
+      method: 'DELETE',
+      schema: StatusResponseSchema,
+    })
   }
 
-  async renameModel (id: string, name: string): Promise<ModelDetail> {
+  async renameModel (
+    id: string,
+    name: string,
+    options?: RequestOptions
+  ): Promise<ModelDetail> {
     return this.#requestJson(`/models/${id}`, {
+      ...options,
       method: 'PATCH',
       body: JSON.stringify({ name }),
+      schema: ModelDetailSchema,
     })
   }
 
@@ -422,33 +975,164 @@ export class GagaraBoostClient {
   // Actions
   // ----------------------------------------------------------
 
-  async train (request: TrainingRequest): Promise<TrainingResponse> {
+  async train (
+    request: TrainingRequest,
+    options?: RequestOptions
+  ): Promise<TrainingResponse> {
     const response = await this.#requestJson<TrainingResponse>('/train', {
+      ...options,
       method: 'POST',
       body: JSON.stringify(request),
+      schema: TrainingResponseSchema,
     })
-    if (response?.status === 'completed') {
-      return { ...response, status: 'success' }
+    return normalizeTrainingResponse(response)
+  }
+
+  /**
+   * Starts training as a server-side job. When the server has no job
+   * endpoints, the job wraps a synchronous `train()` call instead (which is
+   * bound by `options.timeout`), unless `fallback` is false.
+   */
+  async startTraining (
+    request: TrainingRequest,
+    options: StartJobOptions = {}
+  ): Promise<TrainingJob> {
+    const status = await this.#createJob(
+      '/train/jobs',
+      request,
+      TrainingJobStatusSchema,
+      options
+    )
+    if (status) {
+      const initial = normalizeTrainingJobStatus(status)
+      return new TrainingJob({
+        id: initial.id,
+        status: (statusOptions) => this.getTrainingJob(initial.id, statusOptions),
+        cancel: (cancelOptions) => this.cancelTrainingJob(initial.id, cancelOptions),
+      }, initial)
     }
-    return response
+
+    const source = localJobSource<TrainingJobStatus, TrainingResponse>(
+      (signal) => this.train(request, { signal, timeout: options.timeout }),
+      (id, state, result, error) => ({
+        id,
+        status: state,
+        result: result ?? null,
+        error: error instanceof Error ? error.message : null,
+      })
+    )
+    return new TrainingJob(source)
+  }
+
+  async getTrainingJob (
+    id: string,
+    options?: RequestOptions
+  ): Promise<TrainingJobStatus> {
+    const status = await this.#requestJson<TrainingJobStatus>(`/train/jobs/${id}`, {
+      ...options,
+      schema: TrainingJobStatusSchema,
+    })
+    return normalizeTrainingJobStatus(status)
+  }
+
+  async cancelTrainingJob (
+    id: string,
+    options?: RequestOptions
+  ): Promise<TrainingJobStatus> {
+    const status = await this.#requestJson<TrainingJobStatus>(`/train/jobs/${id}/cancel`, {
+      ...options,
+      method: 'POST',
+      schema: TrainingJobStatusSchema,
+    })
+    return normalizeTrainingJobStatus(status)
   }
 
   async calculateOptimalParamSet (
-    request: OptimalParamSearchRequest
+    request: OptimalParamSearchRequest,
+    options?: RequestOptions
   ): Promise<OptimalParamSearchResponse> {
     return this.#requestJson('/calculate-optimal-param-set', {
+      ...options,
       method: 'POST',
       body: JSON.stringify(request),
+      schema: OptimalParamSearchResponseSchema,
     })
   }
 
+  /**
+   * Starts an optimal parameter search as a server-side job whose trials can
+   * be streamed as they complete. Falls back to wrapping
+   * `calculateOptimalParamSet()` like `startTraining()` does; the fallback
+   * reports no individual trials.
+   */
+  async startOptimalParamSearch (
+    request: OptimalParamSearchRequest,
+    options: StartJobOptions = {}
+  ): Promise<OptimalParamSearchJob> {
+    const status = await this.#createJob(
+      '/calculate-optimal-param-set/jobs',
+      request,
+      OptimalParamSearchJobStatusSchema,
+      options
+    )
+    if (status) {
+      const initial = normalizeOptimalParamSearchJobStatus(status)
+      return new OptimalParamSearchJob({
+        id: initial.id,
+        status: (statusOptions) => this.getOptimalParamSearchJob(initial.id, statusOptions),
+        cancel: (cancelOptions) => this.cancelOptimalParamSearchJob(initial.id, cancelOptions),
+      }, initial)
+    }
+
+    const source = localJobSource<OptimalParamSearchJobStatus, OptimalParamSearchResponse>(
+      (signal) => this.calculateOptimalParamSet(request, { signal, timeout: options.timeout }),
+      (id, state, result, error) => ({
+        id,
+        status: state,
+        trials: [],
+        result: result ?? null,
+        error: error instanceof Error ? error.message : null,
+      })
+    )
+    return new OptimalParamSearchJob(source)
+  }
+
+  async getOptimalParamSearchJob (
+    id: string,
+    options?: RequestOptions
+  ): Promise<OptimalParamSearchJobStatus> {
+    const status = await this.#requestJson<OptimalParamSearchJobStatus>(
+      `/calculate-optimal-param-set/jobs/${id}`,
+      { ...options, schema: OptimalParamSearchJobStatusSchema }
+    )
+    return normalizeOptimalParamSearchJobStatus(status)
+  }
+
+  /**
+   * Stops the search early. The server may still report the best result found
+   * so far, which `wait()` then resolves with.
+   */
+  async cancelOptimalParamSearchJob (
+    id: string,
+    options?: RequestOptions
+  ): Promise<OptimalParamSearchJobStatus> {
+    const status = await this.#requestJson<OptimalParamSearchJobStatus>(
+      `/calculate-optimal-param-set/jobs/${id}/cancel`,
+      { ...options, method: 'POST', schema: OptimalParamSearchJobStatusSchema }
+    )
+    return normalizeOptimalParamSearchJobStatus(status)
+  }
+
   async predict (
     modelId: string,
-    request: PredictionRequest
+    request: PredictionRequest,
+    options?: RequestOptions
   ): Promise<PredictionResponse> {
     return this.#requestJson('/predict/', {
+      ...options,
       method: 'POST',
       body: JSON.stringify(request),
+      schema: PredictionResponseSchema,
     }, {
       id: modelId,
     })
@@ -456,25 +1140,186 @@ export class GagaraBoostClient {
 
   async predictWithFreeParameter (
     modelId: string,
-    request: PredictionWithFreeParameterRequest
+    request: PredictionWithFreeParameterRequest,
+    options?: RequestOptions
   ): Promise<PredictionWithFreeParameterResponse> {
     return this.#requestJson('/predict-with-free-parameter/', {
+      ...options,
       method: 'POST',
       body: JSON.stringify(request),
+      schema: PredictionWithFreeParameterResponseSchema,
     }, {
       id: modelId,
     })
   }
 
+  /**
+   * Creates whatever the spec describes that does not exist yet — matched by
+   * name, or alias for datasets — and trains the model. Running the same spec
+   * again reuses every resource. On failure the resources created by this
+   * call are deleted unless `cleanup` is false.
+   */
+  async runPipeline (
+    spec: PipelineSpec,
+    options?: PipelineOptions
+  ): Promise<PipelineResult> {
+    return runPipeline(this, spec, options)
+  }
+
+  /**
+   * Lists the create, update and delete calls that would make the workspace's
+   * row sets, column sets and param sets match the manifest. Nothing is
+   * changed. Resources the manifest does not name are only deleted with
+   * `prune`.
+   */
+  async plan (
+    manifest: WorkspaceManifest,
+    options?: ManifestOptions
+  ): Promise<ManifestPlan> {
+    return planManifest(this, manifest, options)
+  }
+
+  /**
+   * Makes the workspace match a manifest, or applies a plan from `plan()`
+   * as reviewed. Stops at the first failed call; applying the manifest
+   * again continues from there.
+   */
+  async apply (
+    manifest: WorkspaceManifest | ManifestPlan,
+    options?: ManifestOptions
+  ): Promise<ManifestPlan> {
+    return applyManifest(this, manifest, options)
+  }
+
+  /**
+   * Reads a workspace into a portable bundle: dataset files and column
+   * settings, row sets, column sets, param sets and model metadata. Dataset
+   * files are held in memory; see `saveWorkspaceBundle()` to write them out.
+   */
+  async exportWorkspace (
+    id: string,
+    options?: RequestOptions
+  ): Promise<WorkspaceBundle> {
+    return exportWorkspace(this, id, options)
+  }
+
+  /**
+   * Recreates an exported workspace, here or on another server, mapping
+   * every id in the bundle to the resource created for it. Models are only
+   * recreated with `retrainModels`.
+   */
+  async importWorkspace (
+    bundle: WorkspaceBundle,
+    options?: ImportWorkspaceOptions
+  ): Promise<WorkspaceImportResult> {
+    return importWorkspace(this, bundle, options)
+  }
+
   // ----------------------------------------------------------
   // Query
   // ----------------------------------------------------------
 
-  async query (sql: string, workspaceId?: string): Promise<QueryResponse> {
-    return this.#requestJson('/query', {
+  /** The quoted name of a dataset's table in `query()` SQL */
+  datasetTable (datasetId: string): SqlQuery {
+    return sqlTag.identifier(this.#sqlNames.datasetTable.replaceAll('{id}', datasetId))
+  }
+
+  /** The quoted name of a row set's view in `query()` SQL */
+  rowSetView (rowSetId: string): SqlQuery {
+    return sqlTag.identifier(this.#sqlNames.rowSetView.replaceAll('{id}', rowSetId))
+  }
+
+  /**
+   * Runs SQL against the workspace's datasets. Build queries with the `sql`
+   * tag to bind values safely; `Row` types the rows but is not checked.
+   */
+  async query<Row = Record<string, any>> (
+    sql: string | SqlQuery | SelectQuery,
+    workspaceId?: string,
+    options: QueryOptions = {}
+  ): Promise<QueryResponse<Row>> {
+    const { coerce, ...requestOptions } = options
+    const result = await this.#requestJson('/query', {
+      ...requestOptions,
       method: 'POST',
-      body: JSON.stringify({ sql, workspace_id: workspaceId }),
+      body: JSON.stringify({ sql: String(sql), workspace_id: workspaceId }),
+      schema: QueryResponseSchema,
     })
+    return {
+      ...result,
+      rows: coerce ? coerceRows<Row>(result.columns, result.rows, coerce) : result.rows as Row[],
+    }
+  }
+
+  /**
+   * Runs a query page by page. Each page carries the result columns; rows
+   * are coerced like `query()`. Without an ORDER BY, offset paging may skip
+   * or repeat rows if the data changes between pages.
+   */
+  async * queryPages<Row = Record<string, any>> (
+    sql: string | SqlQuery | SelectQuery,
+    options: QueryIteratorOptions = {}
+  ): AsyncGenerator<QueryResponse<Row>> {
+    const { workspaceId, pageSize = 10_000, paging = 'auto', coerce, ...requestOptions } = options
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw new RangeError(`pageSize must be a positive integer, got ${pageSize}`)
+    }
+    // A trailing semicolon would end the statement inside the paging wrapper
+    const text = String(sql).trim().replace(/;+(\s*--[^\n]*)?$/, '$1').trimEnd()
+    const toPage = (result: QueryResponse): QueryResponse<Row> => ({
+      columns: result.columns,
+      rows: coerce ? coerceRows<Row>(result.columns, result.rows, coerce) : result.rows as Row[],
+    })
+
+    if (paging !== 'offset') {
+      let cursor: string | null | undefined = null
+      let first = true
+      while (first || cursor) {
+        let result: QueryPage
+        try {
+          result = await this.#requestJson('/query/pages', {
+            ...requestOptions,
+            method: 'POST',
+            body: JSON.stringify({ sql: text, workspace_id: workspaceId, page_size: pageSize, cursor }),
+            schema: QueryPageSchema,
+          })
+        } catch (error) {
+          if (!first || paging === 'cursor' || !isMissingEndpoint(error)) {
+            throw error
+          }
+          break
+        }
+        first = false
+        cursor = result.next_cursor
+        yield toPage(result)
+      }
+      if (!first) {
+        return
+      }
+    }
+
+    for (let offset = 0; ; offset += pageSize) {
+      const result = await this.query(
+        // The closing parenthesis goes on its own line, out of a trailing `--` comment
+        `SELECT * FROM (\n${text}\n) AS page LIMIT ${pageSize} OFFSET ${offset}`,
+        workspaceId,
+        requestOptions
+      )
+      yield toPage(result)
+      if (result.rows.length < pageSize) {
+        return
+      }
+    }
+  }
+
+  /** Yields query rows one at a time, fetching `pageSize` rows per request */
+  async * queryIterator<Row = Record<string, any>> (
+    sql: string | SqlQuery | SelectQuery,
+    options: QueryIteratorOptions = {}
+  ): AsyncGenerator<Row> {
+    for await (const page of this.queryPages<Row>(sql, options)) {
+      yield * page.rows
+    }
   }
 
   // ----------------------------------------------------------
@@ -483,63 +1328,496 @@ export class GagaraBoostClient {
 
   async #request (
     path: string,
-    init?: RequestInit,
+    init?: RequestInitWithOptions,
     params?: Record<string, string | number | boolean | undefined>
   ): Promise<Response> {
+    return this.#send(this.#context(path, init, params), init)
+  }
+
+  /**
+   * Sends the request with retries and resolves only with a 2xx response,
+   * or one of the `accept` statuses; everything else is thrown as a
+   * GagaraBoostError subclass.
+   */
+  async #send (
+    context: RequestContext,
+    init?: RequestInitWithOptions,
+    accept: number[] = []
+  ): Promise<Response> {
+    const retryable = this.#retry.retryNonIdempotent || isIdempotentMethod(context.method)
+    const maxAttempts = retryable ? this.#retry.maxAttempts : 1
+    const signal = init?.signal ?? undefined
+
+    for (let attempt = 1; ; attempt++) {
+      let res: Response
+      try {
+        res = await this.#fetchOnce(context, init)
+      } catch (error) {
+        if (attempt >= maxAttempts || signal?.aborted || !isRetryableError(error)) {
+          throw error
+        }
+        await sleep(retryDelay(attempt, this.#retry), signal)
+        continue
+      }
+
+      if (res.ok || accept.includes(res.status)) {
+        return res
+      }
+
+      const retryAfter = parseRetryAfter(res.headers?.get('Retry-After') ?? null)
+      if (attempt >= maxAttempts || !this.#retry.retryOnStatus.includes(res.status)) {
+        throw await this.#errorFromResponse(res, context, retryAfter)
+      }
+
+      await res.body?.cancel().catch(() => undefined)
+      await sleep(retryDelay(attempt, this.#retry, retryAfter), signal)
+    }
+  }
+
+  async #fetchOnce (
+    context: RequestContext,
+    init?: RequestInitWithOptions
+  ): Promise<Response> {
+    const { signal, timeout = this.#timeout, ...rest } = init ?? {}
     const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), this.#timeout)
+    let timedOut = false
+    let fetchFailed = false
+    const timeoutId = setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, timeout)
+    const onAbort = (): void => controller.abort(signal?.reason)
+    if (signal?.aborted) {
+      onAbort()
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true })
+    }
 
     try {
-      const headers = new Headers(init?.headers ?? {})
+      const headers = new Headers(rest.headers ?? {})
       const token = this.#token ?? this.#serviceToken
       if (token && !headers.has('Authorization')) {
         headers.set('Authorization', `Bearer ${token}`)
       }
+      if (!headers.has('X-Request-Id')) {
+        headers.set('X-Request-Id', context.requestId)
+      }
 
-      const url = this.#buildUrl(path, params)
-      return await this.#fetch(url, {
-        ...init,
+      const requestInit: RequestInit = {
+        ...rest,
         headers,
         signal: controller.signal,
+      }
+      if (this.#middleware.length === 0) {
+        return await this.#fetch(context.url, requestInit)
+      }
+
+      const handler = composeMiddleware(this.#middleware, (request) => {
+        return this.#fetch(request).catch((error: unknown) => {
+          fetchFailed = true
+          throw error
+        })
       })
+      return await handler(new Request(context.url, requestInit))
+    } catch (error) {
+      if (timedOut) {
+        throw new TimeoutError(`Request timed out after ${timeout}ms`, timeout, {
+          ...context,
+          cause: error,
+        })
+      }
+      if (controller.signal.aborted) {
+        throw error
+      }
+      if (this.#middleware.length > 0 && !fetchFailed) {
+        // Errors raised by middleware itself are not transport failures
+        throw error
+      }
+      if (error instanceof FixtureMismatchError) {
+        // A replayed session went off script; retrying would only repeat the request
+        throw error
+      }
+      const message = error instanceof Error ? error.message : String(error)
+      throw new NetworkError(`Network error: ${message}`, { ...context, cause: error })
     } finally {
       clearTimeout(timeoutId)
+      signal?.removeEventListener('abort', onAbort)
     }
   }
 
   async #requestJson<T> (
     path: string,
-    init?: RequestInit,
+    init?: RequestInitWithOptions & { schema?: Schema<T> },
     params?: Record<string, string | number | boolean | undefined>
   ): Promise<T> {
-    const headers = new Headers(init?.headers ?? {})
+    const { data } = await this.#requestJsonResponse(path, init, params)
+    return data
+  }
+
+  /** Like #requestJson, also returning the response for its headers */
+  async #requestJsonResponse<T> (
+    path: string,
+    init?: RequestInitWithOptions & { schema?: Schema<T> },
+    params?: Record<string, string | number | boolean | undefined>
+  ): Promise<{ data: T, response: Response }> {
+    const { schema, ...requestInit } = init ?? {}
+    const headers = new Headers(requestInit.headers ?? {})
     if (
-      init?.body !== undefined &&
-      !(init.body instanceof FormData) &&
+      requestInit.body !== undefined &&
+      !(requestInit.body instanceof FormData) &&
       !headers.has('Content-Type')
     ) {
       headers.set('Content-Type', 'application/json')
     }
 
-    const res = await this.#request(
-      path,
-      {
-        ...init,
-        headers,
-      },
-      params
+    const context = this.#context(path, requestInit, params)
+    const res = await this.#send(context, {
+      ...requestInit,
+      headers,
+    })
+
+    const data = await this.#parseJson(res, context)
+    if (schema) {
+      this.#validateResponse(data, schema, res, context)
+    }
+    return { data: data as T, response: res }
+  }
+
+  /**
+   * Fetches one page. When the server ignored `limit`, `offset` or `sort`,
+   * fetches the whole list instead and applies search, sort and paging
+   * here: `all` then holds every match in order and `items` the requested
+   * slice of it. An ignored offset is spotted by the page starting with
+   * `firstId`, the first item of an earlier page at offset 0; an ignored
+   * sort by the page being out of order.
+   */
+  async #listPage<T extends { id: string }> (
+    path: string,
+    item: Schema<T>,
+    filters: Record<string, string | undefined>,
+    options: ListOptions,
+    searchField: string,
+    firstId?: string
+  ): Promise<{ items: T[], nextCursor?: string, all?: T[] }> {
+    const { limit, offset, cursor, sort, search, ...requestOptions } = options
+    const fetchPage = async (query: Pick<ListOptions, 'limit' | 'offset' | 'cursor' | 'sort' | 'search'>): Promise<{ items: T[], nextCursor?: string }> => {
+      const { data, response } = await this.#requestJsonResponse(path, {
+        ...requestOptions,
+        schema: listResponse(item),
+      }, { ...filters, ...query })
+      return unwrapList(data, response.headers)
+    }
+
+    const page = await fetchPage({ limit, offset, cursor, sort, search })
+    if (cursor !== undefined) {
+      // Only a server that pages by cursor hands them out
+      return page
+    }
+    const ignoredLimit = limit !== undefined && page.items.length > limit
+    const ignoredSort = !isSorted(page.items, sort)
+    const ignoredOffset = Boolean(offset) && firstId !== undefined && page.items[0]?.id === firstId
+    if (!ignoredLimit && !ignoredSort && !ignoredOffset) {
+      return page
+    }
+
+    // A page shorter or longer than the limit already holds everything from its offset
+    const whole = (limit === undefined || page.items.length !== limit) && (!offset || ignoredOffset)
+      ? page.items
+      : (await fetchPage({ search })).items
+    const all = sortItems(searchItems(whole, search, searchField), sort)
+    const start = offset ?? 0
+    return { items: all.slice(start, start + (limit ?? Infinity)), all }
+  }
+
+  /**
+   * Lists with server-side paging, sorting and search where supported and
+   * the same applied locally where the server ignored them.
+   */
+  async #list<T extends { id: string }> (
+    path: string,
+    item: Schema<T>,
+    filters: Record<string, string | undefined>,
+    options: ListOptions = {},
+    searchField = 'name'
+  ): Promise<T[]> {
+    const page = await this.#listPage(path, item, filters, options, searchField)
+    return page.all ? page.items : searchItems(page.items, options.search, searchField)
+  }
+
+  /**
+   * Pages through a list endpoint, following cursors when the server sends
+   * them and offsets otherwise. Falls back to one unpaged request when the
+   * server ignores paging or sorting, and stops when a page brings no new
+   * ids, so a misbehaving server cannot cause an endless loop.
+   */
+  async * #iterate<T extends { id: string }> (
+    path: string,
+    item: Schema<T>,
+    filters: Record<string, string | undefined>,
+    options: IterateOptions = {},
+    searchField = 'name'
+  ): AsyncGenerator<T> {
+    const { pageSize = 100, ...listOptions } = options
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw new RangeError(`pageSize must be a positive integer, got ${pageSize}`)
+    }
+    const seen = new Set<string>()
+    let offset = 0
+    let cursor: string | undefined
+    let firstId: string | undefined
+
+    for (;;) {
+      const page = await this.#listPage(path, item, filters, {
+        ...listOptions,
+        limit: pageSize,
+        offset: cursor ? undefined : offset,
+        cursor,
+      }, searchField, firstId)
+      if (page.all) {
+        yield * page.all.filter((entry) => !seen.has(entry.id))
+        return
+      }
+      firstId ??= page.items[0]?.id
+      const fresh = page.items.filter((entry) => !seen.has(entry.id))
+      fresh.forEach((entry) => seen.add(entry.id))
+      yield * searchItems(fresh, listOptions.search, searchField)
+
+      if (fresh.length === 0) {
+        return
+      }
+      if (page.nextCursor) {
+        cursor = page.nextCursor
+      } else if (cursor || page.items.length < pageSize) {
+        return
+      } else {
+        offset += pageSize
+      }
+    }
+  }
+
+  #validateResponse<T> (
+    data: unknown,
+    schema: Schema<T>,
+    res: Response,
+    context: RequestContext
+  ): void {
+    if (this.#validateResponses === 'off') {
+      return
+    }
+    const issue = schema.check(data, '$')
+    if (!issue) {
+      return
+    }
+    const error = new ResponseValidationError(
+      `Invalid response for ${context.method} ${context.url}: expected ${issue.expected} at ${issue.path}, received ${issue.received}`,
+      res.status,
+      issue,
+      this.#responseContext(res, context)
     )
+    if (this.#validateResponses === 'strict') {
+      throw error
+    }
+    console.warn(error.message)
+  }
 
-    if (!res.ok) {
-      const errorBody = await this.#parseError(res)
-      throw new GagaraBoostError(
-        this.#errorMessage(res.status, errorBody),
-        res.status,
-        errorBody
-      )
+  /**
+   * Creates a server-side job. Resolves with undefined when the server lacks
+   * the job endpoint and the caller allows falling back to a local job.
+   */
+  async #createJob<TStatus> (
+    path: string,
+    request: unknown,
+    schema: Schema<TStatus>,
+    options: StartJobOptions
+  ): Promise<TStatus | undefined> {
+    const { fallback = true, ...requestOptions } = options
+    try {
+      return await this.#requestJson<TStatus>(path, {
+        ...requestOptions,
+        method: 'POST',
+        body: JSON.stringify(request),
+        schema,
+      })
+    } catch (error) {
+      if (!fallback || !isMissingEndpoint(error)) {
+        throw error
+      }
+      return undefined
+    }
+  }
+
+  async #uploadMultipart<T> (
+    path: string,
+    file: UploadSource,
+    fields: Record<string, string | undefined>,
+    schema: Schema<T>,
+    options: ChunkedUploadOptions & { filename?: string, contentType?: string }
+  ): Promise<T> {
+    const form = new FormData()
+    const contentType = options.contentType ?? 'application/octet-stream'
+    const payload = await toBlob(file, contentType)
+
+    if (payload instanceof File) {
+      form.append('file', payload)
+    } else {
+      form.append('file', payload, uploadFilename(file, options.filename))
+    }
+    for (const [key, value] of Object.entries(fields)) {
+      if (value) {
+        form.append(key, value)
+      }
     }
 
-    return this.#parseJson(res) as Promise<T>
+    const result = await this.#requestJson(path, {
+      signal: options.signal,
+      timeout: options.timeout,
+      method: 'POST',
+      body: form,
+      schema,
+    })
+    options.onProgress?.(payload.size, payload.size)
+    return result
+  }
+
+  /**
+   * Runs the resumable upload protocol: create a session, PUT chunks at the
+   * server's offset, complete. A failed chunk is resumed from the offset the
+   * server reports. Resolves with undefined when the server has no upload
+   * endpoint and the caller did not insist on chunking.
+   */
+  async #uploadChunked<T> (
+    source: UploadSource,
+    fields: Record<string, string | undefined>,
+    schema: Schema<T>,
+    options: ChunkedUploadOptions
+  ): Promise<T | undefined> {
+    const { signal, timeout } = options
+    const requestOptions = { signal, timeout }
+    const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE
+    const maxResumeAttempts = options.maxResumeAttempts ?? 5
+    const total = await sourceSize(source, options.size)
+
+    let session: UploadSession
+    if (options.resumeUploadId) {
+      session = await this.getUploadSession(options.resumeUploadId, requestOptions)
+    } else {
+      try {
+        session = await this.#requestJson('/uploads', {
+          ...requestOptions,
+          method: 'POST',
+          body: JSON.stringify({ ...fields, size: total ?? null }),
+          schema: UploadSessionSchema,
+        })
+      } catch (error) {
+        if (options.chunked === true || !isMissingEndpoint(error)) {
+          throw error
+        }
+        return undefined
+      }
+    }
+    options.onSession?.(session)
+
+    let offset = session.offset
+    let start = offset
+    options.onProgress?.(offset, total)
+
+    for await (const chunk of readChunks(source, chunkSize, offset)) {
+      const end = start + chunk.byteLength
+      let failures = 0
+      while (offset < end) {
+        try {
+          session = await this.#requestJson(`/uploads/${session.id}`, {
+            ...requestOptions,
+            method: 'PUT',
+            headers: {
+              'Content-Type': 'application/octet-stream',
+              'Content-Range': `bytes ${offset}-${end - 1}/${total ?? '*'}`,
+            },
+            body: chunk.subarray(offset - start),
+            schema: UploadSessionSchema,
+          })
+        } catch (error) {
+          if (++failures > maxResumeAttempts || signal?.aborted || !isResumableError(error)) {
+            throw error
+          }
+          await sleep(retryDelay(failures, this.#retry), signal)
+          session = await this.getUploadSession(session.id, requestOptions)
+        }
+        if (session.offset < start) {
+          throw new GagaraBoostError(
+            `Upload ${session.id} lost bytes before offset ${start}; start a new upload`,
+            0
+          )
+        }
+        if (session.offset !== offset) {
+          offset = session.offset
+          options.onProgress?.(offset, total)
+        }
+      }
+      start = end
+    }
+
+    return this.#requestJson(`/uploads/${session.id}/complete`, {
+      ...requestOptions,
+      method: 'POST',
+      body: JSON.stringify({ size: offset }),
+      schema,
+    })
+  }
+
+  async #openDownload (
+    id: string,
+    offset: number,
+    options: RequestOptions
+  ): Promise<OpenDownload> {
+    const init = {
+      signal: options.signal,
+      timeout: options.timeout,
+      headers: offset > 0 ? { Range: `bytes=${offset}-` } : undefined,
+    }
+    const context = this.#context(`/datasets/${id}/download`, init)
+    const res = await this.#send(context, init, offset > 0 ? [416] : [])
+    const body = res.body ?? new Blob([]).stream()
+    const length = res.headers.get('Content-Length')
+
+    if (res.status === 416) {
+      if (unsatisfiedRangeTotal(res.headers.get('Content-Range')) !== offset) {
+        throw await this.#errorFromResponse(res, context)
+      }
+      // Everything up to `offset` was already received
+      await body.cancel()
+      return { body: new Blob([]).stream(), headers: res.headers, start: offset, total: offset }
+    }
+
+    if (res.status === 206) {
+      const range = parseContentRange(res.headers.get('Content-Range'))
+      return {
+        body,
+        headers: res.headers,
+        start: range?.start ?? offset,
+        total: range?.total,
+      }
+    }
+    // The server ignored the Range header and sent the whole file
+    return {
+      body,
+      headers: res.headers,
+      start: 0,
+      total: length === null ? undefined : Number(length),
+    }
+  }
+
+  #context (
+    path: string,
+    init?: RequestInit,
+    params?: Record<string, string | number | boolean | undefined>
+  ): RequestContext {
+    const headers = new Headers(init?.headers ?? {})
+    return {
+      method: (init?.method ?? 'GET').toUpperCase(),
+      url: this.#buildUrl(path, params),
+      requestId: headers.get('X-Request-Id') ?? randomId(),
+    }
   }
 
   #buildUrl (
@@ -557,15 +1835,18 @@ export class GagaraBoostClient {
     return url.toString()
   }
 
-  async #parseJson (res: Response): Promise<unknown> {
+  async #parseJson (res: Response, context: RequestContext): Promise<unknown> {
     const text = await res.text()
     if (!text) {
       return undefined
     }
     try {
       return JSON.parse(text)
-    } catch {
-      throw new GagaraBoostError('Failed to parse JSON response', res.status)
+    } catch (error) {
+      throw new ResponseParseError('Failed to parse JSON response', res.status, undefined, {
+        ...this.#responseContext(res, context),
+        cause: error,
+      })
     }
   }
 
@@ -581,6 +1862,42 @@ export class GagaraBoostClient {
     }
   }
 
+  async #errorFromResponse (
+    res: Response,
+    context: RequestContext,
+    retryAfter?: number
+  ): Promise<GagaraBoostError> {
+    const body = await this.#parseError(res)
+    const message = this.#errorMessage(res.status, body)
+    const errorContext = this.#responseContext(res, context)
+
+    switch (res.status) {
+      case 401:
+        return new AuthenticationError(message, res.status, body, errorContext)
+      case 403:
+        return new PermissionDeniedError(message, res.status, body, errorContext)
+      case 404:
+        return new NotFoundError(message, res.status, body, errorContext)
+      case 409:
+        return new ConflictError(message, res.status, body, errorContext)
+      case 422:
+        return new ValidationError(message, res.status, body, errorContext)
+      case 429:
+        return new RateLimitError(message, res.status, body, errorContext, retryAfter)
+    }
+    if (res.status >= 500) {
+      return new ServerError(message, res.status, body, errorContext)
+    }
+    return new GagaraBoostError(message, res.status, body, errorContext)
+  }
+
+  #responseContext (res: Response, context: RequestContext): RequestContext {
+    return {
+      ...context,
+      requestId: res.headers?.get('X-Request-Id') ?? context.requestId,
+    }
+  }
+
   #errorMessage (status: number, body?: ErrorResponse): string {
     if (!body) {
       return `Request failed: ${status}`
@@ -594,3 +1911,44 @@ export class GagaraBoostClient {
     return `Request failed: ${status}`
   }
 }
+
+function normalizeTrainingResponse (response: TrainingResponse): TrainingResponse {
+  if (response?.status === 'completed') {
+    return { ...response, status: 'success' }
+  }
+  return response
+}
+
+function normalizeTrainingJobStatus (status: TrainingJobStatus): TrainingJobStatus {
+  return {
+    ...status,
+    status: normalizeJobState(status.status),
+    result: status.result ? normalizeTrainingResponse(status.result) : status.result,
+  }
+}
+
+function normalizeOptimalParamSearchJobStatus (
+  status: OptimalParamSearchJobStatus
+): OptimalParamSearchJobStatus {
+  return {
+    ...status,
+    status: normalizeJobState(status.status),
+    trials: status.trials ?? [],
+  }
+}
+
+function assertValidPredicate (
+  predicate: PredicateInput,
+  schema: DatasetSchemaResponse
+): void {
+  const { valid, issues } = validatePredicate(predicate, schema)
+  if (!valid) {
+    const details = issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ')
+    throw new PredicateValidationError(`Invalid predicate: ${details}`, issues)
+  }
+}
+
+/** Servers without job or upload support answer those routes with 404, 405 or 501 */
+function isMissingEndpoint (error: unknown): boolean {
+  return error instanceof GagaraBoostError && [404, 405, 501].includes(error.status)
+}
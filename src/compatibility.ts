@@ -0,0 +1,88 @@
+import type {
+  ColumnSet,
+  ColumnSetReference,
+  DatasetSchemaResponse,
+  SchemaChange,
+  SchemaCompatibilityIssue,
+  SchemaCompatibilityMode,
+  SchemaCompatibilityReport,
+} from './types.js'
+import { compareSchemas } from './inspect.js'
+
+/**
+ * Decides whether a dataset with schema `current` may be replaced by a file
+ * with schema `candidate`. By default only changes to columns that a column
+ * set uses as `column_to_predict` or feature are refused; `allColumns`
+ * applies the mode to every column.
+ */
+export function checkSchemaCompatibility (
+  current: DatasetSchemaResponse,
+  candidate: DatasetSchemaResponse,
+  columnSets: ColumnSet[],
+  mode: SchemaCompatibilityMode,
+  allColumns = false
+): SchemaCompatibilityReport {
+  const changes = compareSchemas(current, candidate)
+  const issues = changes
+    .map((change): SchemaCompatibilityIssue => {
+      const references = columnReferences(columnSets, change.column)
+      return { ...change, references, message: issueMessage(change, references) }
+    })
+    .filter((issue) => isDisallowed(issue, mode) && (allColumns || issue.references.length > 0))
+  return { mode, allColumns, compatible: issues.length === 0, changes, issues }
+}
+
+export function describeIncompatibility (report: SchemaCompatibilityReport): string {
+  const details = report.issues.map((issue) => issue.message).join('; ')
+  return `New file is not ${report.mode}-compatible with the dataset: ${details}`
+}
+
+function isDisallowed (change: SchemaChange, mode: SchemaCompatibilityMode): boolean {
+  switch (mode) {
+    case 'strict':
+      return true
+    case 'additive':
+      return change.kind === 'removed' || change.kind === 'type_changed'
+    default:
+      return false
+  }
+}
+
+function columnReferences (columnSets: ColumnSet[], column: string): ColumnSetReference[] {
+  const references: ColumnSetReference[] = []
+  for (const columnSet of columnSets) {
+    const reference = { columnSetId: columnSet.id, columnSetName: columnSet.name }
+    if (columnSet.column_to_predict === column) {
+      references.push({ ...reference, role: 'column_to_predict' })
+    }
+    const features = columnSet.feature_columns.map((feature) => typeof feature === 'string' ? feature : feature.field)
+    if (features.includes(column)) {
+      references.push({ ...reference, role: 'feature' })
+    }
+  }
+  return references
+}
+
+function issueMessage (change: SchemaChange, references: ColumnSetReference[]): string {
+  const { before, after } = change
+  let message: string
+  switch (change.kind) {
+    case 'removed':
+      message = `column "${change.column}" is missing`
+      break
+    case 'added':
+      message = `column "${change.column}" (${after?.data_type}) is new`
+      break
+    case 'type_changed':
+      message = `column "${change.column}" changes type from ${before?.data_type} to ${after?.data_type}`
+      break
+    case 'nullability_changed':
+      message = `column "${change.column}" becomes ${after?.nullable ? 'nullable' : 'non-nullable'}`
+      break
+  }
+  if (references.length > 0) {
+    const uses = references.map((reference) => `${reference.columnSetName} (${reference.role})`)
+    message += `, used by column set ${uses.join(', ')}`
+  }
+  return message
+}
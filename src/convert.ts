@@ -0,0 +1,475 @@
+import { ByteWriter, ParquetWriter } from 'hyparquet-writer'
+import type { ColumnSource, SchemaElement } from 'hyparquet-writer'
+import type {
+  ArrowTableLike,
+  CsvParseOptions,
+  ParquetColumnType,
+  ParquetConversionOptions,
+  RecordInput,
+  UploadSource,
+} from './types.js'
+import { readChunks } from './upload.js'
+
+type Row = Record<string, unknown>
+
+const DEFAULT_ROW_GROUP_SIZE = 10_000
+const TEXT_CHUNK_SIZE = 64 * 1024
+
+const INTEGER_TEXT = /^[-+]?(0|[1-9]\d*)$/
+const NUMBER_TEXT = /^[-+]?((0|[1-9]\d*)(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/
+const DATE_TEXT = /^\d{4}-\d{2}-\d{2}$/
+const TIMESTAMP_TEXT = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/
+const BOOLEAN_TEXT = /^(true|false)$/i
+
+/**
+ * Converts plain objects or an Apache Arrow table to a parquet file. Column
+ * types are inferred from the first row group unless given in `columns`.
+ */
+export async function recordsToParquet (
+  records: RecordInput,
+  options: ParquetConversionOptions = {}
+): Promise<Uint8Array> {
+  if (isArrowTable(records)) {
+    const columns = { ...arrowColumnTypes(records), ...options.columns }
+    return writeParquet(arrowRows(records), { ...options, columns }, false)
+  }
+  return writeParquet(records, options, false)
+}
+
+/**
+ * Converts CSV to a parquet file. Cells are parsed as booleans, numbers,
+ * dates and timestamps where every sampled value in the column allows it;
+ * values with leading zeros such as `00123` stay strings.
+ */
+export async function csvToParquet (
+  source: UploadSource,
+  options: CsvParseOptions & ParquetConversionOptions = {}
+): Promise<Uint8Array> {
+  return writeParquet(parseCsv(source, options), options, true)
+}
+
+/**
+ * Reads CSV into objects keyed by header. Values are strings, or null for
+ * `nullValues` (default: empty cells). String sources are file paths.
+ */
+export async function * parseCsv (
+  source: UploadSource,
+  options: CsvParseOptions = {}
+): AsyncGenerator<Record<string, string | null>> {
+  const nullValues = new Set(options.nullValues ?? [''])
+  let header = Array.isArray(options.header) ? options.header : undefined
+  let rowNumber = 0
+
+  for await (const fields of csvRows(readText(source), options.delimiter ?? ',')) {
+    rowNumber++
+    if (!header) {
+      if (options.header === false) {
+        header = fields.map((_, index) => `column_${index + 1}`)
+      } else {
+        header = fields
+        continue
+      }
+    }
+    if (fields.length !== header.length) {
+      throw new TypeError(`CSV row ${rowNumber}: expected ${header.length} fields, got ${fields.length}`)
+    }
+    const row: Record<string, string | null> = {}
+    header.forEach((name, index) => {
+      const value = fields[index]
+      row[name] = nullValues.has(value) ? null : value
+    })
+    yield row
+  }
+}
+
+/** Reads JSON Lines into objects, one per non-empty line */
+export async function * parseJsonLines (source: UploadSource): AsyncGenerator<Record<string, unknown>> {
+  let lineNumber = 0
+  for await (const line of textLines(readText(source))) {
+    lineNumber++
+    if (line.trim() === '') {
+      continue
+    }
+    let value: unknown
+    try {
+      value = JSON.parse(line)
+    } catch (error) {
+      throw new TypeError(`JSONL line ${lineNumber}: ${(error as Error).message}`)
+    }
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new TypeError(`JSONL line ${lineNumber}: expected an object`)
+    }
+    yield value as Record<string, unknown>
+  }
+}
+
+/** `sales.csv` becomes `sales.parquet`; other sources get `dataset.parquet` */
+export function parquetFilename (source: unknown): string {
+  if (typeof source === 'string') {
+    const base = source.split(/[\\/]/).pop() ?? ''
+    return base ? `${base.replace(/\.[^.]*$/, '')}.parquet` : 'dataset.parquet'
+  }
+  return 'dataset.parquet'
+}
+
+// ----------------------------------------------------------
+// Parquet writing
+// ----------------------------------------------------------
+
+async function writeParquet (
+  rows: Iterable<Row> | AsyncIterable<Row>,
+  options: ParquetConversionOptions,
+  textual: boolean
+): Promise<Uint8Array> {
+  const rowGroupSize = options.rowGroupSize ?? DEFAULT_ROW_GROUP_SIZE
+  if (!(rowGroupSize > 0)) {
+    throw new RangeError(`rowGroupSize must be positive, got ${rowGroupSize}`)
+  }
+
+  const output = new ByteWriter()
+  let writer: ParquetWriter | undefined
+  let columns: Array<{ name: string, type: ParquetColumnType }> = []
+  let batch: Row[] = []
+  let rowNumber = 0
+
+  const flush = async (): Promise<void> => {
+    if (!writer) {
+      columns = inferColumns(batch, options.columns ?? {}, textual)
+      writer = new ParquetWriter({ writer: output, schema: parquetSchema(columns) })
+    }
+    const known = new Set(columns.map((column) => column.name))
+    batch.forEach((row, index) => {
+      const extra = Object.keys(row).find((key) => !known.has(key))
+      if (extra !== undefined) {
+        throw new TypeError(
+          `Row ${rowNumber - batch.length + index + 1}: column "${extra}" did not appear in the first ${rowGroupSize} rows; declare its type in columns`
+        )
+      }
+    })
+
+    if (batch.length === 0) {
+      return
+    }
+    const firstRow = rowNumber - batch.length + 1
+    const columnData: ColumnSource[] = columns.map(({ name, type }) => ({
+      name,
+      data: batch.map((row, index) => coerce(row[name], type, textual, firstRow + index, name)),
+    }))
+    // Row group bounds are ours, so the writer must not split the batch again
+    await writer.write({ columnData, rowGroupSize: batch.length })
+    batch = []
+  }
+
+  for await (const row of rows) {
+    rowNumber++
+    batch.push(row)
+    if (batch.length >= rowGroupSize) {
+      await flush()
+    }
+  }
+  if (batch.length > 0 || !writer) {
+    await flush()
+  }
+  await writer!.finish()
+  return output.getBytes()
+}
+
+function inferColumns (
+  rows: Row[],
+  declared: Record<string, ParquetColumnType>,
+  textual: boolean
+): Array<{ name: string, type: ParquetColumnType }> {
+  const names = new Set<string>()
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      names.add(key)
+    }
+  }
+  for (const key of Object.keys(declared)) {
+    names.add(key)
+  }
+  return [...names].map((name) => ({
+    name,
+    type: declared[name] ?? inferType(rows.map((row) => row[name]), textual),
+  }))
+}
+
+function inferType (values: unknown[], textual: boolean): ParquetColumnType {
+  const present = values.filter((value) => value !== null && value !== undefined)
+  if (present.length === 0) {
+    return 'string'
+  }
+  if (textual) {
+    const texts = present as string[]
+    if (texts.every((text) => BOOLEAN_TEXT.test(text))) {
+      return 'boolean'
+    }
+    if (texts.every((text) => INTEGER_TEXT.test(text))) {
+      return 'int64'
+    }
+    if (texts.every((text) => NUMBER_TEXT.test(text))) {
+      return 'double'
+    }
+    if (texts.every((text) => DATE_TEXT.test(text) && !Number.isNaN(Date.parse(text)))) {
+      return 'date'
+    }
+    if (texts.every((text) => TIMESTAMP_TEXT.test(text) && !Number.isNaN(Date.parse(text)))) {
+      return 'timestamp'
+    }
+    return 'string'
+  }
+
+  if (present.every((value) => typeof value === 'boolean')) {
+    return 'boolean'
+  }
+  if (present.every((value) => typeof value === 'bigint' || Number.isSafeInteger(value))) {
+    return 'int64'
+  }
+  if (present.every((value) => typeof value === 'number' || typeof value === 'bigint')) {
+    return 'double'
+  }
+  if (present.every((value) => value instanceof Date)) {
+    return 'timestamp'
+  }
+  if (present.every((value) => typeof value === 'string')) {
+    return 'string'
+  }
+  return present.some((value) => typeof value === 'object') ? 'json' : 'string'
+}
+
+function coerce (
+  value: unknown,
+  type: ParquetColumnType,
+  textual: boolean,
+  rowNumber: number,
+  column: string
+): unknown {
+  if (value === null || value === undefined) {
+    return null
+  }
+  const fail = (): never => {
+    const shown = typeof value === 'bigint' ? `${value}n` : JSON.stringify(value) ?? String(value)
+    throw new TypeError(`Row ${rowNumber}, column "${column}": cannot convert ${shown} to ${type}`)
+  }
+  const text = typeof value === 'string' ? value.trim() : undefined
+
+  switch (type) {
+    case 'boolean':
+      if (typeof value === 'boolean') {
+        return value
+      }
+      return text !== undefined && BOOLEAN_TEXT.test(text) ? text.toLowerCase() === 'true' : fail()
+    case 'int32':
+    case 'int64': {
+      let integer: bigint | undefined
+      if (typeof value === 'bigint') {
+        integer = value
+      } else if (Number.isSafeInteger(value)) {
+        integer = BigInt(value as number)
+      } else if (text !== undefined && INTEGER_TEXT.test(text)) {
+        integer = BigInt(text)
+      }
+      if (integer === undefined) {
+        return fail()
+      }
+      if (type === 'int64') {
+        return integer
+      }
+      return integer >= -2147483648n && integer <= 2147483647n ? Number(integer) : fail()
+    }
+    case 'double':
+      if (typeof value === 'number' || typeof value === 'bigint') {
+        return Number(value)
+      }
+      return text !== undefined && NUMBER_TEXT.test(text) ? Number(text) : fail()
+    case 'timestamp':
+    case 'date': {
+      const date = value instanceof Date
+        ? value
+        : typeof value === 'number' || text !== undefined ? new Date(text ?? (value as number)) : undefined
+      return date && !Number.isNaN(date.getTime()) ? date : fail()
+    }
+    case 'string':
+      if (typeof value === 'string') {
+        return value
+      }
+      if (value instanceof Date) {
+        return value.toISOString()
+      }
+      return typeof value === 'object' ? JSON.stringify(value) : String(value)
+    case 'json':
+      if (textual && text !== undefined) {
+        try {
+          return JSON.parse(text)
+        } catch {
+          return fail()
+        }
+      }
+      return value
+  }
+}
+
+function parquetSchema (columns: Array<{ name: string, type: ParquetColumnType }>): SchemaElement[] {
+  return [
+    { name: 'root', num_children: columns.length },
+    ...columns.map(({ name, type }): SchemaElement => {
+      const repetition_type = 'OPTIONAL'
+      switch (type) {
+        case 'boolean':
+          return { name, type: 'BOOLEAN', repetition_type }
+        case 'int32':
+          return { name, type: 'INT32', repetition_type }
+        case 'int64':
+          return { name, type: 'INT64', repetition_type }
+        case 'double':
+          return { name, type: 'DOUBLE', repetition_type }
+        case 'timestamp':
+          return { name, type: 'INT64', converted_type: 'TIMESTAMP_MILLIS', repetition_type }
+        case 'date':
+          return { name, type: 'INT32', converted_type: 'DATE', repetition_type }
+        case 'json':
+          return { name, type: 'BYTE_ARRAY', converted_type: 'JSON', repetition_type }
+        case 'string':
+          return { name, type: 'BYTE_ARRAY', converted_type: 'UTF8', repetition_type }
+      }
+    }),
+  ]
+}
+
+// ----------------------------------------------------------
+// Apache Arrow
+// ----------------------------------------------------------
+
+function isArrowTable (input: RecordInput): input is ArrowTableLike {
+  const table = input as Partial<ArrowTableLike>
+  return typeof table.getChild === 'function' && Array.isArray(table.schema?.fields)
+}
+
+function * arrowRows (table: ArrowTableLike): Generator<Row> {
+  const vectors = table.schema.fields.map((field) => [field.name, table.getChild(field.name)] as const)
+  for (let index = 0; index < table.numRows; index++) {
+    const row: Row = {}
+    for (const [name, vector] of vectors) {
+      row[name] = vector?.get(index) ?? null
+    }
+    yield row
+  }
+}
+
+const ARROW_TYPES: Array<[RegExp, ParquetColumnType]> = [
+  [/^(Int(8|16|32)|Uint(8|16))$/, 'int32'],
+  [/^(Int64|Uint(32|64))$/, 'int64'],
+  [/^Float/, 'double'],
+  [/^(Large)?Utf8$/, 'string'],
+  [/^Bool$/, 'boolean'],
+  [/^Date/, 'date'],
+  [/^Timestamp/, 'timestamp'],
+]
+
+/** Maps Arrow field types by their names, e.g. `Int64` or `Timestamp<MILLISECOND>` */
+function arrowColumnTypes (table: ArrowTableLike): Record<string, ParquetColumnType> {
+  const types: Record<string, ParquetColumnType> = {}
+  for (const field of table.schema.fields) {
+    const type = field.type as { dictionary?: unknown } | undefined
+    const name = String(type?.dictionary ?? type ?? '')
+    const match = ARROW_TYPES.find(([pattern]) => pattern.test(name))
+    if (match) {
+      types[field.name] = match[1]
+    }
+  }
+  return types
+}
+
+// ----------------------------------------------------------
+// Text parsing
+// ----------------------------------------------------------
+
+async function * readText (source: UploadSource): AsyncGenerator<string> {
+  const decoder = new TextDecoder()
+  let first = true
+  for await (const chunk of readChunks(source, TEXT_CHUNK_SIZE)) {
+    let text = decoder.decode(chunk, { stream: true })
+    if (first) {
+      text = text.replace(/^\uFEFF/, '')
+      first = false
+    }
+    yield text
+  }
+  const rest = decoder.decode()
+  if (rest) {
+    yield rest
+  }
+}
+
+async function * textLines (chunks: AsyncIterable<string>): AsyncGenerator<string> {
+  let pending = ''
+  for await (const chunk of chunks) {
+    const lines = (pending + chunk).split('\n')
+    pending = lines.pop() ?? ''
+    for (const line of lines) {
+      yield line.replace(/\r$/, '')
+    }
+  }
+  if (pending) {
+    yield pending.replace(/\r$/, '')
+  }
+}
+
+/** RFC 4180 CSV: quoted fields may contain delimiters, `""` and newlines */
+async function * csvRows (chunks: AsyncIterable<string>, delimiter: string): AsyncGenerator<string[]> {
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  let inQuotes = false
+  let afterQuote = false
+
+  const endField = (): void => {
+    row.push(field)
+    field = ''
+    quoted = false
+  }
+
+  for await (const chunk of chunks) {
+    for (const char of chunk) {
+      if (inQuotes) {
+        if (afterQuote) {
+          afterQuote = false
+          if (char === '"') {
+            field += '"'
+            continue
+          }
+          inQuotes = false
+        } else if (char === '"') {
+          afterQuote = true
+          continue
+        } else {
+          field += char
+          continue
+        }
+      }
+
+      if (char === '"' && field === '' && !quoted) {
+        inQuotes = true
+        quoted = true
+      } else if (char === delimiter) {
+        endField()
+      } else if (char === '\n') {
+        endField()
+        if (row.length > 1 || row[0] !== '') {
+          yield row
+        }
+        row = []
+      } else if (char !== '\r') {
+        field += char
+      }
+    }
+  }
+
+  if (inQuotes && !afterQuote) {
+    throw new TypeError('CSV ends inside a quoted field')
+  }
+  if (field !== '' || quoted || row.length > 0) {
+    endField()
+    yield row
+  }
+}
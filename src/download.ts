@@ -0,0 +1,131 @@
+import type { DownloadProgressCallback } from './types.js'
+import { NetworkError } from './types.js'
+
+export interface ContentRange {
+  start: number
+  end: number
+  total?: number
+}
+
+/** Parses `Content-Range: bytes 100-199/1000` (total may be `*`) */
+export function parseContentRange (value: string | null): ContentRange | undefined {
+  const match = /^bytes (\d+)-(\d+)\/(\d+|\*)$/.exec(value?.trim() ?? '')
+  if (!match) {
+    return undefined
+  }
+  return {
+    start: Number(match[1]),
+    end: Number(match[2]),
+    total: match[3] === '*' ? undefined : Number(match[3]),
+  }
+}
+
+/** Reads the file size from a 416's `Content-Range: bytes *\/1000` */
+export function unsatisfiedRangeTotal (value: string | null): number | undefined {
+  const match = /^bytes \*\/(\d+)$/.exec(value?.trim() ?? '')
+  return match ? Number(match[1]) : undefined
+}
+
+/**
+ * Reads the SHA-256 a server advertises for the full file, as lowercase hex.
+ * Understands `Repr-Digest: sha-256=:<base64>:`, `Digest: sha-256=<base64>`
+ * and `X-Checksum-SHA256: <hex>`.
+ */
+export function checksumFromHeaders (headers: Headers): string | undefined {
+  const hex = headers.get('X-Checksum-SHA256')
+  if (hex && /^[0-9a-f]{64}$/i.test(hex.trim())) {
+    return hex.trim().toLowerCase()
+  }
+  for (const name of ['Repr-Digest', 'Digest']) {
+    const match = /(?:^|,)\s*sha-256=:?([A-Za-z0-9+/=]+):?/i.exec(headers.get(name) ?? '')
+    if (match) {
+      return base64ToHex(match[1])
+    }
+  }
+  return undefined
+}
+
+export function normalizeChecksum (value: string): string {
+  return value.trim().replace(/^sha-?256:/i, '').toLowerCase()
+}
+
+export interface ProgressStreamOptions {
+  /** Bytes already received before this stream, counted in progress */
+  received?: number
+  /** Leading bytes to drop, for servers that ignored a Range request */
+  skip?: number
+  total?: number
+  onProgress?: DownloadProgressCallback
+  signal?: AbortSignal
+}
+
+/**
+ * Wraps a response body to report progress, honour the caller's signal after
+ * the headers arrived, and surface dropped connections as NetworkError.
+ */
+export function progressStream (
+  body: ReadableStream<Uint8Array>,
+  options: ProgressStreamOptions = {}
+): ReadableStream<Uint8Array> {
+  const { total, onProgress, signal } = options
+  const reader = body.getReader()
+  let received = options.received ?? 0
+  let skip = options.skip ?? 0
+
+  const onAbort = (): void => {
+    reader.cancel(signal?.reason).catch(() => undefined)
+  }
+  signal?.addEventListener('abort', onAbort, { once: true })
+  const cleanup = (): void => signal?.removeEventListener('abort', onAbort)
+
+  return new ReadableStream<Uint8Array>({
+    async pull (controller) {
+      try {
+        for (;;) {
+          const { done, value } = await reader.read()
+          if (signal?.aborted) {
+            throw signal.reason
+          }
+          if (done) {
+            cleanup()
+            controller.close()
+            return
+          }
+          let chunk = value
+          if (skip > 0) {
+            const dropped = Math.min(skip, chunk.byteLength)
+            skip -= dropped
+            chunk = chunk.subarray(dropped)
+          }
+          if (chunk.byteLength === 0) {
+            continue
+          }
+          received += chunk.byteLength
+          controller.enqueue(chunk)
+          onProgress?.(received, total)
+          return
+        }
+      } catch (error) {
+        cleanup()
+        if (signal?.aborted) {
+          controller.error(signal.reason)
+          return
+        }
+        const message = error instanceof Error ? error.message : String(error)
+        controller.error(new NetworkError(`Download interrupted: ${message}`, { cause: error }))
+      }
+    },
+    async cancel (reason) {
+      cleanup()
+      await reader.cancel(reason)
+    },
+  })
+}
+
+function base64ToHex (value: string): string | undefined {
+  try {
+    return Array.from(atob(value), (char) => char.charCodeAt(0).toString(16).padStart(2, '0')).join('')
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,328 @@
+import type {
+  FixtureBody,
+  FixtureRequest,
+  FixtureResponse,
+  HttpFixture,
+  HttpFixtureEntry,
+  RecordFetchOptions,
+  RedactionOptions,
+  ReplayFetchOptions,
+} from './types.js'
+import { FixtureMismatchError } from './types.js'
+import { canonicalJson, nodeFs } from './util.js'
+
+const REDACTED = '[REDACTED]'
+const DEFAULT_REDACTED_HEADERS = ['authorization', 'cookie', 'set-cookie', 'x-api-key']
+const DEFAULT_REDACTED_FIELDS = ['token']
+
+// Volatile or transport-level headers that would make fixtures noisy or wrong on replay
+const SKIPPED_REQUEST_HEADERS = new Set(['x-request-id', 'content-length'])
+const SKIPPED_RESPONSE_HEADERS = new Set(['content-length', 'content-encoding', 'transfer-encoding', 'date'])
+
+export interface RecordingFetch {
+  (input: RequestInfo | URL, init?: RequestInit): Promise<Response>
+  /** Recorded request/response pairs, in completion order */
+  readonly entries: HttpFixtureEntry[]
+  fixture (): HttpFixture
+  /** Writes the fixture as JSON (Node only). Defaults to `options.path` */
+  save (path?: string): Promise<void>
+}
+
+export interface ReplayFetch {
+  (input: RequestInfo | URL, init?: RequestInit): Promise<Response>
+  /** Recorded entries that have not been served yet */
+  pending (): Promise<HttpFixtureEntry[]>
+}
+
+/**
+ * Wraps `fetch` and records every exchange for later replay. Tokens are
+ * redacted from headers, query strings and JSON bodies before anything is
+ * stored; see RedactionOptions.
+ *
+ * ```ts
+ * const recorder = createRecordingFetch({ path: 'test/fixtures/staging.json' })
+ * const client = new GagaraBoostClient({ baseUrl: stagingUrl, token, fetch: recorder })
+ * // ... exercise the client ...
+ * await recorder.save()
+ * ```
+ */
+export function createRecordingFetch (options: RecordFetchOptions = {}): RecordingFetch {
+  const redaction = resolveRedaction(options)
+  const entries: HttpFixtureEntry[] = []
+
+  const record = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const fetchImpl = options.fetch ?? globalThis.fetch
+    const request = new Request(input, init)
+    const fixtureRequest = await describeRequest(request.clone(), redaction)
+    const response = await fetchImpl(request)
+    const fixtureResponse = await describeResponse(response.clone(), redaction)
+    const entry = { request: fixtureRequest, response: fixtureResponse }
+    entries.push(options.redact ? options.redact(entry) : entry)
+    return response
+  }
+
+  const fixture = (): HttpFixture => ({ version: 1, entries: [...entries] })
+
+  return Object.assign(record, {
+    entries,
+    fixture,
+    async save (path = options.path): Promise<void> {
+      if (!path) {
+        throw new TypeError('No fixture path given; pass one to save() or createRecordingFetch()')
+      }
+      const fs = await nodeFs()
+      const directory = path.replace(/[\\/][^\\/]*$/, '')
+      if (directory && directory !== path) {
+        await fs.promises.mkdir(directory, { recursive: true })
+      }
+      await fs.promises.writeFile(path, `${JSON.stringify(fixture(), null, 2)}\n`)
+    },
+  })
+}
+
+/**
+ * Serves recorded responses instead of calling a server. Requests match on
+ * method, path, query string and body (after the same redaction used when
+ * recording); the host is ignored. Identical requests get their recorded
+ * responses in order. A request without a match rejects with
+ * FixtureMismatchError, which the client rethrows as is and never retries.
+ *
+ * `fixture` is a fixture object or, in Node, the path of a fixture file.
+ */
+export function createReplayFetch (
+  fixture: HttpFixture | string,
+  options: ReplayFetchOptions = {}
+): ReplayFetch {
+  const redaction = resolveRedaction(options)
+  const reuseLast = options.reuseLast ?? true
+  let entries: Promise<Array<HttpFixtureEntry & { used: boolean, key: string }>> | undefined
+
+  const load = async (): Promise<Array<HttpFixtureEntry & { used: boolean, key: string }>> => {
+    const data = typeof fixture === 'string' ? await loadFixture(fixture) : fixture
+    return data.entries.map((entry) => ({ ...entry, used: false, key: matchKey(entry.request) }))
+  }
+
+  const replay = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init)
+    request.signal.throwIfAborted()
+    const recorded = await (entries ??= load())
+    const incoming = await describeRequest(request, redaction)
+    const key = matchKey(incoming)
+
+    const candidates = recorded.filter((entry) => entry.key === key)
+    const entry = candidates.find((candidate) => !candidate.used) ?? (reuseLast ? candidates.at(-1) : undefined)
+    if (!entry) {
+      throw new FixtureMismatchError(mismatchMessage(incoming, recorded, candidates.length > 0), incoming)
+    }
+    entry.used = true
+    return toResponse(entry.response)
+  }
+
+  return Object.assign(replay, {
+    async pending (): Promise<HttpFixtureEntry[]> {
+      const recorded = await (entries ??= load())
+      return recorded
+        .filter((entry) => !entry.used)
+        .map(({ request, response }) => ({ request, response }))
+    },
+  })
+}
+
+/** Reads a fixture file written by `RecordingFetch.save()` (Node only) */
+export async function loadFixture (path: string): Promise<HttpFixture> {
+  const fs = await nodeFs()
+  const data = JSON.parse(await fs.promises.readFile(path, 'utf8')) as HttpFixture
+  if (data?.version !== 1 || !Array.isArray(data.entries)) {
+    throw new TypeError(`${path} is not a version 1 fixture file`)
+  }
+  return data
+}
+
+// ----------------------------------------------------------
+// Normalization
+// ----------------------------------------------------------
+
+interface Redaction {
+  headers: Set<string>
+  fields: Set<string>
+}
+
+function resolveRedaction (options: RedactionOptions): Redaction {
+  return {
+    headers: new Set((options.headers ?? DEFAULT_REDACTED_HEADERS).map((name) => name.toLowerCase())),
+    fields: new Set(options.fields ?? DEFAULT_REDACTED_FIELDS),
+  }
+}
+
+async function describeRequest (request: Request, redaction: Redaction): Promise<FixtureRequest> {
+  const url = new URL(request.url)
+  const query: Record<string, string | string[]> = {}
+  for (const name of new Set(url.searchParams.keys())) {
+    const values = url.searchParams.getAll(name).map((value) => redaction.fields.has(name) ? REDACTED : value)
+    query[name] = values.length === 1 ? values[0] : values
+  }
+  return {
+    method: request.method,
+    path: url.pathname,
+    query,
+    headers: headerRecord(request.headers, SKIPPED_REQUEST_HEADERS, redaction),
+    body: await requestBody(request, redaction),
+  }
+}
+
+async function describeResponse (response: Response, redaction: Redaction): Promise<FixtureResponse> {
+  const bytes = new Uint8Array(await response.arrayBuffer())
+  const contentType = response.headers.get('Content-Type') ?? ''
+  return {
+    status: response.status,
+    headers: headerRecord(response.headers, SKIPPED_RESPONSE_HEADERS, redaction),
+    body: bytes.byteLength === 0
+      ? null
+      : textBody(contentType, bytes, redaction) ?? { base64: toBase64(bytes) },
+  }
+}
+
+async function requestBody (request: Request, redaction: Redaction): Promise<FixtureBody | null> {
+  if (request.body === null) {
+    return null
+  }
+  const contentType = request.headers.get('Content-Type') ?? ''
+  if (contentType.startsWith('multipart/form-data')) {
+    // Boundaries are random, so the parts are compared instead of the raw bytes
+    const form = await request.formData()
+    const fields: Record<string, string | { sha256: string, size: number, filename?: string }> = {}
+    const parts: Array<[string, FormDataEntryValue]> = []
+    form.forEach((value, name) => parts.push([name, value]))
+    for (const [name, value] of parts) {
+      if (typeof value === 'string') {
+        fields[name] = redaction.fields.has(name) ? REDACTED : value
+      } else {
+        const bytes = new Uint8Array(await value.arrayBuffer())
+        fields[name] = { sha256: await sha256Hex(bytes), size: bytes.byteLength, filename: value.name || undefined }
+      }
+    }
+    return { form: fields }
+  }
+  const bytes = new Uint8Array(await request.arrayBuffer())
+  if (bytes.byteLength === 0) {
+    return null
+  }
+  return textBody(contentType, bytes, redaction) ?? { sha256: await sha256Hex(bytes), size: bytes.byteLength }
+}
+
+function textBody (contentType: string, bytes: Uint8Array, redaction: Redaction): FixtureBody | undefined {
+  const isJson = /[/+]json\b/i.test(contentType)
+  if (!isJson && !/^text\//i.test(contentType)) {
+    return undefined
+  }
+  const text = new TextDecoder().decode(bytes)
+  if (isJson) {
+    try {
+      return { json: redactFields(JSON.parse(text), redaction.fields) }
+    } catch {
+      // Malformed JSON is kept verbatim so parse errors replay too
+    }
+  }
+  return { text }
+}
+
+function headerRecord (headers: Headers, skipped: Set<string>, redaction: Redaction): Record<string, string> {
+  const record: Record<string, string> = {}
+  headers.forEach((value, name) => {
+    if (!skipped.has(name)) {
+      record[name] = redaction.headers.has(name) ? REDACTED : value
+    }
+  })
+  return record
+}
+
+function redactFields (value: unknown, fields: Set<string>): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactFields(item, fields))
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+      key,
+      fields.has(key) && item !== null ? REDACTED : redactFields(item, fields),
+    ]))
+  }
+  return value
+}
+
+function matchKey (request: FixtureRequest): string {
+  return canonicalJson([request.method.toUpperCase(), request.path, request.query, request.body])
+}
+
+function mismatchMessage (request: FixtureRequest, recorded: HttpFixtureEntry[], exhausted: boolean): string {
+  const target = `${request.method} ${request.path}${formatQuery(request.query)}`
+  if (exhausted) {
+    return `Every recorded response for ${target} has been used`
+  }
+  const samePath = recorded.filter((entry) =>
+    entry.request.method === request.method && entry.request.path === request.path)
+  const body = request.body ? ` with body ${truncate(canonicalJson(request.body))}` : ''
+  if (samePath.length === 0) {
+    return `No recorded request for ${target}${body}`
+  }
+  return `No recorded request for ${target}${body}; ${samePath.length} recorded ${request.method} ${request.path} ` +
+    'request(s) differ in query string or body'
+}
+
+function formatQuery (query: Record<string, string | string[]>): string {
+  const params = new URLSearchParams()
+  for (const [name, value] of Object.entries(query)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      params.append(name, item)
+    }
+  }
+  const text = params.toString()
+  return text ? `?${text}` : ''
+}
+
+function truncate (text: string, length = 200): string {
+  return text.length > length ? `${text.slice(0, length)}...` : text
+}
+
+function toResponse (recorded: FixtureResponse): Response {
+  const { status, headers, body } = recorded
+  if (body === null || status === 204 || status === 304) {
+    return new Response(null, { status, headers })
+  }
+  let content: BodyInit
+  if ('json' in body) {
+    content = JSON.stringify(body.json)
+  } else if ('text' in body) {
+    content = body.text
+  } else if ('base64' in body) {
+    content = fromBase64(body.base64)
+  } else {
+    throw new TypeError('Recorded responses must carry json, text or base64 bodies')
+  }
+  return new Response(content, { status, headers })
+}
+
+// ----------------------------------------------------------
+// Encoding
+// ----------------------------------------------------------
+
+async function sha256Hex (bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes as Uint8Array<ArrayBuffer>)
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+function toBase64 (bytes: Uint8Array): string {
+  let binary = ''
+  for (let index = 0; index < bytes.byteLength; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function fromBase64 (text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text)
+  const bytes = new Uint8Array(binary.length)
+  for (let index = 0; index < binary.length; index++) {
+    bytes[index] = binary.charCodeAt(index)
+  }
+  return bytes
+}
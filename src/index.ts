@@ -1,4 +1,65 @@
 export { GagaraBoostClient } from './client.js'
+export {
+  Predicate,
+  ColumnRef,
+  where,
+  and,
+  or,
+  not,
+  parsePredicate,
+} from './predicate.js'
+export { validatePredicate } from './predicate-validation.js'
+export { sql, SqlQuery } from './sql.js'
+export type { SqlValue } from './sql.js'
+export { rowsToCsv, rowsToJsonLines } from './row-streams.js'
+export { select, SelectQuery } from './query-builder.js'
+export type { SelectColumn, SelectItem, SortDirection } from './query-builder.js'
+export {
+  recordsToParquet,
+  csvToParquet,
+  parseCsv,
+  parseJsonLines,
+} from './convert.js'
+export { inspectParquet, compareSchemas } from './inspect.js'
+export { checkSchemaCompatibility } from './compatibility.js'
+export { PollingJob, TrainingJob, OptimalParamSearchJob } from './jobs.js'
+export {
+  Resource,
+  WorkspaceResource,
+  DatasetResource,
+  RowSetResource,
+  ColumnSetResource,
+  TrainingParamSetResource,
+  ModelResource,
+  WorkspaceDatasets,
+  WorkspaceRowSets,
+  WorkspaceColumnSets,
+  WorkspaceTrainingParamSets,
+  WorkspaceModels,
+  DatasetRowSets,
+  DatasetColumnSets,
+  DatasetModels,
+} from './resources.js'
+export { createMockGagaraBoost } from './mock.js'
+export { createRecordingFetch, createReplayFetch, loadFixture } from './fixtures.js'
+export { loadWorkspaceBundle, saveWorkspaceBundle } from './bundle.js'
+export type { RecordingFetch, ReplayFetch } from './fixtures.js'
+export type {
+  MockGagaraBoost,
+  MockGagaraBoostOptions,
+  MockState,
+  MockRequest,
+  MockFault,
+} from './mock.js'
+export {
+  loggingMiddleware,
+  timingMiddleware,
+  headersMiddleware,
+} from './middleware.js'
+export type {
+  LoggingMiddlewareOptions,
+  RequestTiming,
+} from './middleware.js'
 
 export type {
   Workspace,
@@ -18,6 +79,15 @@ export type {
   RowSet,
   RowSetCreate,
   RowSetUpdate,
+  PredicateValue,
+  ColumnCondition,
+  ComparisonOperator,
+  PredicateNode,
+  PredicateInput,
+  PredicateIssueCode,
+  PredicateIssue,
+  PredicateValidationResult,
+  RowSetWriteOptions,
   RowSetSampleResponse,
   FeatureColumnDetail,
   ColumnSet,
@@ -38,12 +108,110 @@ export type {
   FreeParameterPrediction,
   QueryRequest,
   QueryResponse,
+  QueryOptions,
+  QueryPage,
+  QueryIteratorOptions,
+  RowStreamOptions,
+  CsvWriteOptions,
+  QueryColumnCoercion,
   UploadFileInput,
+  UploadSource,
+  UploadSession,
+  UploadProgressCallback,
+  ChunkedUploadOptions,
   UploadDatasetOptions,
+  UploadRecordsOptions,
+  UploadCsvOptions,
+  InspectParquetOptions,
+  ParquetInspection,
+  SchemaChangeKind,
+  SchemaChange,
+  SchemaCompatibilityMode,
+  ColumnSetReference,
+  SchemaCompatibilityIssue,
+  SchemaCompatibilityReport,
+  ParquetColumnType,
+  ParquetConversionOptions,
+  CsvParseOptions,
+  ArrowTableLike,
+  RecordInput,
+  DownloadOptions,
+  DownloadToFileOptions,
+  DownloadProgressCallback,
+  DownloadResult,
   ReplaceDatasetOptions,
   ClientOptions,
+  RequestOptions,
+  ListOptions,
+  IterateOptions,
+  ListPage,
+  RetryOptions,
+  ResponseValidationMode,
+  SqlNameTemplates,
+  ResponseValidationIssue,
+  Middleware,
+  MiddlewareNext,
+  JobState,
+  JobWaitOptions,
+  StartJobOptions,
+  TrainingJobStatus,
+  TrainingProgressEvent,
+  OptimalParamSearchTrial,
+  OptimalParamSearchJobStatus,
+  OptimalParamSearchTrialEvent,
+  FixtureBody,
+  FixtureRequest,
+  FixtureResponse,
+  HttpFixture,
+  HttpFixtureEntry,
+  RedactionOptions,
+  RecordFetchOptions,
+  ReplayFetchOptions,
+  PipelineDatasetSpec,
+  PipelineSpec,
+  PipelineStepName,
+  PipelineStepEvent,
+  PipelineOptions,
+  PipelineIds,
+  PipelineResult,
+  WorkspaceManifest,
+  ManifestRowSet,
+  ManifestColumnSet,
+  ManifestTrainingParamSet,
+  ManifestResourceKind,
+  ManifestChange,
+  ManifestPlan,
+  ManifestOptions,
+  BundleDataset,
+  WorkspaceBundle,
+  ImportWorkspaceOptions,
+  WorkspaceImportResult,
   ErrorResponse,
+  ErrorContext,
+  ValidationErrorDetail,
+  ValidationIssue,
   NumericValueStats,
 } from './types.js'
 
-export { GagaraBoostError } from './types.js'
+export {
+  GagaraBoostError,
+  AuthenticationError,
+  PermissionDeniedError,
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+  RateLimitError,
+  ServerError,
+  ResponseParseError,
+  TimeoutError,
+  NetworkError,
+  PredicateValidationError,
+  ResponseValidationError,
+  JobFailedError,
+  JobCancelledError,
+  ChecksumMismatchError,
+  SchemaCompatibilityError,
+  FixtureMismatchError,
+  PipelineError,
+  ManifestError,
+} from './types.js'
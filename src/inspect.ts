@@ -0,0 +1,314 @@
+import { parquetMetadataAsync, parquetRead, parquetSchema } from 'hyparquet'
+import type { AsyncBuffer, FileMetaData, SchemaTree } from 'hyparquet'
+import type {
+  DatasetColumn,
+  DatasetColumnInfo,
+  DatasetSchemaResponse,
+  InspectParquetOptions,
+  NumericValueStats,
+  ParquetInspection,
+  SchemaChange,
+  UploadSource,
+} from './types.js'
+import { columnKind } from './predicate-validation.js'
+import { toBlob } from './upload.js'
+
+const DEFAULT_DISTINCT_VALUES_LIMIT = 20
+
+/**
+ * Reads a parquet file locally and describes it the way the server would
+ * after upload: `schema` matches `getDatasetSchema`, `meta` matches
+ * `getDatasetMeta`. Data is scanned one row group at a time; streams are
+ * buffered since the parquet footer sits at the end of the file.
+ */
+export async function inspectParquet (
+  input: UploadSource,
+  options: InspectParquetOptions = {}
+): Promise<ParquetInspection> {
+  const blob = await toBlob(input, 'application/octet-stream')
+  const file = blobBuffer(blob)
+  const metadata = await parquetMetadataAsync(file)
+  const columns = schemaColumns(metadata)
+
+  const accumulators = columns.map((column) => new ColumnAccumulator(columnKind(column.data_type) === 'numeric'))
+  let rowStart = 0
+  for (const rowGroup of metadata.row_groups) {
+    const rowEnd = rowStart + Number(rowGroup.num_rows)
+    const rows = await readRows(file, metadata, rowStart, rowEnd)
+    for (const row of rows) {
+      row.forEach((value, index) => accumulators[index].add(value))
+    }
+    rowStart = rowEnd
+  }
+
+  const limit = options.distinctValuesLimit ?? DEFAULT_DISTINCT_VALUES_LIMIT
+  const columnsInfo: DatasetColumnInfo[] = columns.map((column, index) => ({
+    name: column.name,
+    size_bytes: columnSize(metadata, column.name),
+    ...accumulators[index].statistics(limit),
+  }))
+
+  return {
+    schema: { columns },
+    meta: {
+      row_count: Number(metadata.num_rows),
+      file_size_bytes: blob.size,
+      columns_info: columnsInfo,
+    },
+    nullCounts: Object.fromEntries(columns.map((column, index) => [column.name, accumulators[index].nulls])),
+  }
+}
+
+/** Reads only the parquet footer and returns the columns as `getDatasetSchema` would */
+export async function readParquetSchema (input: UploadSource): Promise<DatasetSchemaResponse> {
+  const blob = await toBlob(input, 'application/octet-stream')
+  return { columns: schemaColumns(await parquetMetadataAsync(blobBuffer(blob))) }
+}
+
+/**
+ * Lists how `candidate` differs from `current`, by column name. Types are
+ * compared case-insensitively; `INTEGER` to `BIGINT` still counts as a change.
+ */
+export function compareSchemas (
+  current: DatasetSchemaResponse,
+  candidate: DatasetSchemaResponse
+): SchemaChange[] {
+  const changes: SchemaChange[] = []
+  const next = new Map(candidate.columns.map((column) => [column.name, column]))
+  const previous = new Set(current.columns.map((column) => column.name))
+
+  for (const before of current.columns) {
+    const after = next.get(before.name)
+    if (!after) {
+      changes.push({ kind: 'removed', column: before.name, before })
+    } else if (normalizeType(before.data_type) !== normalizeType(after.data_type)) {
+      changes.push({ kind: 'type_changed', column: before.name, before, after })
+    } else if (before.nullable !== after.nullable) {
+      changes.push({ kind: 'nullability_changed', column: before.name, before, after })
+    }
+  }
+  for (const after of candidate.columns) {
+    if (!previous.has(after.name)) {
+      changes.push({ kind: 'added', column: after.name, after })
+    }
+  }
+  return changes
+}
+
+// ----------------------------------------------------------
+// Statistics
+// ----------------------------------------------------------
+
+class ColumnAccumulator {
+  nulls = 0
+  #distinct = new Set<unknown>()
+  #numeric: boolean
+  #count = 0
+  #min = Infinity
+  #max = -Infinity
+  #mean = 0
+  #m2 = 0
+
+  constructor (numeric: boolean) {
+    this.#numeric = numeric
+  }
+
+  add (value: unknown): void {
+    if (value === null || value === undefined) {
+      this.nulls++
+      return
+    }
+    this.#distinct.add(distinctKey(value))
+    if (this.#numeric && (typeof value === 'number' || typeof value === 'bigint')) {
+      // Welford's online algorithm, so a single pass gives mean and variance
+      const number = Number(value)
+      this.#count++
+      this.#min = Math.min(this.#min, number)
+      this.#max = Math.max(this.#max, number)
+      const delta = number - this.#mean
+      this.#mean += delta / this.#count
+      this.#m2 += delta * (number - this.#mean)
+    }
+  }
+
+  statistics (limit: number): Omit<DatasetColumnInfo, 'name' | 'size_bytes'> {
+    const values = [...this.#distinct]
+    const listable = values.length <= limit && values.every((value) => typeof value === 'string' || typeof value === 'number')
+    return {
+      count_distinct: values.length,
+      distinct_values: listable ? (values as Array<string | number>).sort(compareValues) : null,
+      numeric_values_stats: this.#numeric ? this.#numericStats() : null,
+    }
+  }
+
+  #numericStats (): NumericValueStats {
+    if (this.#count === 0) {
+      return { min: null, max: null, avg: null, std: null }
+    }
+    return {
+      min: this.#min,
+      max: this.#max,
+      avg: this.#mean,
+      std: this.#count > 1 ? Math.sqrt(this.#m2 / (this.#count - 1)) : null,
+    }
+  }
+}
+
+function distinctKey (value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString()
+  }
+  if (value instanceof Date) {
+    return value.toISOString()
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value, (_, item) => typeof item === 'bigint' ? item.toString() : item)
+  }
+  return value
+}
+
+function compareValues (a: string | number, b: string | number): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b
+  }
+  return String(a).localeCompare(String(b))
+}
+
+function blobBuffer (blob: Blob): AsyncBuffer {
+  return {
+    byteLength: blob.size,
+    slice: async (start, end) => blob.slice(start, end).arrayBuffer(),
+  }
+}
+
+async function readRows (
+  file: AsyncBuffer,
+  metadata: FileMetaData,
+  rowStart: number,
+  rowEnd: number
+): Promise<unknown[][]> {
+  let rows: unknown[][] = []
+  await parquetRead({
+    file,
+    metadata,
+    rowStart,
+    rowEnd,
+    onComplete: (result) => { rows = result },
+  })
+  return rows
+}
+
+function columnSize (metadata: FileMetaData, name: string): number {
+  let size = 0
+  for (const rowGroup of metadata.row_groups) {
+    for (const chunk of rowGroup.columns) {
+      if (chunk.meta_data?.path_in_schema[0] === name) {
+        size += Number(chunk.meta_data.total_compressed_size)
+      }
+    }
+  }
+  return size
+}
+
+// ----------------------------------------------------------
+// Types
+// ----------------------------------------------------------
+
+function schemaColumns (metadata: FileMetaData): DatasetColumn[] {
+  return parquetSchema(metadata).children.map((field) => ({
+    name: field.element.name,
+    data_type: sqlType(field),
+    nullable: field.element.repetition_type !== 'REQUIRED',
+  }))
+}
+
+/** Names parquet types the way the server (DuckDB) reports them */
+function sqlType (node: SchemaTree): string {
+  const { element, children } = node
+  const logical = element.logical_type
+  const converted = element.converted_type
+
+  if (children.length > 0) {
+    if (logical?.type === 'LIST' || converted === 'LIST') {
+      const repeated = children[0]
+      const item = repeated.children.length === 1 ? repeated.children[0] : repeated
+      return `${sqlType(item)}[]`
+    }
+    if (logical?.type === 'MAP' || converted === 'MAP' || converted === 'MAP_KEY_VALUE') {
+      const [key, value] = children[0].children
+      return `MAP(${sqlType(key)}, ${value ? sqlType(value) : 'NULL'})`
+    }
+    return `STRUCT(${children.map((child) => `${child.element.name} ${sqlType(child)}`).join(', ')})`
+  }
+
+  const type = leafType(node)
+  return element.repetition_type === 'REPEATED' ? `${type}[]` : type
+}
+
+function leafType ({ element }: SchemaTree): string {
+  const logical = element.logical_type
+  const converted = element.converted_type
+
+  if (logical?.type === 'DECIMAL' || converted === 'DECIMAL') {
+    return `DECIMAL(${element.precision ?? 18},${element.scale ?? 0})`
+  }
+  if (logical?.type === 'TIMESTAMP') {
+    return logical.isAdjustedToUTC ? 'TIMESTAMP WITH TIME ZONE' : 'TIMESTAMP'
+  }
+  if (logical?.type === 'TIME' || converted === 'TIME_MILLIS' || converted === 'TIME_MICROS') {
+    return 'TIME'
+  }
+  if (logical?.type === 'INTEGER') {
+    return integerType(logical.bitWidth, logical.isSigned)
+  }
+  const integer = /^(U?)INT_(\d+)$/.exec(converted ?? '')
+  if (integer) {
+    return integerType(Number(integer[2]), integer[1] === '')
+  }
+
+  switch (logical?.type ?? converted) {
+    case 'STRING':
+    case 'UTF8':
+    case 'ENUM':
+      return 'VARCHAR'
+    case 'JSON':
+      return 'JSON'
+    case 'UUID':
+      return 'UUID'
+    case 'DATE':
+      return 'DATE'
+    case 'TIMESTAMP_MILLIS':
+    case 'TIMESTAMP_MICROS':
+      return 'TIMESTAMP'
+    case 'INTERVAL':
+      return 'INTERVAL'
+    case 'FLOAT16':
+      return 'FLOAT'
+  }
+
+  switch (element.type) {
+    case 'BOOLEAN':
+      return 'BOOLEAN'
+    case 'INT32':
+      return 'INTEGER'
+    case 'INT64':
+      return 'BIGINT'
+    case 'INT96':
+      return 'TIMESTAMP'
+    case 'FLOAT':
+      return 'FLOAT'
+    case 'DOUBLE':
+      return 'DOUBLE'
+    default:
+      return 'BLOB'
+  }
+}
+
+function integerType (bitWidth: number, signed: boolean): string {
+  const name = { 8: 'TINYINT', 16: 'SMALLINT', 32: 'INTEGER', 64: 'BIGINT' }[bitWidth] ?? 'BIGINT'
+  return signed ? name : `U${name}`
+}
+
+function normalizeType (type: string): string {
+  return type.trim().replace(/\s+/g, ' ').toUpperCase()
+}
@@ -0,0 +1,285 @@
+import type {
+  JobState,
+  JobWaitOptions,
+  OptimalParamSearchJobStatus,
+  OptimalParamSearchResponse,
+  OptimalParamSearchTrialEvent,
+  RequestOptions,
+  TrainingJobStatus,
+  TrainingProgressEvent,
+  TrainingResponse,
+} from './types.js'
+import { GagaraBoostError, JobCancelledError, JobFailedError } from './types.js'
+import { sleep } from './retry.js'
+import { randomId } from './util.js'
+
+export interface JobStatusBase {
+  id: string
+  status: JobState
+  error?: string | null
+}
+
+/**
+ * Where a job's status comes from: the server's job endpoints, or a local
+ * emulation around a synchronous call.
+ */
+export interface JobSource<TStatus extends JobStatusBase> {
+  readonly id: string
+  status (options?: RequestOptions): Promise<TStatus>
+  cancel (options?: RequestOptions): Promise<TStatus>
+  /** Resolves once a locally emulated job settles, so polling can stop early */
+  readonly settled?: Promise<void>
+  /** Original error of a failed local job */
+  readonly failure?: unknown
+}
+
+const TERMINAL_STATES: ReadonlySet<JobState> = new Set(['completed', 'failed', 'cancelled'])
+
+const STATE_ALIASES: Record<string, JobState> = {
+  pending: 'queued',
+  queued: 'queued',
+  running: 'running',
+  in_progress: 'running',
+  completed: 'completed',
+  success: 'completed',
+  succeeded: 'completed',
+  failed: 'failed',
+  error: 'failed',
+  cancelled: 'cancelled',
+  canceled: 'cancelled',
+}
+
+export function isTerminalJobState (state: JobState): boolean {
+  return TERMINAL_STATES.has(state)
+}
+
+export function normalizeJobState (state: string): JobState {
+  return STATE_ALIASES[state.toLowerCase()] ?? 'running'
+}
+
+/**
+ * Shared polling logic for long-running server operations.
+ */
+export abstract class PollingJob<TStatus extends JobStatusBase, TResult, TEvent>
+implements AsyncIterable<TEvent> {
+  readonly #source: JobSource<TStatus>
+  #lastStatus?: TStatus
+
+  constructor (source: JobSource<TStatus>, initialStatus?: TStatus) {
+    this.#source = source
+    this.#lastStatus = initialStatus
+  }
+
+  get id (): string {
+    return this.#source.id
+  }
+
+  /** True when the job is emulated around a synchronous endpoint */
+  get isLocal (): boolean {
+    return this.#source.settled !== undefined
+  }
+
+  /** Most recently observed status, without a network round trip */
+  get lastStatus (): TStatus | undefined {
+    return this.#lastStatus
+  }
+
+  async status (options?: RequestOptions): Promise<TStatus> {
+    this.#lastStatus = await this.#source.status(options)
+    return this.#lastStatus
+  }
+
+  async cancel (options?: RequestOptions): Promise<TStatus> {
+    this.#lastStatus = await this.#source.cancel(options)
+    return this.#lastStatus
+  }
+
+  /**
+   * Polls until the job reaches a terminal state, yielding events as they
+   * are observed. Ends after the terminal status has been reported.
+   */
+  async * events (options: JobWaitOptions = {}): AsyncGenerator<TEvent, void, undefined> {
+    const pollInterval = options.pollInterval ?? 2_000
+    let previous: TStatus | undefined
+
+    while (true) {
+      const current = await this.status({ signal: options.signal })
+      yield * this.toEvents(previous, current)
+      if (isTerminalJobState(current.status)) {
+        return
+      }
+      previous = current
+      await this.#pause(pollInterval, options.signal)
+    }
+  }
+
+  [Symbol.asyncIterator] (): AsyncIterator<TEvent> {
+    return this.events()
+  }
+
+  /**
+   * Resolves with the job result, or rejects with JobFailedError or
+   * JobCancelledError.
+   */
+  async wait (options: JobWaitOptions = {}): Promise<TResult> {
+    for await (const _event of this.events(options)) {
+      // drain
+    }
+
+    const final = this.#lastStatus as TStatus
+    if (final.status === 'cancelled') {
+      const partial = this.resultOnCancel(final)
+      if (partial !== undefined) {
+        return partial
+      }
+      throw new JobCancelledError(`Job ${this.id} was cancelled`, this.id)
+    }
+    if (final.status === 'failed') {
+      const failure = this.#source.failure
+      if (failure instanceof GagaraBoostError) {
+        throw failure
+      }
+      throw new JobFailedError(final.error ?? `Job ${this.id} failed`, this.id, {
+        cause: failure,
+      })
+    }
+    return this.toResult(final)
+  }
+
+  /** Events to emit for the transition from `previous` to `current` */
+  protected abstract toEvents (previous: TStatus | undefined, current: TStatus): TEvent[]
+
+  protected abstract toResult (status: TStatus): TResult
+
+  /** Result to resolve `wait()` with when the job was cancelled, if any */
+  protected resultOnCancel (_status: TStatus): TResult | undefined {
+    return undefined
+  }
+
+  async #pause (ms: number, signal?: AbortSignal): Promise<void> {
+    const settled = this.#source.settled
+    if (!settled) {
+      return sleep(ms, signal)
+    }
+    const controller = new AbortController()
+    const onAbort = (): void => controller.abort(signal?.reason)
+    signal?.addEventListener('abort', onAbort, { once: true })
+    try {
+      await Promise.race([
+        sleep(ms, controller.signal),
+        settled.then(() => controller.abort()),
+      ])
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort)
+    }
+  }
+}
+
+export class TrainingJob extends PollingJob<TrainingJobStatus, TrainingResponse, TrainingProgressEvent> {
+  protected toEvents (
+    previous: TrainingJobStatus | undefined,
+    current: TrainingJobStatus
+  ): TrainingProgressEvent[] {
+    if (
+      previous &&
+      previous.status === current.status &&
+      previous.progress === current.progress &&
+      previous.message === current.message
+    ) {
+      return []
+    }
+    return [{
+      jobId: current.id,
+      status: current.status,
+      progress: current.progress ?? null,
+      message: current.message ?? null,
+    }]
+  }
+
+  protected toResult (status: TrainingJobStatus): TrainingResponse {
+    if (!status.result) {
+      throw new JobFailedError(`Job ${status.id} completed without a result`, status.id)
+    }
+    return status.result
+  }
+}
+
+export class OptimalParamSearchJob extends PollingJob<
+  OptimalParamSearchJobStatus,
+  OptimalParamSearchResponse,
+  OptimalParamSearchTrialEvent
+> {
+  protected toEvents (
+    previous: OptimalParamSearchJobStatus | undefined,
+    current: OptimalParamSearchJobStatus
+  ): OptimalParamSearchTrialEvent[] {
+    const seen = new Set((previous?.trials ?? []).map((trial) => trial.number))
+    return (current.trials ?? [])
+      .filter((trial) => !seen.has(trial.number))
+      .map((trial) => ({ ...trial, jobId: current.id }))
+  }
+
+  protected toResult (status: OptimalParamSearchJobStatus): OptimalParamSearchResponse {
+    if (!status.result) {
+      throw new JobFailedError(`Job ${status.id} completed without a result`, status.id)
+    }
+    return status.result
+  }
+
+  protected resultOnCancel (
+    status: OptimalParamSearchJobStatus
+  ): OptimalParamSearchResponse | undefined {
+    return status.result ?? undefined
+  }
+}
+
+/**
+ * Emulates a job around a synchronous call. Cancelling aborts the request.
+ */
+export function localJobSource<TStatus extends JobStatusBase, TResult> (
+  run: (signal: AbortSignal) => Promise<TResult>,
+  snapshot: (id: string, state: JobState, result?: TResult, error?: unknown) => TStatus
+): JobSource<TStatus> {
+  const id = `local-${randomId()}`
+  const controller = new AbortController()
+  let state: JobState = 'running'
+  let result: TResult | undefined
+  let failure: unknown
+
+  const settled = run(controller.signal).then(
+    (value) => {
+      if (state === 'running') {
+        state = 'completed'
+        result = value
+      }
+    },
+    (error: unknown) => {
+      if (state === 'running') {
+        state = 'failed'
+        failure = error
+      }
+    }
+  )
+
+  return {
+    id,
+    settled,
+    get failure () {
+      return failure
+    },
+    async status () {
+      return snapshot(id, state, result, failure)
+    },
+    async cancel () {
+      if (state === 'running') {
+        state = 'cancelled'
+        controller.abort()
+      }
+      return snapshot(id, state, result, failure)
+    },
+  }
+}
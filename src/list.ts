@@ -0,0 +1,66 @@
+import type { ListPage } from './types.js'
+
+/** Items and the next cursor from either list response shape */
+export function unwrapList<T> (
+  data: T[] | ListPage<T>,
+  headers: Headers | undefined
+): { items: T[], nextCursor?: string } {
+  const header = headers?.get('X-Next-Cursor') ?? undefined
+  if (Array.isArray(data)) {
+    return { items: data, nextCursor: header }
+  }
+  return { items: data.items, nextCursor: data.next_cursor ?? header }
+}
+
+/**
+ * Applies `search` locally, for servers that ignore the parameter. Items the
+ * server already filtered pass unchanged.
+ */
+export function searchItems<T> (items: T[], search: string | undefined, field: string): T[] {
+  if (!search) {
+    return items
+  }
+  const needle = search.toLowerCase()
+  return items.filter((item) => {
+    const value = (item as Record<string, unknown>)[field]
+    return typeof value === 'string' && value.toLowerCase().includes(needle)
+  })
+}
+
+/**
+ * Sorts by `field` or `-field` in the server's order: numbers by value,
+ * everything else by code units. Missing values go last either way.
+ */
+export function sortItems<T> (items: T[], sort: string | undefined): T[] {
+  if (!sort) {
+    return items
+  }
+  const descending = sort.startsWith('-')
+  const field = descending ? sort.slice(1) : sort
+  return [...items].sort((a, b) => {
+    const left = (a as Record<string, unknown>)[field]
+    const right = (b as Record<string, unknown>)[field]
+    if (left === right) {
+      return 0
+    }
+    if (left === null || left === undefined) {
+      return 1
+    }
+    if (right === null || right === undefined) {
+      return -1
+    }
+    const order = typeof left === 'number' && typeof right === 'number'
+      ? left - right
+      : compareStrings(String(left), String(right))
+    return descending ? -order : order
+  })
+}
+
+function compareStrings (left: string, right: string): number {
+  return left < right ? -1 : left > right ? 1 : 0
+}
+
+/** Whether `items` are already in `sort` order */
+export function isSorted<T> (items: T[], sort: string | undefined): boolean {
+  return sortItems(items, sort).every((item, index) => item === items[index])
+}
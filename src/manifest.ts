@@ -0,0 +1,267 @@
+import type { GagaraBoostClient } from './client.js'
+import type {
+  ColumnSet,
+  ColumnSetCreate,
+  ColumnSetUpdate,
+  ManifestChange,
+  ManifestOptions,
+  ManifestPlan,
+  ManifestResourceKind,
+  RequestOptions,
+  RowSet,
+  RowSetCreate,
+  RowSetUpdate,
+  TrainingParamSet,
+  TrainingParamSetCreate,
+  TrainingParamSetUpdate,
+  WorkspaceManifest,
+} from './types.js'
+import { ManifestError } from './types.js'
+import { canonicalJson } from './util.js'
+
+type Existing = RowSet | ColumnSet | TrainingParamSet
+type Payload = RowSetCreate | ColumnSetCreate | TrainingParamSetCreate
+
+interface Desired {
+  name: string
+  after: Payload
+  /** Fields compared with the existing resource */
+  compare: string[]
+  /** The dataset field, which cannot be updated in place */
+  dataset?: 'base_dataset_id' | 'dataset_id'
+}
+
+interface Section {
+  kind: ManifestResourceKind
+  desired: Desired[]
+  existing: () => AsyncIterable<Existing>
+}
+
+/**
+ * Compares a manifest with the workspace and lists the calls that would make
+ * them match, without changing anything.
+ */
+export async function planManifest (
+  client: GagaraBoostClient,
+  manifest: WorkspaceManifest,
+  options: ManifestOptions = {}
+): Promise<ManifestPlan> {
+  const { prune = false, ...requestOptions } = options
+  const workspaceId = await resolveWorkspace(client, manifest.workspace, requestOptions)
+  const issues: string[] = []
+
+  const datasetIds = await resolveDatasets(client, workspaceId, manifest, requestOptions)
+  const datasetId = (reference: string, location: string): string => {
+    const id = datasetIds.get(reference)
+    if (!id) {
+      issues.push(`${location}: unknown dataset "${reference}"`)
+    }
+    return id ?? reference
+  }
+
+  const sections: Section[] = []
+  if (manifest.rowSets) {
+    sections.push({
+      kind: 'rowSet',
+      desired: manifest.rowSets.map(({ name, dataset, predicate }, index) => ({
+        name,
+        after: {
+          name,
+          workspace_id: workspaceId,
+          base_dataset_id: datasetId(dataset, `rowSets[${index}] "${name}"`),
+          predicate,
+        },
+        compare: ['base_dataset_id', 'predicate'],
+        dataset: 'base_dataset_id',
+      })),
+      existing: () => client.iterateRowSets(workspaceId, requestOptions),
+    })
+  }
+  if (manifest.columnSets) {
+    sections.push({
+      kind: 'columnSet',
+      desired: manifest.columnSets.map(({ dataset, ...columnSet }, index) => ({
+        name: columnSet.name,
+        after: { ...columnSet, dataset_id: datasetId(dataset, `columnSets[${index}] "${columnSet.name}"`) },
+        compare: ['dataset_id', 'column_to_predict', 'feature_columns'],
+        dataset: 'dataset_id',
+      })),
+      existing: () => client.iterateColumnSets({ workspaceId }, requestOptions),
+    })
+  }
+  if (manifest.trainingParamSets) {
+    sections.push({
+      kind: 'trainingParamSet',
+      desired: manifest.trainingParamSets.map((paramSet) => ({
+        name: paramSet.name,
+        after: { ...paramSet, workspace_id: workspaceId },
+        compare: paramSet.meta === undefined ? ['params'] : ['params', 'meta'],
+      })),
+      existing: () => client.iterateTrainingParamSets(workspaceId, requestOptions),
+    })
+  }
+
+  for (const { kind, desired } of sections) {
+    const seen = new Set<string>()
+    for (const { name } of desired) {
+      if (seen.has(name)) {
+        issues.push(`${kind} "${name}" is listed more than once`)
+      }
+      seen.add(name)
+    }
+  }
+  if (issues.length > 0) {
+    throw new ManifestError(`Invalid manifest: ${issues.join('; ')}`, issues)
+  }
+
+  const plan: ManifestPlan = { workspaceId, changes: [], unchanged: 0 }
+  for (const section of sections) {
+    const existing: Existing[] = []
+    for await (const item of section.existing()) {
+      existing.push(item)
+    }
+    diff(plan, section, existing, prune)
+  }
+  return plan
+}
+
+/**
+ * Applies a plan from `planManifest()`, or plans a manifest and applies it.
+ * Changes run in plan order and stop at the first failure; planning again
+ * picks up what is left. Resolves with the plan, with ids set on created
+ * resources.
+ */
+export async function applyManifest (
+  client: GagaraBoostClient,
+  input: WorkspaceManifest | ManifestPlan,
+  options: ManifestOptions = {}
+): Promise<ManifestPlan> {
+  const plan = 'changes' in input ? input : await planManifest(client, input, options)
+  const { prune: _prune, ...requestOptions } = options
+  const api = operations(client, requestOptions)
+  const applied: ManifestChange[] = []
+  for (const change of plan.changes) {
+    const { create, update, remove } = api[change.kind]
+    switch (change.action) {
+      case 'create':
+        applied.push({ ...change, id: (await create(change.after!)).id })
+        break
+      case 'update': {
+        const after = change.after as unknown as Record<string, unknown>
+        await update(change.id!, Object.fromEntries(change.fields.map((field) => [field, after[field]])))
+        applied.push(change)
+        break
+      }
+      case 'replace':
+        await remove(change.id!)
+        applied.push({ ...change, id: (await create(change.after!)).id })
+        break
+      case 'delete':
+        await remove(change.id!)
+        applied.push(change)
+        break
+    }
+  }
+  return { ...plan, changes: applied }
+}
+
+async function resolveWorkspace (
+  client: GagaraBoostClient,
+  workspace: WorkspaceManifest['workspace'],
+  options: RequestOptions
+): Promise<string> {
+  if ('id' in workspace) {
+    return (await client.getWorkspace(workspace.id, options)).id
+  }
+  for await (const candidate of client.iterateWorkspaces({ ...options, search: workspace.name })) {
+    if (candidate.name === workspace.name) {
+      return candidate.id
+    }
+  }
+  const issue = `workspace "${workspace.name}" does not exist`
+  throw new ManifestError(`Invalid manifest: ${issue}`, [issue])
+}
+
+/** Maps dataset aliases and ids to ids, when the manifest references any */
+async function resolveDatasets (
+  client: GagaraBoostClient,
+  workspaceId: string,
+  manifest: WorkspaceManifest,
+  options: RequestOptions
+): Promise<Map<string, string>> {
+  const ids = new Map<string, string>()
+  if (!manifest.rowSets?.length && !manifest.columnSets?.length) {
+    return ids
+  }
+  for await (const dataset of client.iterateDatasets(workspaceId, options)) {
+    ids.set(dataset.id, dataset.id)
+    if (dataset.alias !== null && !ids.has(dataset.alias)) {
+      ids.set(dataset.alias, dataset.id)
+    }
+  }
+  return ids
+}
+
+function diff (plan: ManifestPlan, section: Section, existing: Existing[], prune: boolean): void {
+  const { kind } = section
+  const remaining = [...existing]
+  for (const { name, after, compare, dataset } of section.desired) {
+    const desired = after as unknown as Record<string, unknown>
+    // Prefer a same-named resource on the same dataset over replacing another
+    let index = remaining.findIndex((item) =>
+      item.name === name && (!dataset || field(item, dataset) === desired[dataset]))
+    if (index < 0) {
+      index = remaining.findIndex((item) => item.name === name)
+    }
+    if (index < 0) {
+      plan.changes.push({ action: 'create', kind, name, fields: [], after })
+      continue
+    }
+
+    const [before] = remaining.splice(index, 1)
+    const fields = compare.filter((key) =>
+      canonicalJson(field(before, key) ?? null) !== canonicalJson(desired[key] ?? null))
+    if (fields.length === 0) {
+      plan.unchanged += 1
+      continue
+    }
+    const action = dataset && fields.includes(dataset) ? 'replace' : 'update'
+    plan.changes.push({ action, kind, name, id: before.id, fields, before, after })
+  }
+
+  if (prune) {
+    for (const before of remaining) {
+      plan.changes.push({ action: 'delete', kind, name: before.name, id: before.id, fields: [], before })
+    }
+  }
+}
+
+function field (item: Existing, key: string): unknown {
+  return (item as unknown as Record<string, unknown>)[key]
+}
+
+interface Operations {
+  create: (payload: Payload) => Promise<{ id: string }>
+  update: (id: string, payload: Record<string, unknown>) => Promise<unknown>
+  remove: (id: string) => Promise<unknown>
+}
+
+function operations (client: GagaraBoostClient, options: RequestOptions): Record<ManifestResourceKind, Operations> {
+  return {
+    rowSet: {
+      create: (payload) => client.createRowSet(payload as RowSetCreate, options),
+      update: (id, payload) => client.updateRowSet(id, payload as RowSetUpdate, options),
+      remove: (id) => client.deleteRowSet(id, options),
+    },
+    columnSet: {
+      create: (payload) => client.createColumnSet(payload as ColumnSetCreate, options),
+      update: (id, payload) => client.updateColumnSet(id, payload as ColumnSetUpdate, options),
+      remove: (id) => client.deleteColumnSet(id, options),
+    },
+    trainingParamSet: {
+      create: (payload) => client.createTrainingParamSet(payload as TrainingParamSetCreate, options),
+      update: (id, payload) => client.updateTrainingParamSet(id, payload as TrainingParamSetUpdate, options),
+      remove: (id) => client.deleteTrainingParamSet(id, options),
+    },
+  }
+}
@@ -0,0 +1,100 @@
+import type { Middleware, MiddlewareNext } from './types.js'
+
+export function composeMiddleware (
+  middleware: Middleware[],
+  handler: MiddlewareNext
+): MiddlewareNext {
+  return middleware.reduceRight<MiddlewareNext>(
+    (next, current) => (request) => current(request, next),
+    handler
+  )
+}
+
+// ----------------------------------------------------------
+// Built-in middleware
+// ----------------------------------------------------------
+
+export interface LoggingMiddlewareOptions {
+  /** Receives one line per request. Default: console.debug */
+  logger?: (message: string) => void
+
+  /** Include request headers in the log line. Authorization is always redacted */
+  logHeaders?: boolean
+}
+
+/**
+ * Logs method, URL, status and latency of every request.
+ */
+export function loggingMiddleware (options: LoggingMiddlewareOptions = {}): Middleware {
+  const log = options.logger ?? ((message: string) => console.debug(message))
+
+  return async (request, next) => {
+    const started = Date.now()
+    const headers = options.logHeaders ? ` ${JSON.stringify(redactHeaders(request.headers))}` : ''
+    try {
+      const response = await next(request)
+      log(`${request.method} ${request.url} -> ${response.status} (${Date.now() - started}ms)${headers}`)
+      return response
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      log(`${request.method} ${request.url} -> failed: ${message} (${Date.now() - started}ms)${headers}`)
+      throw error
+    }
+  }
+}
+
+export interface RequestTiming {
+  method: string
+  url: string
+  /** Response status, or undefined when the request failed */
+  status?: number
+  duration: number
+}
+
+/**
+ * Reports latency of every request to the given callback.
+ */
+export function timingMiddleware (onTiming: (timing: RequestTiming) => void): Middleware {
+  return async (request, next) => {
+    const started = Date.now()
+    let status: number | undefined
+    try {
+      const response = await next(request)
+      status = response.status
+      return response
+    } finally {
+      onTiming({
+        method: request.method,
+        url: request.url,
+        status,
+        duration: Date.now() - started,
+      })
+    }
+  }
+}
+
+/**
+ * Adds headers to every request. Headers already present on the request win.
+ */
+export function headersMiddleware (
+  headers: HeadersInit | (() => HeadersInit | Promise<HeadersInit>)
+): Middleware {
+  return async (request, next) => {
+    const extra = new Headers(typeof headers === 'function' ? await headers() : headers)
+    const merged = new Headers(request.headers)
+    extra.forEach((value, key) => {
+      if (!merged.has(key)) {
+        merged.set(key, value)
+      }
+    })
+    return next(new Request(request, { headers: merged }))
+  }
+}
+
+function redactHeaders (headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {}
+  headers.forEach((value, key) => {
+    result[key] = key.toLowerCase() === 'authorization' ? 'Bearer [REDACTED]' : value
+  })
+  return result
+}
@@ -0,0 +1,1079 @@
+import { parquetReadObjects } from 'hyparquet'
+import type {
+  ColumnSet,
+  DatasetColumnStatistics,
+  DatasetColumnUserInput,
+  DatasetItem,
+  DatasetMetaResponse,
+  DatasetSchemaResponse,
+  ModelDetail,
+  OptimalParamSearchJobStatus,
+  OptimalParamSearchResponse,
+  PredicateNode,
+  PredicateValue,
+  QueryResponse,
+  RowSet,
+  StoredDatasetColumn,
+  TrainingJobStatus,
+  TrainingParamSet,
+  TrainingResponse,
+  UploadSession,
+  UserCreateResponse,
+  ValidationErrorDetail,
+  Workspace,
+} from './types.js'
+import { inspectParquet } from './inspect.js'
+import { searchItems, sortItems } from './list.js'
+import { parsePredicate, predicateClauses } from './predicate.js'
+import { concat } from './upload.js'
+import { canonicalJson } from './util.js'
+
+export interface MockGagaraBoostOptions {
+  /**
+   * Answer 401 unless the request carries a token from `POST /user/new`.
+   * Default: false
+   */
+  requireAuth?: boolean
+
+  /** Serve the training and parameter search job routes. Default: true */
+  jobs?: boolean
+
+  /** Serve the resumable `/uploads` routes. Default: true */
+  chunkedUploads?: boolean
+
+  /**
+   * Answers `POST /query`. The default only understands `SELECT * FROM
+   * <table>` over dataset tables and row set views (with the client's default
+   * `sqlNames`), plus the LIMIT/OFFSET wrapper of `queryPages()`.
+   */
+  query?: (sql: string, mock: MockGagaraBoost) => QueryResponse | Promise<QueryResponse>
+
+  /**
+   * Clock for `created_at` and friends. The default starts at
+   * 2024-01-01T00:00:00Z and ticks one second per call, so ids and
+   * timestamps are the same on every run.
+   */
+  now?: () => Date
+}
+
+/** Everything the mock server stores; tests may read and seed it directly */
+export interface MockState {
+  users: Map<string, UserCreateResponse>
+  workspaces: Map<string, Workspace>
+  datasets: Map<string, DatasetItem>
+  /** Dataset file contents by dataset id */
+  files: Map<string, Uint8Array>
+  datasetColumns: Map<string, StoredDatasetColumn>
+  rowSets: Map<string, RowSet>
+  columnSets: Map<string, ColumnSet>
+  trainingParamSets: Map<string, TrainingParamSet>
+  models: Map<string, ModelDetail>
+}
+
+export interface MockRequest {
+  method: string
+  /** Path and query string, e.g. `/datasets?workspace_id=ws-1` */
+  path: string
+  /** Parsed JSON body, when there was one */
+  body?: unknown
+}
+
+/** A failure to inject; see `MockGagaraBoost.fail()` */
+export interface MockFault {
+  method?: string
+  /** Exact path without the query string, or a pattern tested against it */
+  path?: string | RegExp
+  /** Default: 500 */
+  status?: number
+  /** Default: `{ detail: 'Injected failure' }` */
+  body?: unknown
+  headers?: Record<string, string>
+  /** Reject the fetch with this instead of answering, like a dropped connection */
+  error?: unknown
+  /** Number of matching requests that fail. Default: 1 */
+  times?: number
+}
+
+export interface MockGagaraBoost {
+  (input: RequestInfo | URL, init?: RequestInit): Promise<Response>
+  readonly state: MockState
+  /** Requests in arrival order, including failed ones */
+  readonly requests: MockRequest[]
+  /** Fails the next matching requests before they reach the routes */
+  fail (fault: MockFault): void
+  /** Clears stored objects, requests and pending faults */
+  reset (): void
+}
+
+type Handler = (context: RouteContext) => unknown
+
+interface RouteContext {
+  params: string[]
+  query: URLSearchParams
+  request: Request
+  json: () => Promise<Record<string, unknown>>
+  user?: UserCreateResponse
+}
+
+interface MockJob<TStatus> {
+  status: TStatus
+  polls: number
+  run: () => Promise<void>
+}
+
+class MockHttpError extends Error {
+  constructor (readonly status: number, readonly detail: string | ValidationErrorDetail[]) {
+    super(typeof detail === 'string' ? detail : 'Validation error')
+  }
+}
+
+const TRAINING_METRICS = ['auc', 'logloss', 'accuracy']
+
+/**
+ * Creates a `fetch` implementation backed by an in-memory gagara-boost
+ * server. Pass it as `ClientOptions.fetch` with any `baseUrl`:
+ *
+ * ```ts
+ * const mock = createMockGagaraBoost()
+ * const client = new GagaraBoostClient({ baseUrl: 'http://mock', fetch: mock })
+ * ```
+ *
+ * Ids are sequential (`ws-1`, `ds-1`, ...). Training succeeds instantly with
+ * metrics derived from its inputs, predictions are a stable hash of the
+ * model and the feature row, and jobs finish on their second poll.
+ */
+export function createMockGagaraBoost (options: MockGagaraBoostOptions = {}): MockGagaraBoost {
+  const state = emptyState()
+  const requests: MockRequest[] = []
+  let faults: Array<MockFault & { remaining: number }> = []
+  let trainingJobs = new Map<string, MockJob<TrainingJobStatus>>()
+  let searchJobs = new Map<string, MockJob<OptimalParamSearchJobStatus>>()
+  let uploads = new Map<string, UploadSession & { fields: Record<string, unknown>, chunks: Uint8Array[] }>()
+  let counters = new Map<string, number>()
+  let ticks = 0
+
+  const now = options.now ?? (() => new Date(Date.UTC(2024, 0, 1) + 1000 * ticks++))
+  const timestamp = (): string => now().toISOString()
+  const nextId = (prefix: string): string => {
+    const count = (counters.get(prefix) ?? 0) + 1
+    counters.set(prefix, count)
+    return `${prefix}-${count}`
+  }
+
+  // ----------------------------------------------------------
+  // Lookups
+  // ----------------------------------------------------------
+
+  const find = <T>(map: Map<string, T>, id: string | undefined, kind: string): T => {
+    const item = id === undefined ? undefined : map.get(id)
+    if (!item) {
+      throw new MockHttpError(404, `${kind} not found`)
+    }
+    return item
+  }
+
+  const defaultWorkspace = (user?: UserCreateResponse): Workspace => {
+    const existing = [...state.workspaces.values()].find((workspace) => workspace.is_default)
+    if (existing) {
+      return existing
+    }
+    const workspace: Workspace = {
+      id: nextId('ws'),
+      owner_user_id: user?.id ?? 'user-0',
+      name: 'Default',
+      is_default: true,
+      created_at: timestamp(),
+    }
+    state.workspaces.set(workspace.id, workspace)
+    return workspace
+  }
+
+  const datasetRows = async (id: string): Promise<Array<Record<string, unknown>>> => {
+    const file = find(state.files, id, 'Dataset')
+    try {
+      const rows = await parquetReadObjects({ file: arrayBuffer(file) })
+      return rows.map((row) => Object.fromEntries(Object.entries(row).map(([key, value]) => [key, jsonValue(value)])))
+    } catch {
+      throw new MockHttpError(422, 'Dataset file is not valid parquet')
+    }
+  }
+
+  const inspectDataset = async (id: string): Promise<{ schema: DatasetSchemaResponse, meta: DatasetMetaResponse }> => {
+    const file = find(state.files, id, 'Dataset')
+    try {
+      return await inspectParquet(file)
+    } catch {
+      throw new MockHttpError(422, 'Dataset file is not valid parquet')
+    }
+  }
+
+  const rowSetRows = async (rowSet: RowSet): Promise<Array<Record<string, unknown>>> => {
+    const rows = await datasetRows(rowSet.base_dataset_id)
+    const { predicate } = rowSet
+    return predicate ? rows.filter((row) => matches(row, predicate)) : rows
+  }
+
+  const storeDataset = (id: string, fields: Record<string, unknown>, file: Uint8Array, user?: UserCreateResponse): DatasetItem => {
+    const existing = state.datasets.get(id)
+    const workspaceId = existing?.workspace_id ?? optionalString(fields, 'workspace_id') ?? defaultWorkspace(user).id
+    find(state.workspaces, workspaceId, 'Workspace')
+    const created = timestamp()
+    const dataset: DatasetItem = {
+      id,
+      alias: existing?.alias ?? optionalString(fields, 'alias') ?? null,
+      workspace_id: workspaceId,
+      created_at: existing?.created_at ?? created,
+      modified_at: existing ? created : null,
+      file_size_bytes: file.byteLength,
+    }
+    state.datasets.set(id, dataset)
+    state.files.set(id, file)
+    return dataset
+  }
+
+  // ----------------------------------------------------------
+  // Training and prediction
+  // ----------------------------------------------------------
+
+  const train = (request: Record<string, unknown>): TrainingResponse => {
+    requireFields(request, ['workspace_id', 'row_set_id', 'column_set_id', 'training_param_set_id'])
+    const workspaceId = find(state.workspaces, stringField(request, 'workspace_id'), 'Workspace').id
+    const rowSetId = find(state.rowSets, stringField(request, 'row_set_id'), 'Row set').id
+    const columnSetId = find(state.columnSets, stringField(request, 'column_set_id'), 'Column set').id
+    const paramSet = find(state.trainingParamSets, stringField(request, 'training_param_set_id'), 'Training param set')
+    const seed = `${rowSetId}|${columnSetId}|${JSON.stringify(paramSet.params)}`
+    const metrics = Object.fromEntries(TRAINING_METRICS.map((metric) => [
+      metric,
+      round(metric === 'logloss' ? 0.2 + 0.4 * unitHash(`${seed}|${metric}`) : 0.6 + 0.35 * unitHash(`${seed}|${metric}`)),
+    ]))
+    const model: ModelDetail = {
+      id: nextId('model'),
+      workspace_id: workspaceId,
+      name: null,
+      created_at: timestamp(),
+      metrics,
+      row_set_id: rowSetId,
+      column_set_id: columnSetId,
+      training_param_set_id: paramSet.id,
+      training_seconds: round(1 + 9 * unitHash(`${seed}|seconds`)),
+    }
+    state.models.set(model.id, model)
+    return { status: 'success', id: model.id, metrics }
+  }
+
+  const optimalParamSearch = (request: Record<string, unknown>): OptimalParamSearchResponse => {
+    requireFields(request, ['row_set_id', 'column_set_id', 'objective'])
+    find(state.rowSets, stringField(request, 'row_set_id'), 'Row set')
+    find(state.columnSets, stringField(request, 'column_set_id'), 'Column set')
+    const trials = searchTrials(request)
+    const best = trials.reduce((a, b) => (b.score > a.score ? b : a))
+    return {
+      status: 'success',
+      metric_used: optionalString(request, 'metric') ?? 'auc',
+      trials_run: trials.length,
+      best_params: best.params,
+      best_score: best.score,
+      elapsed_seconds: trials.length,
+    }
+  }
+
+  const predictOne = (modelId: string, features: Record<string, unknown>): number =>
+    round(unitHash(`${modelId}|${canonicalJson(features)}`))
+
+  // ----------------------------------------------------------
+  // Jobs
+  // ----------------------------------------------------------
+
+  /** Queued when created, running on the first poll, done on the second */
+  const advance = async <TStatus extends TrainingJobStatus | OptimalParamSearchJobStatus>(job: MockJob<TStatus>): Promise<TStatus> => {
+    const { status } = job
+    if (status.status === 'queued' || status.status === 'running') {
+      job.polls++
+      status.updated_at = timestamp()
+      if (job.polls === 1) {
+        status.status = 'running'
+      } else {
+        try {
+          await job.run()
+          status.status = 'completed'
+        } catch (error) {
+          status.status = 'failed'
+          status.error = error instanceof Error ? error.message : String(error)
+        }
+      }
+    }
+    return status
+  }
+
+  const cancel = <TStatus extends TrainingJobStatus | OptimalParamSearchJobStatus>(job: MockJob<TStatus>): TStatus => {
+    if (job.status.status === 'queued' || job.status.status === 'running') {
+      job.status.status = 'cancelled'
+      job.status.updated_at = timestamp()
+    }
+    return job.status
+  }
+
+  // ----------------------------------------------------------
+  // Routes
+  // ----------------------------------------------------------
+
+  const routes: Array<[string, RegExp, Handler]> = [
+    ['GET', /^\/health$/, () => ({ status: 'ok' })],
+    ['POST', /^\/user\/new$/, () => {
+      const user = { id: nextId('user'), token: `token-${state.users.size + 1}` }
+      state.users.set(user.token, user)
+      return user
+    }],
+
+    // Workspaces
+    ['GET', /^\/workspaces$/, ({ query }) => list(state.workspaces, query)],
+    ['POST', /^\/workspaces$/, async ({ json, user }) => {
+      const body = await json()
+      requireFields(body, ['name'])
+      const workspace: Workspace = {
+        id: nextId('ws'),
+        owner_user_id: user?.id ?? 'user-0',
+        name: stringField(body, 'name'),
+        is_default: false,
+        created_at: timestamp(),
+      }
+      state.workspaces.set(workspace.id, workspace)
+      return workspace
+    }],
+    ['GET', /^\/workspaces\/([^/]+)$/, ({ params }) => find(state.workspaces, params[0], 'Workspace')],
+    ['PATCH', /^\/workspaces\/([^/]+)$/, async ({ params, json }) => {
+      const workspace = find(state.workspaces, params[0], 'Workspace')
+      const body = await json()
+      requireFields(body, ['name'])
+      workspace.name = stringField(body, 'name')
+      return workspace
+    }],
+    ['DELETE', /^\/workspaces\/([^/]+)$/, ({ params }) => {
+      find(state.workspaces, params[0], 'Workspace')
+      state.workspaces.delete(params[0])
+      // Everything in the workspace goes with it; column sets go with their datasets
+      for (const [id, dataset] of state.datasets) {
+        if (dataset.workspace_id === params[0]) {
+          deleteDataset(state, id)
+        }
+      }
+      for (const map of [state.rowSets, state.trainingParamSets, state.models]) {
+        for (const [id, item] of map) {
+          if (item.workspace_id === params[0]) {
+            map.delete(id)
+          }
+        }
+      }
+      return { status: 'deleted' }
+    }],
+
+    // Datasets
+    ['GET', /^\/datasets$/, ({ query }) => list(state.datasets, query, { workspace_id: query.get('workspace_id') }, 'alias')],
+    ['POST', /^\/datasets$/, async ({ request, user }) => {
+      const { fields, file } = await readUpload(request)
+      const dataset = storeDataset(nextId('ds'), fields, file, user)
+      return { dataset_id: dataset.id, created_at: dataset.created_at }
+    }],
+    ['GET', /^\/datasets\/([^/]+)$/, ({ params }) => find(state.datasets, params[0], 'Dataset')],
+    ['PATCH', /^\/datasets\/([^/]+)$/, async ({ params, json }) => {
+      const dataset = find(state.datasets, params[0], 'Dataset')
+      const body = await json()
+      requireFields(body, ['alias'])
+      dataset.alias = stringField(body, 'alias')
+      dataset.modified_at = timestamp()
+      return dataset
+    }],
+    ['DELETE', /^\/datasets\/([^/]+)$/, ({ params }) => {
+      find(state.datasets, params[0], 'Dataset')
+      deleteDataset(state, params[0])
+      return { status: 'deleted' }
+    }],
+    ['POST', /^\/datasets\/([^/]+)\/replace$/, async ({ params, request }) => {
+      find(state.datasets, params[0], 'Dataset')
+      const { fields, file } = await readUpload(request)
+      return storeDataset(params[0], fields, file)
+    }],
+    ['GET', /^\/datasets\/([^/]+)\/download$/, ({ params, request }) => {
+      const file = find(state.files, params[0], 'Dataset')
+      return download(file, request.headers.get('Range'))
+    }],
+    ['GET', /^\/datasets\/([^/]+)\/schema$/, async ({ params }) => (await inspectDataset(params[0])).schema],
+    ['GET', /^\/datasets\/([^/]+)\/meta$/, async ({ params }) => (await inspectDataset(params[0])).meta],
+    ['POST', /^\/datasets\/([^/]+)\/refresh$/, async ({ params }) => (await inspectDataset(params[0])).meta],
+    ['GET', /^\/datasets\/([^/]+)\/columns$/, ({ params }) => {
+      find(state.datasets, params[0], 'Dataset')
+      return [...state.datasetColumns.values()].filter((column) => column.dataset_id === params[0])
+    }],
+    ['POST', /^\/datasets\/([^/]+)\/columns$/, async ({ params, json }) => {
+      find(state.datasets, params[0], 'Dataset')
+      const body = await json()
+      requireFields(body, ['name', 'userInput', 'statistics'])
+      const column: StoredDatasetColumn = {
+        id: nextId('col'),
+        dataset_id: params[0],
+        name: stringField(body, 'name'),
+        userInput: objectField<DatasetColumnUserInput>(body, 'userInput'),
+        statistics: objectField<DatasetColumnStatistics>(body, 'statistics'),
+        created_at: timestamp(),
+      }
+      state.datasetColumns.set(column.id, column)
+      return column
+    }],
+    ['PATCH', /^\/datasets\/([^/]+)\/columns\/([^/]+)$/, async ({ params, json }) => {
+      const column = find(state.datasetColumns, params[1], 'Column')
+      if (column.dataset_id !== params[0]) {
+        throw new MockHttpError(404, 'Column not found')
+      }
+      Object.assign(column, withoutNulls(await json()))
+      return column
+    }],
+
+    // Uploads
+    ['POST', /^\/uploads$/, async ({ json }) => {
+      const fields = await json()
+      const replacing = optionalString(fields, 'dataset_id')
+      if (replacing !== undefined) {
+        find(state.datasets, replacing, 'Dataset')
+      }
+      const size = typeof fields.size === 'number' ? fields.size : null
+      const upload = { id: nextId('upload'), offset: 0, size, fields, chunks: [] }
+      uploads.set(upload.id, upload)
+      return Response.json(session(upload), { status: 201 })
+    }],
+    ['GET', /^\/uploads\/([^/]+)$/, ({ params }) => session(find(uploads, params[0], 'Upload'))],
+    ['PUT', /^\/uploads\/([^/]+)$/, async ({ params, request }) => {
+      const upload = find(uploads, params[0], 'Upload')
+      const start = Number(/^bytes (\d+)-/.exec(request.headers.get('Content-Range') ?? '')?.[1] ?? upload.offset)
+      if (start !== upload.offset) {
+        throw new MockHttpError(409, `Expected offset ${upload.offset}, got ${start}`)
+      }
+      const chunk = new Uint8Array(await request.arrayBuffer())
+      upload.chunks.push(chunk)
+      upload.offset += chunk.byteLength
+      return session(upload)
+    }],
+    ['DELETE', /^\/uploads\/([^/]+)$/, ({ params }) => {
+      find(uploads, params[0], 'Upload')
+      uploads.delete(params[0])
+      return { status: 'aborted' }
+    }],
+    ['POST', /^\/uploads\/([^/]+)\/complete$/, ({ params, user }) => {
+      const upload = find(uploads, params[0], 'Upload')
+      uploads.delete(upload.id)
+      const file = concat(upload.chunks)
+      const replacing = optionalString(upload.fields, 'dataset_id')
+      const dataset = storeDataset(replacing ?? nextId('ds'), upload.fields, file, user)
+      return replacing ? dataset : { dataset_id: dataset.id, created_at: dataset.created_at }
+    }],
+
+    // Row sets
+    ['GET', /^\/row-sets$/, ({ query }) => list(state.rowSets, query, { workspace_id: query.get('workspace_id') })],
+    ['POST', /^\/row-sets$/, async ({ json }) => {
+      const body = await json()
+      requireFields(body, ['name', 'workspace_id', 'base_dataset_id'])
+      const rowSet: RowSet = {
+        id: nextId('rs'),
+        workspace_id: find(state.workspaces, stringField(body, 'workspace_id'), 'Workspace').id,
+        name: stringField(body, 'name'),
+        base_dataset_id: find(state.datasets, stringField(body, 'base_dataset_id'), 'Dataset').id,
+        predicate: predicateField(body),
+        created_at: timestamp(),
+      }
+      state.rowSets.set(rowSet.id, rowSet)
+      return rowSet
+    }],
+    ['GET', /^\/row-sets\/([^/]+)$/, ({ params }) => find(state.rowSets, params[0], 'Row set')],
+    ['PATCH', /^\/row-sets\/([^/]+)$/, async ({ params, json }) => {
+      const rowSet = find(state.rowSets, params[0], 'Row set')
+      const body = await json()
+      const name = optionalString(body, 'name')
+      if (name) {
+        rowSet.name = name
+      }
+      if ('predicate' in body) {
+        rowSet.predicate = predicateField(body)
+      }
+      return rowSet
+    }],
+    ['DELETE', /^\/row-sets\/([^/]+)$/, ({ params }) => {
+      find(state.rowSets, params[0], 'Row set')
+      state.rowSets.delete(params[0])
+      return { status: 'deleted' }
+    }],
+    ['GET', /^\/row-sets\/([^/]+)\/schema$/, async ({ params }) => {
+      const rowSet = find(state.rowSets, params[0], 'Row set')
+      return (await inspectDataset(rowSet.base_dataset_id)).schema
+    }],
+    ['GET', /^\/row-sets\/([^/]+)\/meta$/, async ({ params }) => {
+      const rowSet = find(state.rowSets, params[0], 'Row set')
+      const { meta } = await inspectDataset(rowSet.base_dataset_id)
+      return { ...meta, row_count: (await rowSetRows(rowSet)).length }
+    }],
+    ['GET', /^\/row-sets\/([^/]+)\/sample$/, async ({ params }) => {
+      const rowSet = find(state.rowSets, params[0], 'Row set')
+      const { schema } = await inspectDataset(rowSet.base_dataset_id)
+      const [row] = await rowSetRows(rowSet)
+      return { row: row ?? null, columns: schema.columns.map((column) => column.name) }
+    }],
+
+    // Column sets
+    ['GET', /^\/column-sets$/, ({ query }) => {
+      const workspaceId = query.get('workspace_id')
+      const datasetIds = workspaceId === null
+        ? undefined
+        : new Set([...state.datasets.values()].filter((dataset) => dataset.workspace_id === workspaceId).map((dataset) => dataset.id))
+      return list(state.columnSets, query, { dataset_id: query.get('dataset_id') }, 'name', (item) => !datasetIds || datasetIds.has(item.dataset_id))
+    }],
+    ['POST', /^\/column-sets$/, async ({ json }) => {
+      const body = await json()
+      requireFields(body, ['dataset_id', 'name', 'column_to_predict', 'feature_columns'])
+      const columnSet: ColumnSet = {
+        id: nextId('cs'),
+        dataset_id: find(state.datasets, stringField(body, 'dataset_id'), 'Dataset').id,
+        name: stringField(body, 'name'),
+        column_to_predict: stringField(body, 'column_to_predict'),
+        feature_columns: arrayField(body, 'feature_columns') as ColumnSet['feature_columns'],
+        created_at: timestamp(),
+      }
+      state.columnSets.set(columnSet.id, columnSet)
+      return columnSet
+    }],
+    ['GET', /^\/column-sets\/([^/]+)$/, ({ params }) => find(state.columnSets, params[0], 'Column set')],
+    ['PATCH', /^\/column-sets\/([^/]+)$/, async ({ params, json }) => {
+      const columnSet = find(state.columnSets, params[0], 'Column set')
+      return Object.assign(columnSet, withoutNulls(await json()))
+    }],
+    ['DELETE', /^\/column-sets\/([^/]+)$/, ({ params }) => {
+      find(state.columnSets, params[0], 'Column set')
+      state.columnSets.delete(params[0])
+      return { status: 'deleted' }
+    }],
+    ['POST', /^\/column-sets\/([^/]+)\/clone$/, ({ params }) => {
+      const source = find(state.columnSets, params[0], 'Column set')
+      const clone: ColumnSet = {
+        ...structuredClone(source),
+        id: nextId('cs'),
+        name: `${source.name} (copy)`,
+        created_at: timestamp(),
+      }
+      state.columnSets.set(clone.id, clone)
+      return clone
+    }],
+
+    // Training param sets
+    ['GET', /^\/training-param-sets$/, ({ query }) => list(state.trainingParamSets, query, { workspace_id: query.get('workspace_id') })],
+    ['POST', /^\/training-param-sets$/, async ({ json }) => {
+      const body = await json()
+      requireFields(body, ['workspace_id', 'name', 'params'])
+      const paramSet: TrainingParamSet = {
+        id: nextId('ps'),
+        workspace_id: find(state.workspaces, stringField(body, 'workspace_id'), 'Workspace').id,
+        name: stringField(body, 'name'),
+        params: objectField(body, 'params'),
+        meta: body.meta == null ? null : objectField(body, 'meta'),
+        created_at: timestamp(),
+      }
+      state.trainingParamSets.set(paramSet.id, paramSet)
+      return paramSet
+    }],
+    ['GET', /^\/training-param-sets\/([^/]+)$/, ({ params }) => find(state.trainingParamSets, params[0], 'Training param set')],
+    ['PATCH', /^\/training-param-sets\/([^/]+)$/, async ({ params, json }) => {
+      const paramSet = find(state.trainingParamSets, params[0], 'Training param set')
+      return Object.assign(paramSet, withoutNulls(await json()))
+    }],
+    ['DELETE', /^\/training-param-sets\/([^/]+)$/, ({ params }) => {
+      find(state.trainingParamSets, params[0], 'Training param set')
+      state.trainingParamSets.delete(params[0])
+      return { status: 'deleted' }
+    }],
+
+    // Models
+    ['GET', /^\/models$/, ({ query }) => {
+      const datasetId = query.get('dataset_id')
+      return list(state.models, query, { workspace_id: query.get('workspace_id') }, 'name', (model) =>
+        datasetId === null || state.rowSets.get(model.row_set_id ?? '')?.base_dataset_id === datasetId)
+    }],
+    ['GET', /^\/models\/([^/]+)$/, ({ params }) => find(state.models, params[0], 'Model')],
+    ['PATCH', /^\/models\/([^/]+)$/, async ({ params, json }) => {
+      const model = find(state.models, params[0], 'Model')
+      const body = await json()
+      requireFields(body, ['name'])
+      model.name = stringField(body, 'name')
+      return model
+    }],
+    ['DELETE', /^\/models\/([^/]+)$/, ({ params }) => {
+      find(state.models, params[0], 'Model')
+      state.models.delete(params[0])
+      return { status: 'deleted' }
+    }],
+
+    // Actions
+    ['POST', /^\/train$/, async ({ json }) => train(await json())],
+    ['POST', /^\/train\/jobs$/, async ({ json }) => {
+      const request = await json()
+      requireFields(request, ['workspace_id', 'row_set_id', 'column_set_id', 'training_param_set_id'])
+      const status: TrainingJobStatus = { id: nextId('job'), status: 'queued', progress: 0, created_at: timestamp() }
+      trainingJobs.set(status.id, {
+        status,
+        polls: 0,
+        run: async () => {
+          status.result = train(request)
+          status.progress = 1
+        },
+      })
+      return Response.json(status, { status: 202 })
+    }],
+    ['GET', /^\/train\/jobs\/([^/]+)$/, ({ params }) => advance(find(trainingJobs, params[0], 'Job'))],
+    ['POST', /^\/train\/jobs\/([^/]+)\/cancel$/, ({ params }) => cancel(find(trainingJobs, params[0], 'Job'))],
+    ['POST', /^\/calculate-optimal-param-set$/, async ({ json }) => optimalParamSearch(await json())],
+    ['POST', /^\/calculate-optimal-param-set\/jobs$/, async ({ json }) => {
+      const request = await json()
+      requireFields(request, ['row_set_id', 'column_set_id', 'objective'])
+      const status: OptimalParamSearchJobStatus = { id: nextId('job'), status: 'queued', trials: [], created_at: timestamp() }
+      searchJobs.set(status.id, {
+        status,
+        polls: 0,
+        run: async () => {
+          status.result = optimalParamSearch(request)
+          status.trials = searchTrials(request).map((trial) => ({ ...trial, state: 'complete' }))
+          status.trials_run = status.trials.length
+          status.best_score = status.result.best_score
+        },
+      })
+      return Response.json(status, { status: 202 })
+    }],
+    ['GET', /^\/calculate-optimal-param-set\/jobs\/([^/]+)$/, ({ params }) => advance(find(searchJobs, params[0], 'Job'))],
+    ['POST', /^\/calculate-optimal-param-set\/jobs\/([^/]+)\/cancel$/, ({ params }) => cancel(find(searchJobs, params[0], 'Job'))],
+    ['POST', /^\/predict\/$/, async ({ query, json }) => {
+      const model = find(state.models, query.get('id') ?? undefined, 'Model')
+      const body = await json()
+      requireFields(body, ['features'])
+      const features = arrayField(body, 'features') as Array<Record<string, unknown>>
+      return { predictions: features.map((row) => predictOne(model.id, row)) }
+    }],
+    ['POST', /^\/predict-with-free-parameter\/$/, async ({ query, json }) => {
+      const model = find(state.models, query.get('id') ?? undefined, 'Model')
+      const body = await json()
+      requireFields(body, ['base_features'])
+      const single = optionalString(body, 'free_parameter_column')
+      const columns = body.free_parameter_columns == null
+        ? (single ? [single] : [])
+        : arrayField(body, 'free_parameter_columns').map(String)
+      const baseFeatures = objectField(body, 'base_features')
+      if (columns.length === 0) {
+        throw new MockHttpError(422, 'free_parameter_columns or free_parameter_column is required')
+      }
+      const rowSet = find(state.rowSets, model.row_set_id ?? undefined, 'Row set')
+      const rows = await datasetRows(rowSet.base_dataset_id)
+      const combinations = columns.reduce<Array<Record<string, unknown>>>((partial, column) => {
+        const values = [...new Set(rows.map((row) => row[column]).filter((value) => value !== null && value !== undefined))]
+        return partial.flatMap((base) => values.map((value) => ({ ...base, [column]: value })))
+      }, [{}])
+      return {
+        predictions: combinations.slice(0, 1000).map((values) => ({
+          values,
+          prediction: predictOne(model.id, { ...baseFeatures, ...values }),
+        })),
+      }
+    }],
+
+    // Query
+    ['POST', /^\/query$/, async ({ json }) => {
+      const body = await json()
+      requireFields(body, ['sql'])
+      const sql = stringField(body, 'sql')
+      return options.query ? options.query(sql, mock) : scanQuery(sql)
+    }],
+  ]
+
+  const session = (upload: UploadSession): UploadSession => ({ id: upload.id, offset: upload.offset, size: upload.size })
+
+  const scanQuery = async (sql: string): Promise<QueryResponse> => {
+    const page = /^\s*SELECT \* FROM \(([\s\S]*)\) AS page LIMIT (\d+) OFFSET (\d+)\s*$/i.exec(sql)
+    const inner = page ? page[1] : sql
+    const scan = /^\s*SELECT \* FROM "(dataset|row_set)_([^"]+)"(?:\s+LIMIT (\d+))?(?:\s+OFFSET (\d+))?\s*;?\s*$/i.exec(inner)
+    if (!scan) {
+      throw new MockHttpError(501, 'The mock server only runs SELECT * FROM <table>; pass a query handler for other SQL')
+    }
+    const [, kind, id, limit, offset] = scan
+    let rows = kind.toLowerCase() === 'dataset'
+      ? await datasetRows(find(state.datasets, id, 'Dataset').id)
+      : await rowSetRows(find(state.rowSets, id, 'Row set'))
+    const columns = rows.length > 0 ? Object.keys(rows[0]) : []
+    rows = rows.slice(Number(offset ?? 0), limit === undefined ? undefined : Number(offset ?? 0) + Number(limit))
+    if (page) {
+      rows = rows.slice(Number(page[3]), Number(page[3]) + Number(page[2]))
+    }
+    return { columns, rows }
+  }
+
+  const handle = async (request: Request): Promise<Response> => {
+    const url = new URL(request.url)
+    const routeMatches = routes
+      .map(([method, pattern, handler]) => ({ method, match: pattern.exec(url.pathname), handler }))
+      .filter(({ match }) => match !== null)
+    if (routeMatches.length === 0 || isDisabled(url.pathname)) {
+      throw new MockHttpError(404, 'Not Found')
+    }
+    const route = routeMatches.find(({ method }) => method === request.method)
+    if (!route) {
+      throw new MockHttpError(405, 'Method Not Allowed')
+    }
+
+    let user: UserCreateResponse | undefined
+    const token = /^Bearer (.+)$/.exec(request.headers.get('Authorization') ?? '')?.[1]
+    if (token) {
+      user = state.users.get(token)
+    }
+    if (options.requireAuth && !user && url.pathname !== '/user/new' && url.pathname !== '/health') {
+      throw new MockHttpError(401, 'Not authenticated')
+    }
+
+    const result = await route.handler({
+      params: route.match!.slice(1).map(decodeURIComponent),
+      query: url.searchParams,
+      request,
+      json: async () => jsonObject(parseBody(await request.text())),
+      user,
+    })
+    return result instanceof Response ? result : Response.json(result)
+  }
+
+  const isDisabled = (path: string): boolean =>
+    (options.jobs === false && /\/jobs(\/|$)/.test(path)) ||
+    (options.chunkedUploads === false && path.startsWith('/uploads'))
+
+  const mockFetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init)
+    request.signal.throwIfAborted()
+    const url = new URL(request.url)
+    const path = url.pathname + url.search
+    const text = request.method === 'GET' || request.method === 'HEAD' ? '' : await request.clone().text().catch(() => '')
+    requests.push({ method: request.method, path, body: isJsonRequest(request) ? parseBody(text) : undefined })
+
+    const fault = faults.find((candidate) => faultMatches(candidate, request.method, url.pathname))
+    if (fault) {
+      if (--fault.remaining <= 0) {
+        faults = faults.filter((candidate) => candidate !== fault)
+      }
+      if (fault.error !== undefined) {
+        throw fault.error
+      }
+      return Response.json(fault.body ?? { detail: 'Injected failure' }, {
+        status: fault.status ?? 500,
+        headers: fault.headers,
+      })
+    }
+
+    try {
+      return await handle(request)
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        return Response.json({ detail: error.detail }, { status: error.status })
+      }
+      throw error
+    }
+  }
+
+  const mock: MockGagaraBoost = Object.assign(mockFetch, {
+    state,
+    requests,
+    fail (fault: MockFault): void {
+      faults.push({ ...fault, remaining: fault.times ?? 1 })
+    },
+    reset (): void {
+      for (const map of Object.values(state)) {
+        map.clear()
+      }
+      requests.length = 0
+      faults = []
+      trainingJobs = new Map()
+      searchJobs = new Map()
+      uploads = new Map()
+      counters = new Map()
+      ticks = 0
+    },
+  })
+  return mock
+}
+
+function emptyState (): MockState {
+  return {
+    users: new Map(),
+    workspaces: new Map(),
+    datasets: new Map(),
+    files: new Map(),
+    datasetColumns: new Map(),
+    rowSets: new Map(),
+    columnSets: new Map(),
+    trainingParamSets: new Map(),
+    models: new Map(),
+  }
+}
+
+/** Deletes a dataset with its file, columns and column sets */
+function deleteDataset (state: MockState, id: string): void {
+  state.datasets.delete(id)
+  state.files.delete(id)
+  for (const [columnId, column] of state.datasetColumns) {
+    if (column.dataset_id === id) {
+      state.datasetColumns.delete(columnId)
+    }
+  }
+  for (const [columnSetId, columnSet] of state.columnSets) {
+    if (columnSet.dataset_id === id) {
+      state.columnSets.delete(columnSetId)
+    }
+  }
+}
+
+/**
+ * Lists a collection the way a paging-aware server would: a plain array
+ * without `limit`, a `{ items, next_cursor, total }` envelope with it.
+ */
+function list<T extends { id: string }> (
+  map: Map<string, T>,
+  query: URLSearchParams,
+  filters: Record<string, string | null> = {},
+  searchField = 'name',
+  predicate: (item: T) => boolean = () => true
+): unknown {
+  let items = [...map.values()].filter((item) =>
+    predicate(item) &&
+    Object.entries(filters).every(([field, value]) => value === null || (item as Record<string, unknown>)[field] === value))
+  items = sortItems(searchItems(items, query.get('search') ?? undefined, searchField), query.get('sort') ?? undefined)
+  const limit = query.get('limit')
+  if (limit === null) {
+    return items
+  }
+  const offset = Number(query.get('cursor') ?? query.get('offset') ?? 0)
+  const end = offset + Number(limit)
+  return {
+    items: items.slice(offset, end),
+    next_cursor: end < items.length ? String(end) : null,
+    total: items.length,
+  }
+}
+
+async function readUpload (request: Request): Promise<{ fields: Record<string, string>, file: Uint8Array }> {
+  const form = await request.formData().catch(() => {
+    throw new MockHttpError(422, 'Expected multipart/form-data')
+  })
+  const file = form.get('file')
+  if (!(file instanceof Blob)) {
+    throw new MockHttpError(422, [{ loc: ['body', 'file'], msg: 'Field required', type: 'missing' }])
+  }
+  const fields: Record<string, string> = {}
+  form.forEach((value, key) => {
+    if (typeof value === 'string') {
+      fields[key] = value
+    }
+  })
+  return { fields, file: new Uint8Array(await file.arrayBuffer()) }
+}
+
+function download (file: Uint8Array, range: string | null): Response {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/octet-stream',
+    'Accept-Ranges': 'bytes',
+  }
+  const requested = /^bytes=(\d+)-$/.exec(range ?? '')
+  if (!requested) {
+    return new Response(arrayBuffer(file), { headers: { ...headers, 'Content-Length': String(file.byteLength) } })
+  }
+  const start = Number(requested[1])
+  if (start >= file.byteLength) {
+    throw new MockHttpError(416, 'Range Not Satisfiable')
+  }
+  return new Response(arrayBuffer(file.subarray(start)), {
+    status: 206,
+    headers: {
+      ...headers,
+      'Content-Length': String(file.byteLength - start),
+      'Content-Range': `bytes ${start}-${file.byteLength - 1}/${file.byteLength}`,
+    },
+  })
+}
+
+function requireFields (body: Record<string, unknown>, fields: string[]): void {
+  const missing = fields.filter((field) => body[field] === undefined || body[field] === null)
+  if (missing.length > 0) {
+    throw new MockHttpError(422, missing.map((field) => ({ loc: ['body', field], msg: 'Field required', type: 'missing' })))
+  }
+}
+
+function parseBody (text: string): unknown {
+  if (!text) {
+    return {}
+  }
+  try {
+    return JSON.parse(text)
+  } catch {
+    throw new MockHttpError(422, 'Request body is not valid JSON')
+  }
+}
+
+function jsonObject (body: unknown): Record<string, unknown> {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new MockHttpError(422, 'Request body must be a JSON object')
+  }
+  return body as Record<string, unknown>
+}
+
+/** Answers 422 the way the server's request validation does */
+function invalidField (field: string, msg: string, type: string): MockHttpError {
+  return new MockHttpError(422, [{ loc: ['body', field], msg, type }])
+}
+
+function stringField (body: Record<string, unknown>, field: string): string {
+  const value = body[field]
+  if (typeof value !== 'string') {
+    throw invalidField(field, 'Input should be a valid string', 'string_type')
+  }
+  return value
+}
+
+function optionalString (body: Record<string, unknown>, field: string): string | undefined {
+  return body[field] === undefined || body[field] === null ? undefined : stringField(body, field)
+}
+
+/** Checks only that the field is an object; the mock trusts its contents to be `T` */
+function objectField<T = Record<string, unknown>> (body: Record<string, unknown>, field: string): T {
+  const value = body[field]
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw invalidField(field, 'Input should be a valid dictionary', 'dict_type')
+  }
+  return value as T
+}
+
+function arrayField (body: Record<string, unknown>, field: string): unknown[] {
+  const value = body[field]
+  if (!Array.isArray(value)) {
+    throw invalidField(field, 'Input should be a valid list', 'list_type')
+  }
+  return value
+}
+
+/** A row set's predicate as stored, or null when there is none */
+function predicateField (body: Record<string, unknown>): PredicateNode | null {
+  if (body.predicate === undefined || body.predicate === null) {
+    return null
+  }
+  try {
+    return parsePredicate(body.predicate).toJSON()
+  } catch (error) {
+    throw invalidField('predicate', error instanceof Error ? error.message : String(error), 'value_error')
+  }
+}
+
+function isJsonRequest (request: Request): boolean {
+  return request.headers.get('Content-Type')?.includes('application/json') ?? false
+}
+
+function faultMatches (fault: MockFault, method: string, path: string): boolean {
+  if (fault.method && fault.method.toUpperCase() !== method) {
+    return false
+  }
+  if (fault.path === undefined) {
+    return true
+  }
+  return typeof fault.path === 'string' ? fault.path === path : fault.path.test(path)
+}
+
+function withoutNulls (body: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(body).filter(([, value]) => value !== null && value !== undefined))
+}
+
+/** Evaluates a stored predicate against one row, with SQL NULL semantics */
+function matches (row: Record<string, unknown>, node: PredicateNode): boolean {
+  return predicateClauses(node).every((clause) => {
+    switch (clause.op) {
+      case '$and': return clause.nodes.every((child) => matches(row, child))
+      case '$or': return clause.nodes.some((child) => matches(row, child))
+      case '$not': return !matches(row, clause.node)
+    }
+    const actual = row[clause.column] as PredicateValue | undefined
+    const { value } = clause
+    if (value === null && (clause.op === '$eq' || clause.op === '$ne')) {
+      return (actual === null || actual === undefined) === (clause.op === '$eq')
+    }
+    if (actual === null || actual === undefined) {
+      return false
+    }
+    if (Array.isArray(value)) {
+      return (clause.op === '$in') === value.includes(actual)
+    }
+    if (value === null) {
+      return false
+    }
+    switch (clause.op) {
+      case '$eq': return actual === value
+      case '$ne': return actual !== value
+      case '$gt': return compare(actual, value) > 0
+      case '$gte': return compare(actual, value) >= 0
+      case '$lt': return compare(actual, value) < 0
+      case '$lte': return compare(actual, value) <= 0
+      case '$like': return likePattern(String(value)).test(String(actual))
+      default: return false
+    }
+  })
+}
+
+/** -1, 0 or 1 like a comparator; NaN when the values do not compare, as SQL NULL would not */
+function compare (actual: Exclude<PredicateValue, null>, expected: PredicateValue): number {
+  if (expected === null) {
+    return Number.NaN
+  }
+  return actual < expected ? -1 : actual > expected ? 1 : actual === expected ? 0 : Number.NaN
+}
+
+function likePattern (pattern: string): RegExp {
+  const source = [...pattern].map((char) => {
+    if (char === '%') {
+      return '.*'
+    }
+    if (char === '_') {
+      return '.'
+    }
+    return char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  }).join('')
+  return new RegExp(`^${source}$`, 's')
+}
+
+function searchTrials (request: Record<string, unknown>): Array<{ number: number, params: Record<string, unknown>, score: number }> {
+  const seed = `${request.row_set_id}|${request.column_set_id}|${request.objective}`
+  return [15, 31, 63].map((leaves, index) => ({
+    number: index,
+    params: { num_leaves: leaves, learning_rate: 0.05 * (index + 1) },
+    score: round(0.6 + 0.35 * unitHash(`${seed}|${index}`)),
+  }))
+}
+
+/** FNV-1a of `text`, scaled into [0, 1) */
+function unitHash (text: string): number {
+  let hash = 0x811c9dc5
+  for (let index = 0; index < text.length; index++) {
+    hash ^= text.charCodeAt(index)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0) / 2 ** 32
+}
+
+function round (value: number): number {
+  return Math.round(value * 1e6) / 1e6
+}
+
+/** Parquet values as the server's JSON would carry them */
+function jsonValue (value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString()
+  }
+  if (value instanceof Date) {
+    return value.toISOString()
+  }
+  return value
+}
+
+function arrayBuffer (bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer
+}
@@ -0,0 +1,292 @@
+import type { GagaraBoostClient } from './client.js'
+import type {
+  ModelDetail,
+  PipelineDatasetSpec,
+  PipelineIds,
+  PipelineOptions,
+  PipelineResult,
+  PipelineSpec,
+  PipelineStepEvent,
+  PipelineStepName,
+  RequestOptions,
+  TrainingRequest,
+} from './types.js'
+import type { TrainingJob } from './jobs.js'
+import { isTerminalJobState } from './jobs.js'
+import { PipelineError } from './types.js'
+import { canonicalJson } from './util.js'
+
+interface StepOutcome {
+  id: string
+  name?: string | null
+  created: boolean
+}
+
+/**
+ * Runs the workspace → dataset → row set → column set → params → model
+ * chain, reusing each resource that already exists by name so the same spec
+ * can be run again safely. A reused resource whose settings differ from the
+ * spec fails its step rather than being trained on silently. When a step
+ * fails, resources created by this run are deleted in reverse order, and a
+ * training job it started is cancelled, before the PipelineError is thrown.
+ */
+export async function runPipeline (
+  client: GagaraBoostClient,
+  spec: PipelineSpec,
+  options: PipelineOptions = {}
+): Promise<PipelineResult> {
+  const { onStep, cleanup = true, signal, timeout } = options
+  const requestOptions = { signal, timeout }
+  const ids: Partial<PipelineIds> = {}
+  const created: Array<{ step: PipelineStepName, id: string }> = []
+  const steps: PipelineStepEvent[] = []
+  let job: TrainingJob | undefined
+  const report = (event: PipelineStepEvent): void => {
+    steps.push(event)
+    onStep?.(event)
+  }
+
+  let step: PipelineStepName = 'workspace'
+  const run = async (name: PipelineStepName, action: () => Promise<StepOutcome>): Promise<string> => {
+    step = name
+    const outcome = await action()
+    if (outcome.created) {
+      created.push({ step: name, id: outcome.id })
+    }
+    report({ step: name, status: outcome.created ? 'created' : 'reused', id: outcome.id, name: outcome.name })
+    return outcome.id
+  }
+
+  try {
+    const workspaceId = ids.workspaceId = await run('workspace', () => resolveWorkspace(client, spec.workspace, requestOptions))
+    const datasetId = ids.datasetId = await run('dataset', () => resolveDataset(client, workspaceId, spec.dataset, requestOptions))
+
+    ids.rowSetId = await run('rowSet', async () => {
+      const { name, predicate } = spec.rowSet
+      const existing = await findByName(
+        client.iterateRowSets(workspaceId, { ...requestOptions, search: name }),
+        (rowSet) => rowSet.name === name && rowSet.base_dataset_id === datasetId
+      )
+      if (existing) {
+        checkDrift('Row set', name, existing, { predicate: predicate ?? null }, ['predicate'])
+        return { id: existing.id, name, created: false }
+      }
+      const rowSet = await client.createRowSet({
+        workspace_id: workspaceId,
+        base_dataset_id: datasetId,
+        name,
+        predicate,
+      }, requestOptions)
+      return { id: rowSet.id, name, created: true }
+    })
+
+    ids.columnSetId = await run('columnSet', async () => {
+      const { name } = spec.columnSet
+      const existing = await findByName(
+        client.iterateColumnSets({ datasetId }, { ...requestOptions, search: name }),
+        (columnSet) => columnSet.name === name
+      )
+      if (existing) {
+        checkDrift('Column set', name, existing, spec.columnSet, ['column_to_predict', 'feature_columns'])
+        return { id: existing.id, name, created: false }
+      }
+      const columnSet = await client.createColumnSet({ ...spec.columnSet, dataset_id: datasetId }, requestOptions)
+      return { id: columnSet.id, name, created: true }
+    })
+
+    ids.trainingParamSetId = await run('params', async () => {
+      const { name } = spec.params
+      const existing = await findByName(
+        client.iterateTrainingParamSets(workspaceId, { ...requestOptions, search: name }),
+        (paramSet) => paramSet.name === name
+      )
+      if (existing) {
+        checkDrift('Param set', name, existing, spec.params, spec.params.meta === undefined ? ['params'] : ['params', 'meta'])
+        return { id: existing.id, name, created: false }
+      }
+      const paramSet = await client.createTrainingParamSet({ ...spec.params, workspace_id: workspaceId }, requestOptions)
+      return { id: paramSet.id, name, created: true }
+    })
+
+    let model: ModelDetail | undefined
+    ids.modelId = await run('model', async () => {
+      const request: TrainingRequest = {
+        workspace_id: workspaceId,
+        row_set_id: ids.rowSetId!,
+        column_set_id: ids.columnSetId!,
+        training_param_set_id: ids.trainingParamSetId!,
+        time_budget_seconds: spec.training?.time_budget_seconds,
+      }
+      const modelName = spec.training?.modelName
+      if (modelName) {
+        model = await findByName(
+          client.iterateModels({ workspaceId }, { ...requestOptions, search: modelName }),
+          (candidate) => candidate.name === modelName &&
+            candidate.row_set_id === request.row_set_id &&
+            candidate.column_set_id === request.column_set_id &&
+            candidate.training_param_set_id === request.training_param_set_id
+        )
+        if (model) {
+          return { id: model.id, name: modelName, created: false }
+        }
+      }
+
+      let trained: { id: string }
+      if (spec.training?.job) {
+        job = await client.startTraining(request, requestOptions)
+        trained = await job.wait({ pollInterval: spec.training.pollInterval, signal })
+        job = undefined
+      } else {
+        trained = await client.train(request, requestOptions)
+      }
+      try {
+        model = modelName
+          ? await client.renameModel(trained.id, modelName, requestOptions)
+          : await client.getModel(trained.id, requestOptions)
+      } catch (error) {
+        // The model exists even though the step failed, so cleanup must see it
+        created.push({ step: 'model', id: trained.id })
+        throw error
+      }
+      return { id: model.id, name: model.name, created: true }
+    })
+
+    return {
+      model: model!,
+      ids: ids as PipelineIds,
+      created: created.map((entry) => entry.step),
+      steps,
+    }
+  } catch (error) {
+    report({ step, status: 'failed', error })
+    const cleanupErrors = cleanup ? await removeCreated(client, created, job, report, timeout) : []
+    const reason = error instanceof Error ? error.message : String(error)
+    throw new PipelineError(`Pipeline failed at step ${step}: ${reason}`, step, ids, cleanupErrors, error)
+  }
+}
+
+async function resolveWorkspace (
+  client: GagaraBoostClient,
+  workspace: PipelineSpec['workspace'],
+  options: RequestOptions
+): Promise<StepOutcome> {
+  if ('id' in workspace) {
+    const existing = await client.getWorkspace(workspace.id, options)
+    return { id: existing.id, name: existing.name, created: false }
+  }
+  const { name } = workspace
+  const existing = await findByName(
+    client.iterateWorkspaces({ ...options, search: name }),
+    (candidate) => candidate.name === name
+  )
+  if (existing) {
+    return { id: existing.id, name, created: false }
+  }
+  const createdWorkspace = await client.createWorkspace(name, options)
+  return { id: createdWorkspace.id, name, created: true }
+}
+
+async function resolveDataset (
+  client: GagaraBoostClient,
+  workspaceId: string,
+  spec: PipelineDatasetSpec,
+  options: RequestOptions
+): Promise<StepOutcome> {
+  if ('id' in spec) {
+    const existing = await client.getDataset(spec.id, options)
+    return { id: existing.id, name: existing.alias, created: false }
+  }
+  const { alias, file, records, csv, ...uploadOptions } = spec
+  const existing = await findByName(
+    client.iterateDatasets(workspaceId, { ...options, search: alias }),
+    (dataset) => dataset.alias === alias
+  )
+  if (existing) {
+    return { id: existing.id, name: alias, created: false }
+  }
+
+  const sources = [file, records, csv].filter((source) => source !== undefined)
+  if (sources.length !== 1) {
+    throw new TypeError(`Dataset "${alias}" does not exist yet; pass exactly one of file, records or csv to create it`)
+  }
+  const upload = { ...uploadOptions, ...options, workspaceId, alias }
+  let response
+  if (file !== undefined) {
+    response = await client.uploadDataset(file, upload)
+  } else if (records !== undefined) {
+    response = await client.uploadRecords(records, upload)
+  } else {
+    response = await client.uploadCsv(csv!, upload)
+  }
+  return { id: response.dataset_id, name: alias, created: true }
+}
+
+/** Refuses a reused resource whose `fields` differ from the spec */
+function checkDrift (
+  label: string,
+  name: string,
+  existing: object,
+  desired: object,
+  fields: string[]
+): void {
+  const before = existing as Record<string, unknown>
+  const after = desired as Record<string, unknown>
+  const drifted = fields.filter((key) => canonicalJson(before[key] ?? null) !== canonicalJson(after[key] ?? null))
+  if (drifted.length > 0) {
+    throw new TypeError(
+      `${label} "${name}" exists with a different ${drifted.join(', ')}; rename it in the spec or update it first`
+    )
+  }
+}
+
+async function findByName<T> (
+  items: AsyncIterable<T>,
+  matches: (item: T) => boolean
+): Promise<T | undefined> {
+  for await (const item of items) {
+    if (matches(item)) {
+      return item
+    }
+  }
+  return undefined
+}
+
+/**
+ * Cancels the training job the failed run left unfinished, then deletes what
+ * it created, newest first. The caller's signal is not used: cleanup should
+ * still run after the caller aborted.
+ */
+async function removeCreated (
+  client: GagaraBoostClient,
+  created: Array<{ step: PipelineStepName, id: string }>,
+  job: TrainingJob | undefined,
+  report: (event: PipelineStepEvent) => void,
+  timeout: number | undefined
+): Promise<unknown[]> {
+  const errors: unknown[] = []
+  const options = { timeout }
+  if (job && !(job.lastStatus && isTerminalJobState(job.lastStatus.status))) {
+    try {
+      await job.cancel(options)
+    } catch (error) {
+      errors.push(error)
+    }
+  }
+  const remove: Record<PipelineStepName, (id: string) => Promise<unknown>> = {
+    workspace: (id) => client.deleteWorkspace(id, options),
+    dataset: (id) => client.deleteDataset(id, options),
+    rowSet: (id) => client.deleteRowSet(id, options),
+    columnSet: (id) => client.deleteColumnSet(id, options),
+    params: (id) => client.deleteTrainingParamSet(id, options),
+    model: (id) => client.deleteModel(id, options),
+  }
+  for (const { step, id } of [...created].reverse()) {
+    try {
+      await remove[step](id)
+      report({ step, status: 'deleted', id })
+    } catch (error) {
+      errors.push(error)
+    }
+  }
+  return errors
+}
@@ -0,0 +1,269 @@
+import type {
+  DatasetColumn,
+  DatasetSchemaResponse,
+  PredicateInput,
+  PredicateIssue,
+  PredicateNode,
+  PredicateValidationResult,
+  PredicateValue,
+} from './types.js'
+import type { PredicateClause } from './predicate.js'
+import { parsePredicate, predicateClauses } from './predicate.js'
+
+type ColumnKind = 'numeric' | 'string' | 'boolean' | 'temporal' | 'other'
+
+type ColumnClause = Extract<PredicateClause, { column: string }>
+
+interface Bound {
+  value: number
+  inclusive: boolean
+}
+
+const NUMERIC_TYPE = /^(u?(tiny|small|big|huge)?int(eger)?\d*|int\d+|float\d*|double( precision)?|real|decimal|numeric)\b/i
+const STRING_TYPE = /^(varchar|char|bpchar|text|string|uuid|enum)\b/i
+const BOOLEAN_TYPE = /^(bool|boolean|logical)\b/i
+const TEMPORAL_TYPE = /^(date|time|timestamp|datetime|interval)\b/i
+
+export function columnKind (dataType: string): ColumnKind {
+  const type = dataType.trim()
+  if (NUMERIC_TYPE.test(type)) {
+    return 'numeric'
+  }
+  if (STRING_TYPE.test(type)) {
+    return 'string'
+  }
+  if (BOOLEAN_TYPE.test(type)) {
+    return 'boolean'
+  }
+  if (TEMPORAL_TYPE.test(type)) {
+    return 'temporal'
+  }
+  return 'other'
+}
+
+/**
+ * Checks a predicate against a dataset schema without calling the server.
+ * Reports unknown columns, values that do not fit the column type and
+ * conditions that can never match.
+ */
+export function validatePredicate (
+  predicate: PredicateInput,
+  schema: DatasetSchemaResponse
+): PredicateValidationResult {
+  let node: PredicateNode
+  try {
+    node = parsePredicate(predicate).toJSON()
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    return { valid: false, issues: [{ code: 'invalid_predicate', path: 'predicate', message }] }
+  }
+
+  const columns = new Map(schema.columns.map((column) => [column.name, column]))
+  const issues: PredicateIssue[] = []
+  visit(node, 'predicate', columns, issues)
+  return { valid: issues.length === 0, issues }
+}
+
+function visit (
+  node: PredicateNode,
+  path: string,
+  columns: Map<string, DatasetColumn>,
+  issues: PredicateIssue[],
+  conjunct = false
+): void {
+  const byColumn = new Map<string, ColumnClause[]>()
+  for (const clause of predicateClauses(node)) {
+    switch (clause.op) {
+      case '$and':
+      case '$or':
+        clause.nodes.forEach((child, index) =>
+          visit(child, `${path}.${clause.op}[${index}]`, columns, issues, clause.op === '$and'))
+        break
+      case '$not':
+        visit(clause.node, `${path}.$not`, columns, issues)
+        break
+      default:
+        byColumn.set(clause.column, [...byColumn.get(clause.column) ?? [], clause])
+    }
+  }
+  for (const [name, clauses] of byColumn) {
+    checkColumn(name, clauses, `${path}.${name}`, columns, issues)
+  }
+  // Nested $and nodes are checked together with the node that holds them
+  if (!conjunct) {
+    checkConjunctionBounds(conjunctiveClauses(node), path, columns, issues)
+  }
+}
+
+function checkColumn (
+  name: string,
+  clauses: ColumnClause[],
+  path: string,
+  columns: Map<string, DatasetColumn>,
+  issues: PredicateIssue[]
+): void {
+  const column = columns.get(name)
+  if (!column) {
+    issues.push({
+      code: 'unknown_column',
+      path,
+      column: name,
+      message: `Unknown column "${name}"`,
+    })
+    return
+  }
+
+  const kind = columnKind(column.data_type)
+  for (const { op, value } of clauses) {
+    if (value === null && (op === '$eq' || op === '$ne')) {
+      if (op === '$eq' && !column.nullable) {
+        issues.push({
+          code: 'impossible_range',
+          path,
+          column: name,
+          message: `Column "${name}" is not nullable, so IS NULL never matches`,
+        })
+      }
+      continue
+    }
+
+    if (op === '$like' && kind !== 'string' && kind !== 'other') {
+      issues.push({
+        code: 'type_mismatch',
+        path,
+        column: name,
+        message: `LIKE needs a string column, "${name}" is ${column.data_type}`,
+      })
+      return
+    }
+
+    const values = Array.isArray(value) ? value : [value]
+    const mismatch = values.find((item) => item !== null && !fitsKind(item, kind))
+    if (mismatch !== undefined) {
+      issues.push({
+        code: 'type_mismatch',
+        path,
+        column: name,
+        message: `Value ${JSON.stringify(mismatch)} does not match column "${name}" of type ${column.data_type}`,
+      })
+      return
+    }
+
+    if (op === '$in' && values.length === 0) {
+      issues.push({
+        code: 'impossible_range',
+        path,
+        column: name,
+        message: 'IN with an empty list never matches',
+      })
+    }
+  }
+}
+
+/** Column clauses that must all hold: the node's own and those of nested `$and` nodes */
+function conjunctiveClauses (node: PredicateNode): ColumnClause[] {
+  return predicateClauses(node).flatMap((clause) => {
+    if (clause.op === '$and') {
+      return clause.nodes.flatMap(conjunctiveClauses)
+    }
+    return 'column' in clause ? [clause] : []
+  })
+}
+
+function fitsKind (value: PredicateValue, kind: ColumnKind): boolean {
+  switch (kind) {
+    case 'numeric':
+      return typeof value === 'number'
+    case 'string':
+      return typeof value === 'string'
+    case 'boolean':
+      return typeof value === 'boolean'
+    case 'temporal':
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value))
+    default:
+      return true
+  }
+}
+
+function compareValues (a: PredicateValue | undefined, b: PredicateValue | undefined): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a < b ? -1 : a > b ? 1 : 0
+  }
+  return 0
+}
+
+/**
+ * Conditions that must all hold need overlapping numeric bounds on each
+ * column, e.g. `age > 65 AND age < 18` can never match.
+ */
+function checkConjunctionBounds (
+  clauses: ColumnClause[],
+  path: string,
+  columns: Map<string, DatasetColumn>,
+  issues: PredicateIssue[]
+): void {
+  const bounds = new Map<string, { lower?: Bound, upper?: Bound, count: number }>()
+
+  for (const { column, op, value } of clauses) {
+    if (!columns.has(column) || typeof value !== 'number') {
+      continue
+    }
+    const range = bounds.get(column) ?? { count: 0 }
+    range.count++
+    switch (op) {
+      case '$gt':
+      case '$gte':
+        range.lower = tighterLower(range.lower, { value, inclusive: op === '$gte' })
+        break
+      case '$lt':
+      case '$lte':
+        range.upper = tighterUpper(range.upper, { value, inclusive: op === '$lte' })
+        break
+      case '$eq':
+        range.lower = tighterLower(range.lower, { value, inclusive: true })
+        range.upper = tighterUpper(range.upper, { value, inclusive: true })
+        break
+    }
+    bounds.set(column, range)
+  }
+
+  for (const [column, { lower, upper, count }] of bounds) {
+    // A single condition is already checked on its own
+    if (!lower || !upper || count < 2) {
+      continue
+    }
+    const empty = lower.value > upper.value ||
+      (lower.value === upper.value && !(lower.inclusive && upper.inclusive))
+    if (empty) {
+      issues.push({
+        code: 'impossible_range',
+        path,
+        column,
+        message: `Conditions on "${column}" cannot all hold`,
+      })
+    }
+  }
+}
+
+function tighterLower (current: Bound | undefined, next: Bound): Bound {
+  if (!current || next.value > current.value) {
+    return next
+  }
+  if (next.value === current.value) {
+    return { value: next.value, inclusive: current.inclusive && next.inclusive }
+  }
+  return current
+}
+
+function tighterUpper (current: Bound | undefined, next: Bound): Bound {
+  if (!current || next.value < current.value) {
+    return next
+  }
+  if (next.value === current.value) {
+    return { value: next.value, inclusive: current.inclusive && next.inclusive }
+  }
+  return current
+}
@@ -0,0 +1,338 @@
+import type {
+  ColumnCondition,
+  ComparisonOperator,
+  PredicateNode,
+  PredicateValue,
+} from './types.js'
+
+const COMPARISON_OPERATORS: ReadonlySet<ComparisonOperator> = new Set([
+  '$eq',
+  '$ne',
+  '$gt',
+  '$gte',
+  '$lt',
+  '$lte',
+  '$in',
+  '$nin',
+  '$like',
+])
+
+const SQL_OPERATORS: Partial<Record<ComparisonOperator, string>> = {
+  $eq: '=',
+  $ne: '<>',
+  $gt: '>',
+  $gte: '>=',
+  $lt: '<',
+  $lte: '<=',
+  $like: 'LIKE',
+}
+
+/**
+ * One condition a predicate node requires: a logical combination of nodes,
+ * or a single operator applied to a column.
+ */
+export type PredicateClause =
+  | { op: '$and', nodes: PredicateNode[] }
+  | { op: '$or', nodes: PredicateNode[] }
+  | { op: '$not', node: PredicateNode }
+  | { op: ComparisonOperator, column: string, value: PredicateValue | PredicateValue[] }
+
+/**
+ * Immutable row-set predicate. Serializes to the server's predicate format
+ * through `toJSON()`, so it can be passed as `RowSetCreate.predicate` directly.
+ */
+export class Predicate {
+  readonly #node: PredicateNode
+
+  constructor (node: PredicateNode) {
+    this.#node = node
+  }
+
+  and (...others: Predicate[]): Predicate {
+    return combine('$and', [this, ...others])
+  }
+
+  or (...others: Predicate[]): Predicate {
+    return combine('$or', [this, ...others])
+  }
+
+  not (): Predicate {
+    return new Predicate({ $not: this.#node })
+  }
+
+  toJSON (): PredicateNode {
+    return this.#node
+  }
+
+  /** Renders the predicate as a DuckDB boolean expression, for debugging with `query()` */
+  toSQL (): string {
+    return renderSQL(this.#node, true)
+  }
+
+  toString (): string {
+    return this.toSQL()
+  }
+}
+
+export class ColumnRef {
+  constructor (readonly column: string) {}
+
+  eq (value: PredicateValue): Predicate {
+    return this.#compare({ $eq: value })
+  }
+
+  ne (value: PredicateValue): Predicate {
+    return this.#compare({ $ne: value })
+  }
+
+  gt (value: PredicateValue): Predicate {
+    return this.#compare({ $gt: value })
+  }
+
+  gte (value: PredicateValue): Predicate {
+    return this.#compare({ $gte: value })
+  }
+
+  lt (value: PredicateValue): Predicate {
+    return this.#compare({ $lt: value })
+  }
+
+  lte (value: PredicateValue): Predicate {
+    return this.#compare({ $lte: value })
+  }
+
+  in (values: PredicateValue[]): Predicate {
+    return this.#compare({ $in: [...values] })
+  }
+
+  notIn (values: PredicateValue[]): Predicate {
+    return this.#compare({ $nin: [...values] })
+  }
+
+  between (low: PredicateValue, high: PredicateValue): Predicate {
+    return this.#compare({ $gte: low, $lte: high })
+  }
+
+  like (pattern: string): Predicate {
+    return this.#compare({ $like: pattern })
+  }
+
+  isNull (): Predicate {
+    return this.#compare({ $eq: null })
+  }
+
+  isNotNull (): Predicate {
+    return this.#compare({ $ne: null })
+  }
+
+  #compare (condition: ColumnCondition): Predicate {
+    return new Predicate({ [this.column]: condition })
+  }
+}
+
+export function where (column: string): ColumnRef {
+  return new ColumnRef(column)
+}
+
+export function and (...predicates: Predicate[]): Predicate {
+  return combine('$and', predicates)
+}
+
+export function or (...predicates: Predicate[]): Predicate {
+  return combine('$or', predicates)
+}
+
+export function not (predicate: Predicate): Predicate {
+  return predicate.not()
+}
+
+/**
+ * Turns a stored predicate (e.g. `RowSet.predicate`) back into a builder.
+ * Throws a TypeError describing the first malformed node.
+ */
+export function parsePredicate (input: unknown): Predicate {
+  if (input instanceof Predicate) {
+    return input
+  }
+  if (hasToJSON(input)) {
+    return new Predicate(parseNode(input.toJSON(), 'predicate'))
+  }
+  return new Predicate(parseNode(input, 'predicate'))
+}
+
+/**
+ * Lists the clauses of a parsed node, which must all hold. A column compared
+ * to a bare value is an `$eq` clause.
+ */
+export function predicateClauses (node: PredicateNode): PredicateClause[] {
+  return Object.entries(node).flatMap(([key, value]): PredicateClause[] => {
+    if (key === '$and' || key === '$or') {
+      return [{ op: key, nodes: value as PredicateNode[] }]
+    }
+    if (key === '$not') {
+      return [{ op: key, node: value as PredicateNode }]
+    }
+    if (!isPlainObject(value)) {
+      return [{ op: '$eq', column: key, value: value as PredicateValue }]
+    }
+    return Object.entries(value).map(([op, operand]) => ({
+      op: op as ComparisonOperator,
+      column: key,
+      value: operand as PredicateValue | PredicateValue[],
+    }))
+  })
+}
+
+function combine (kind: '$and' | '$or', predicates: Predicate[]): Predicate {
+  if (predicates.length === 1) {
+    return predicates[0]
+  }
+  const nodes = predicates.flatMap((predicate) => {
+    const node = predicate.toJSON()
+    const children = node[kind]
+    return Object.keys(node).length === 1 && Array.isArray(children) ? children : [node]
+  })
+  return new Predicate({ [kind]: nodes })
+}
+
+function parseNode (input: unknown, path: string): PredicateNode {
+  if (!isPlainObject(input)) {
+    throw new TypeError(`${path}: expected an object`)
+  }
+  const entries = Object.entries(input)
+  if (entries.length === 0) {
+    throw new TypeError(`${path}: expected at least one condition`)
+  }
+
+  const node: PredicateNode = {}
+  for (const [key, value] of entries) {
+    if (key === '$and' || key === '$or') {
+      if (!Array.isArray(value) || value.length === 0) {
+        throw new TypeError(`${path}.${key}: expected a non-empty array`)
+      }
+      node[key] = value.map((child, index) => parseNode(child, `${path}.${key}[${index}]`))
+    } else if (key === '$not') {
+      node.$not = parseNode(value, `${path}.$not`)
+    } else if (key.startsWith('$')) {
+      throw new TypeError(`${path}.${key}: unknown operator`)
+    } else if (isPlainObject(value)) {
+      node[key] = parseCondition(value, `${path}.${key}`)
+    } else if (isPredicateValue(value)) {
+      node[key] = value
+    } else {
+      throw new TypeError(`${path}.${key}: expected a value or an operator object`)
+    }
+  }
+  return node
+}
+
+function parseCondition (input: Record<string, unknown>, path: string): ColumnCondition {
+  const entries = Object.entries(input)
+  if (entries.length === 0) {
+    throw new TypeError(`${path}: expected at least one operator`)
+  }
+  const condition: Record<string, PredicateValue | PredicateValue[]> = {}
+  for (const [op, value] of entries) {
+    if (!COMPARISON_OPERATORS.has(op as ComparisonOperator)) {
+      throw new TypeError(`${path}.${op}: unknown operator`)
+    }
+    if (op === '$in' || op === '$nin') {
+      if (!Array.isArray(value) || !value.every(isPredicateValue)) {
+        throw new TypeError(`${path}.${op}: expected an array of scalar values`)
+      }
+      condition[op] = value
+    } else if (op === '$like' ? typeof value !== 'string' : !isPredicateValue(value)) {
+      throw new TypeError(`${path}.${op}: expected ${op === '$like' ? 'a string pattern' : 'a scalar value'}`)
+    } else {
+      condition[op] = value as PredicateValue
+    }
+  }
+  return condition
+}
+
+function hasToJSON (input: unknown): input is { toJSON (): unknown } {
+  return typeof (input as { toJSON?: unknown } | null)?.toJSON === 'function'
+}
+
+function isPlainObject (value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isPredicateValue (value: unknown): value is PredicateValue {
+  return (
+    value === null ||
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean'
+  )
+}
+
+// ----------------------------------------------------------
+// SQL rendering
+// ----------------------------------------------------------
+
+export function quoteIdentifier (name: string): string {
+  return `"${name.replace(/"/g, '""')}"`
+}
+
+export function sqlLiteral (value: PredicateValue): string {
+  if (value === null) {
+    return 'NULL'
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'TRUE' : 'FALSE'
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new TypeError(`Cannot render non-finite number ${value} as SQL`)
+    }
+    return String(value)
+  }
+  return `'${value.replace(/'/g, "''")}'`
+}
+
+/**
+ * Renders a node as one operand: conditions are joined with AND, in
+ * parentheses when there is more than one. At the top level a lone AND or
+ * OR is left unparenthesized.
+ */
+function renderSQL (node: PredicateNode, topLevel = false): string {
+  const clauses = predicateClauses(node)
+  if (topLevel && clauses.length === 1 && (clauses[0].op === '$and' || clauses[0].op === '$or')) {
+    return renderGroup(clauses[0].nodes, clauses[0].op)
+  }
+  const rendered = clauses.map(renderClause)
+  if (rendered.length === 1) {
+    return rendered[0]
+  }
+  return topLevel ? rendered.join(' AND ') : `(${rendered.join(' AND ')})`
+}
+
+function renderGroup (nodes: PredicateNode[], op: '$and' | '$or'): string {
+  return nodes.map((child) => renderSQL(child)).join(op === '$and' ? ' AND ' : ' OR ')
+}
+
+function renderClause (clause: PredicateClause): string {
+  if (clause.op === '$and' || clause.op === '$or') {
+    return `(${renderGroup(clause.nodes, clause.op)})`
+  }
+  if (clause.op === '$not') {
+    return `NOT ${renderSQL(clause.node)}`
+  }
+
+  const column = quoteIdentifier(clause.column)
+  const { value } = clause
+  switch (clause.op) {
+    case '$in':
+    case '$nin': {
+      const values = (value as PredicateValue[]).map(sqlLiteral).join(', ')
+      return `${column} ${clause.op === '$in' ? 'IN' : 'NOT IN'} (${values})`
+    }
+    case '$eq':
+    case '$ne':
+      if (value === null) {
+        return `${column} ${clause.op === '$eq' ? 'IS NULL' : 'IS NOT NULL'}`
+      }
+  }
+  return `${column} ${SQL_OPERATORS[clause.op]} ${sqlLiteral(value as PredicateValue)}`
+}
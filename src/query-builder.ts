@@ -0,0 +1,146 @@
+import type { PredicateInput } from './types.js'
+import { parsePredicate, quoteIdentifier } from './predicate.js'
+import { SqlQuery } from './sql.js'
+
+/** A column name (quoted for you), `*`, or an `sql` expression */
+export type SelectColumn = string | SqlQuery
+
+/** Columns, or `{ alias: column }` objects for `column AS alias` */
+export type SelectItem = SelectColumn | Record<string, SelectColumn>
+
+export type SortDirection = 'asc' | 'desc'
+
+type Condition = PredicateInput | SqlQuery | null | undefined
+
+interface SelectParts {
+  columns: string[]
+  from?: string
+  where: string[]
+  groupBy: string[]
+  having: string[]
+  orderBy: string[]
+  limit?: number
+  offset?: number
+}
+
+/**
+ * Immutable SELECT builder. Every method returns a new query, so partial
+ * queries can be shared. Pass it to `query()` or `queryIterator()` directly.
+ */
+export class SelectQuery {
+  readonly #parts: SelectParts
+
+  constructor (parts: SelectParts) {
+    this.#parts = parts
+  }
+
+  /** A table or view name, such as `client.datasetTable(id)`, or a subquery */
+  from (source: string | SqlQuery | SelectQuery): SelectQuery {
+    const from = source instanceof SelectQuery
+      ? `(${source.toSQL().text}) AS subquery`
+      : renderColumn(source)
+    return this.#with({ from })
+  }
+
+  /**
+   * Adds conditions, combined with AND. Accepts `Predicate` builders, stored
+   * row-set predicates (`rowSet.predicate`) and `sql` expressions; null and
+   * undefined are skipped.
+   */
+  where (...conditions: Condition[]): SelectQuery {
+    return this.#with({ where: [...this.#parts.where, ...renderConditions(conditions)] })
+  }
+
+  groupBy (...columns: SelectColumn[]): SelectQuery {
+    return this.#with({ groupBy: [...this.#parts.groupBy, ...columns.map(renderColumn)] })
+  }
+
+  having (...conditions: Condition[]): SelectQuery {
+    return this.#with({ having: [...this.#parts.having, ...renderConditions(conditions)] })
+  }
+
+  orderBy (column: SelectColumn, direction: SortDirection = 'asc'): SelectQuery {
+    const order = `${renderColumn(column)} ${direction === 'desc' ? 'DESC' : 'ASC'}`
+    return this.#with({ orderBy: [...this.#parts.orderBy, order] })
+  }
+
+  limit (count: number): SelectQuery {
+    return this.#with({ limit: assertCount(count, 'limit') })
+  }
+
+  offset (count: number): SelectQuery {
+    return this.#with({ offset: assertCount(count, 'offset') })
+  }
+
+  toSQL (): SqlQuery {
+    const { columns, from, where, groupBy, having, orderBy, limit, offset } = this.#parts
+    const clauses = [`SELECT ${columns.length > 0 ? columns.join(', ') : '*'}`]
+    if (from) {
+      clauses.push(`FROM ${from}`)
+    }
+    if (where.length > 0) {
+      clauses.push(`WHERE ${where.join(' AND ')}`)
+    }
+    if (groupBy.length > 0) {
+      clauses.push(`GROUP BY ${groupBy.join(', ')}`)
+    }
+    if (having.length > 0) {
+      clauses.push(`HAVING ${having.join(' AND ')}`)
+    }
+    if (orderBy.length > 0) {
+      clauses.push(`ORDER BY ${orderBy.join(', ')}`)
+    }
+    if (limit !== undefined) {
+      clauses.push(`LIMIT ${limit}`)
+    }
+    if (offset !== undefined) {
+      clauses.push(`OFFSET ${offset}`)
+    }
+    return new SqlQuery(clauses.join(' '))
+  }
+
+  toString (): string {
+    return this.toSQL().text
+  }
+
+  #with (parts: Partial<SelectParts>): SelectQuery {
+    return new SelectQuery({ ...this.#parts, ...parts })
+  }
+}
+
+/** Starts a query, e.g. `` select('country', { n: sql`count(*)` }).from(table) `` */
+export function select (...items: SelectItem[]): SelectQuery {
+  const columns = items.flatMap((item) => {
+    if (typeof item === 'string' || item instanceof SqlQuery) {
+      return [renderColumn(item)]
+    }
+    return Object.entries(item).map(([alias, column]) => `${renderColumn(column)} AS ${quoteIdentifier(alias)}`)
+  })
+  return new SelectQuery({ columns, where: [], groupBy: [], having: [], orderBy: [] })
+}
+
+function renderColumn (column: SelectColumn): string {
+  if (column instanceof SqlQuery) {
+    return column.text
+  }
+  return column === '*' ? '*' : quoteIdentifier(column)
+}
+
+function renderConditions (conditions: Condition[]): string[] {
+  return conditions.flatMap((condition) => {
+    if (condition === null || condition === undefined) {
+      return []
+    }
+    if (condition instanceof SqlQuery) {
+      return [`(${condition.text})`]
+    }
+    return [`(${parsePredicate(condition).toSQL()})`]
+  })
+}
+
+function assertCount (count: number, name: string): number {
+  if (!Number.isInteger(count) || count < 0) {
+    throw new RangeError(`${name} must be a non-negative integer, got ${count}`)
+  }
+  return count
+}
@@ -0,0 +1,574 @@
+import type { GagaraBoostClient } from './client.js'
+import type { SqlQuery } from './sql.js'
+import type {
+  ColumnSet,
+  ColumnSetCreate,
+  ColumnSetUpdate,
+  DatasetItem,
+  DatasetMetaResponse,
+  DatasetSchemaResponse,
+  DownloadResult,
+  DownloadToFileOptions,
+  IterateOptions,
+  ListOptions,
+  ModelDetail,
+  PredictionRequest,
+  PredictionResponse,
+  PredictionWithFreeParameterRequest,
+  PredictionWithFreeParameterResponse,
+  RecordInput,
+  ReplaceDatasetOptions,
+  RequestOptions,
+  RowSet,
+  RowSetCreate,
+  RowSetSampleResponse,
+  RowSetUpdate,
+  RowSetWriteOptions,
+  TrainingParamSet,
+  TrainingParamSetCreate,
+  TrainingParamSetUpdate,
+  TrainingRequest,
+  UploadCsvOptions,
+  UploadDatasetOptions,
+  UploadRecordsOptions,
+  UploadSource,
+  Workspace,
+} from './types.js'
+
+/**
+ * A server object by id. The object itself is fetched on first `load()` and
+ * cached; `refresh()` fetches it again. Methods that return the updated
+ * object (renames, updates) refresh the cache as a side effect.
+ */
+export abstract class Resource<T extends { id: string }> {
+  protected readonly client: GagaraBoostClient
+  readonly id: string
+  #data?: T
+  #loading?: Promise<T>
+
+  constructor (client: GagaraBoostClient, id: string, data?: T) {
+    this.client = client
+    this.id = id
+    this.#data = data
+  }
+
+  /** The cached object, or undefined before the first load */
+  get data (): T | undefined {
+    return this.#data
+  }
+
+  async load (options?: RequestOptions): Promise<T> {
+    if (this.#data) {
+      return this.#data
+    }
+    return this.refresh(options)
+  }
+
+  async refresh (options?: RequestOptions): Promise<T> {
+    if (options?.signal) {
+      // Aborting must only fail the caller that owns the signal
+      return this.remember(await this.fetch(options))
+    }
+    // Concurrent calls without a signal share one request
+    this.#loading ??= this.fetch(options).then((data) => this.remember(data)).finally(() => {
+      this.#loading = undefined
+    })
+    return this.#loading
+  }
+
+  toJSON (): T | { id: string } {
+    return this.#data ?? { id: this.id }
+  }
+
+  protected remember (data: T): T {
+    this.#data = data
+    return data
+  }
+
+  protected abstract fetch (options?: RequestOptions): Promise<T>
+}
+
+// ----------------------------------------------------------
+// Workspaces
+// ----------------------------------------------------------
+
+export class WorkspaceResource extends Resource<Workspace> {
+  readonly datasets: WorkspaceDatasets
+  readonly rowSets: WorkspaceRowSets
+  readonly columnSets: WorkspaceColumnSets
+  readonly trainingParamSets: WorkspaceTrainingParamSets
+  readonly models: WorkspaceModels
+
+  constructor (client: GagaraBoostClient, id: string, data?: Workspace) {
+    super(client, id, data)
+    this.datasets = new WorkspaceDatasets(client, id)
+    this.rowSets = new WorkspaceRowSets(client, id)
+    this.columnSets = new WorkspaceColumnSets(client, id)
+    this.trainingParamSets = new WorkspaceTrainingParamSets(client, id)
+    this.models = new WorkspaceModels(client, id)
+  }
+
+  async rename (name: string, options?: RequestOptions): Promise<Workspace> {
+    return this.remember(await this.client.renameWorkspace(this.id, name, options))
+  }
+
+  async delete (options?: RequestOptions): Promise<{ status: string }> {
+    return this.client.deleteWorkspace(this.id, options)
+  }
+
+  /** Trains a model in this workspace and returns it, not yet loaded */
+  async train (
+    request: Omit<TrainingRequest, 'workspace_id'>,
+    options?: RequestOptions
+  ): Promise<ModelResource> {
+    const response = await this.client.train({ ...request, workspace_id: this.id }, options)
+    return new ModelResource(this.client, response.id)
+  }
+
+  protected async fetch (options?: RequestOptions): Promise<Workspace> {
+    return this.client.getWorkspace(this.id, options)
+  }
+}
+
+export class WorkspaceDatasets {
+  readonly #client: GagaraBoostClient
+  readonly #workspaceId: string
+
+  constructor (client: GagaraBoostClient, workspaceId: string) {
+    this.#client = client
+    this.#workspaceId = workspaceId
+  }
+
+  async list (options?: ListOptions): Promise<DatasetResource[]> {
+    const items = await this.#client.listDatasets(this.#workspaceId, options)
+    return items.map((item) => new DatasetResource(this.#client, item.id, item))
+  }
+
+  async * iterate (options?: IterateOptions): AsyncGenerator<DatasetResource> {
+    for await (const item of this.#client.iterateDatasets(this.#workspaceId, options)) {
+      yield new DatasetResource(this.#client, item.id, item)
+    }
+  }
+
+  async upload (
+    file: UploadSource,
+    options: Omit<UploadDatasetOptions, 'workspaceId'> = {}
+  ): Promise<DatasetResource> {
+    const response = await this.#client.uploadDataset(file, { ...options, workspaceId: this.#workspaceId })
+    return new DatasetResource(this.#client, response.dataset_id)
+  }
+
+  async uploadRecords (
+    records: RecordInput,
+    options: Omit<UploadRecordsOptions, 'workspaceId'> = {}
+  ): Promise<DatasetResource> {
+    const response = await this.#client.uploadRecords(records, { ...options, workspaceId: this.#workspaceId })
+    return new DatasetResource(this.#client, response.dataset_id)
+  }
+
+  async uploadCsv (
+    source: UploadSource,
+    options: Omit<UploadCsvOptions, 'workspaceId'> = {}
+  ): Promise<DatasetResource> {
+    const response = await this.#client.uploadCsv(source, { ...options, workspaceId: this.#workspaceId })
+    return new DatasetResource(this.#client, response.dataset_id)
+  }
+}
+
+export class WorkspaceRowSets {
+  readonly #client: GagaraBoostClient
+  readonly #workspaceId: string
+
+  constructor (client: GagaraBoostClient, workspaceId: string) {
+    this.#client = client
+    this.#workspaceId = workspaceId
+  }
+
+  async list (options?: ListOptions): Promise<RowSetResource[]> {
+    const items = await this.#client.listRowSets(this.#workspaceId, options)
+    return items.map((item) => new RowSetResource(this.#client, item.id, item))
+  }
+
+  async * iterate (options?: IterateOptions): AsyncGenerator<RowSetResource> {
+    for await (const item of this.#client.iterateRowSets(this.#workspaceId, options)) {
+      yield new RowSetResource(this.#client, item.id, item)
+    }
+  }
+
+  async create (
+    payload: Omit<RowSetCreate, 'workspace_id'>,
+    options?: RowSetWriteOptions
+  ): Promise<RowSetResource> {
+    const rowSet = await this.#client.createRowSet({ ...payload, workspace_id: this.#workspaceId }, options)
+    return new RowSetResource(this.#client, rowSet.id, rowSet)
+  }
+}
+
+export class WorkspaceColumnSets {
+  readonly #client: GagaraBoostClient
+  readonly #workspaceId: string
+
+  constructor (client: GagaraBoostClient, workspaceId: string) {
+    this.#client = client
+    this.#workspaceId = workspaceId
+  }
+
+  async list (options?: ListOptions): Promise<ColumnSetResource[]> {
+    const items = await this.#client.listColumnSets({ workspaceId: this.#workspaceId }, options)
+    return items.map((item) => new ColumnSetResource(this.#client, item.id, item))
+  }
+
+  async * iterate (options?: IterateOptions): AsyncGenerator<ColumnSetResource> {
+    for await (const item of this.#client.iterateColumnSets({ workspaceId: this.#workspaceId }, options)) {
+      yield new ColumnSetResource(this.#client, item.id, item)
+    }
+  }
+}
+
+export class WorkspaceTrainingParamSets {
+  readonly #client: GagaraBoostClient
+  readonly #workspaceId: string
+
+  constructor (client: GagaraBoostClient, workspaceId: string) {
+    this.#client = client
+    this.#workspaceId = workspaceId
+  }
+
+  async list (options?: ListOptions): Promise<TrainingParamSetResource[]> {
+    const items = await this.#client.listTrainingParamSets(this.#workspaceId, options)
+    return items.map((item) => new TrainingParamSetResource(this.#client, item.id, item))
+  }
+
+  async * iterate (options?: IterateOptions): AsyncGenerator<TrainingParamSetResource> {
+    for await (const item of this.#client.iterateTrainingParamSets(this.#workspaceId, options)) {
+      yield new TrainingParamSetResource(this.#client, item.id, item)
+    }
+  }
+
+  async create (
+    payload: Omit<TrainingParamSetCreate, 'workspace_id'>,
+    options?: RequestOptions
+  ): Promise<TrainingParamSetResource> {
+    const paramSet = await this.#client.createTrainingParamSet({ ...payload, workspace_id: this.#workspaceId }, options)
+    return new TrainingParamSetResource(this.#client, paramSet.id, paramSet)
+  }
+}
+
+export class WorkspaceModels {
+  readonly #client: GagaraBoostClient
+  readonly #workspaceId: string
+
+  constructor (client: GagaraBoostClient, workspaceId: string) {
+    this.#client = client
+    this.#workspaceId = workspaceId
+  }
+
+  async list (options?: ListOptions): Promise<ModelResource[]> {
+    const items = await this.#client.listModels({ workspaceId: this.#workspaceId }, options)
+    return items.map((item) => new ModelResource(this.#client, item.id, item))
+  }
+
+  async * iterate (options?: IterateOptions): AsyncGenerator<ModelResource> {
+    for await (const item of this.#client.iterateModels({ workspaceId: this.#workspaceId }, options)) {
+      yield new ModelResource(this.#client, item.id, item)
+    }
+  }
+}
+
+// ----------------------------------------------------------
+// Datasets
+// ----------------------------------------------------------
+
+export class DatasetResource extends Resource<DatasetItem> {
+  readonly rowSets: DatasetRowSets
+  readonly columnSets: DatasetColumnSets
+  readonly models: DatasetModels
+
+  constructor (client: GagaraBoostClient, id: string, data?: DatasetItem) {
+    super(client, id, data)
+    this.rowSets = new DatasetRowSets(client, this)
+    this.columnSets = new DatasetColumnSets(client, id)
+    this.models = new DatasetModels(client, id)
+  }
+
+  /** The quoted table name for `query()` SQL */
+  get table (): SqlQuery {
+    return this.client.datasetTable(this.id)
+  }
+
+  async workspace (options?: RequestOptions): Promise<WorkspaceResource> {
+    const dataset = await this.load(options)
+    return new WorkspaceResource(this.client, dataset.workspace_id)
+  }
+
+  async rename (alias: string, options?: RequestOptions): Promise<DatasetItem> {
+    return this.remember(await this.client.updateDatasetAlias(this.id, alias, options))
+  }
+
+  async replace (file: UploadSource, options?: ReplaceDatasetOptions): Promise<DatasetItem> {
+    return this.remember(await this.client.replaceDataset(this.id, file, options))
+  }
+
+  async delete (options?: RequestOptions): Promise<{ status: string }> {
+    return this.client.deleteDataset(this.id, options)
+  }
+
+  async schema (options?: RequestOptions): Promise<DatasetSchemaResponse> {
+    return this.client.getDatasetSchema(this.id, options)
+  }
+
+  async meta (options?: RequestOptions): Promise<DatasetMetaResponse> {
+    return this.client.getDatasetMeta(this.id, options)
+  }
+
+  async download (options?: RequestOptions): Promise<ArrayBuffer> {
+    return this.client.downloadDataset(this.id, options)
+  }
+
+  async downloadToFile (path: string, options?: DownloadToFileOptions): Promise<DownloadResult> {
+    return this.client.downloadDatasetToFile(this.id, path, options)
+  }
+
+  protected async fetch (options?: RequestOptions): Promise<DatasetItem> {
+    return this.client.getDataset(this.id, options)
+  }
+}
+
+/**
+ * Row sets built on one dataset. The server lists row sets by workspace, so
+ * `list()` loads the dataset for its workspace and filters locally.
+ */
+export class DatasetRowSets {
+  readonly #client: GagaraBoostClient
+  readonly #dataset: DatasetResource
+
+  constructor (client: GagaraBoostClient, dataset: DatasetResource) {
+    this.#client = client
+    this.#dataset = dataset
+  }
+
+  async list (options?: ListOptions): Promise<RowSetResource[]> {
+    const { limit, offset, cursor: _cursor, ...filters } = options ?? {}
+    const { workspace_id: workspaceId } = await this.#dataset.load(requestOptions(options))
+    const items = (await this.#client.listRowSets(workspaceId, filters))
+      .filter((item) => item.base_dataset_id === this.#dataset.id)
+      .slice(offset ?? 0, limit === undefined ? undefined : (offset ?? 0) + limit)
+    return items.map((item) => new RowSetResource(this.#client, item.id, item))
+  }
+
+  async create (
+    payload: Omit<RowSetCreate, 'workspace_id' | 'base_dataset_id'>,
+    options?: RowSetWriteOptions
+  ): Promise<RowSetResource> {
+    const { workspace_id: workspaceId } = await this.#dataset.load(requestOptions(options))
+    const rowSet = await this.#client.createRowSet({
+      ...payload,
+      workspace_id: workspaceId,
+      base_dataset_id: this.#dataset.id,
+    }, options)
+    return new RowSetResource(this.#client, rowSet.id, rowSet)
+  }
+}
+
+export class DatasetColumnSets {
+  readonly #client: GagaraBoostClient
+  readonly #datasetId: string
+
+  constructor (client: GagaraBoostClient, datasetId: string) {
+    this.#client = client
+    this.#datasetId = datasetId
+  }
+
+  async list (options?: ListOptions): Promise<ColumnSetResource[]> {
+    const items = await this.#client.listColumnSets({ datasetId: this.#datasetId }, options)
+    return items.map((item) => new ColumnSetResource(this.#client, item.id, item))
+  }
+
+  async * iterate (options?: IterateOptions): AsyncGenerator<ColumnSetResource> {
+    for await (const item of this.#client.iterateColumnSets({ datasetId: this.#datasetId }, options)) {
+      yield new ColumnSetResource(this.#client, item.id, item)
+    }
+  }
+
+  async create (
+    payload: Omit<ColumnSetCreate, 'dataset_id'>,
+    options?: RequestOptions
+  ): Promise<ColumnSetResource> {
+    const columnSet = await this.#client.createColumnSet({ ...payload, dataset_id: this.#datasetId }, options)
+    return new ColumnSetResource(this.#client, columnSet.id, columnSet)
+  }
+}
+
+export class DatasetModels {
+  readonly #client: GagaraBoostClient
+  readonly #datasetId: string
+
+  constructor (client: GagaraBoostClient, datasetId: string) {
+    this.#client = client
+    this.#datasetId = datasetId
+  }
+
+  async list (options?: ListOptions): Promise<ModelResource[]> {
+    const items = await this.#client.listModels({ datasetId: this.#datasetId }, options)
+    return items.map((item) => new ModelResource(this.#client, item.id, item))
+  }
+
+  async * iterate (options?: IterateOptions): AsyncGenerator<ModelResource> {
+    for await (const item of this.#client.iterateModels({ datasetId: this.#datasetId }, options)) {
+      yield new ModelResource(this.#client, item.id, item)
+    }
+  }
+}
+
+// ----------------------------------------------------------
+// Row Sets, Column Sets and Training Param Sets
+// ----------------------------------------------------------
+
+export class RowSetResource extends Resource<RowSet> {
+  /** The quoted view name for `query()` SQL */
+  get view (): SqlQuery {
+    return this.client.rowSetView(this.id)
+  }
+
+  async dataset (options?: RequestOptions): Promise<DatasetResource> {
+    const rowSet = await this.load(options)
+    return new DatasetResource(this.client, rowSet.base_dataset_id)
+  }
+
+  async update (payload: RowSetUpdate, options?: RowSetWriteOptions): Promise<RowSet> {
+    return this.remember(await this.client.updateRowSet(this.id, payload, options))
+  }
+
+  async rename (name: string, options?: RequestOptions): Promise<RowSet> {
+    return this.update({ name }, options)
+  }
+
+  async delete (options?: RequestOptions): Promise<{ status: string }> {
+    return this.client.deleteRowSet(this.id, options)
+  }
+
+  async schema (options?: RequestOptions): Promise<DatasetSchemaResponse> {
+    return this.client.getRowSetSchema(this.id, options)
+  }
+
+  async meta (options?: RequestOptions & { force?: boolean }): Promise<DatasetMetaResponse> {
+    return this.client.getRowSetMeta(this.id, options)
+  }
+
+  async sample (options?: RequestOptions): Promise<RowSetSampleResponse> {
+    return this.client.getRowSetSample(this.id, options)
+  }
+
+  /** Trains a model on this row set; the workspace is the row set's */
+  async train (
+    request: Omit<TrainingRequest, 'workspace_id' | 'row_set_id'>,
+    options?: RequestOptions
+  ): Promise<ModelResource> {
+    const rowSet = await this.load(options)
+    const response = await this.client.train({
+      ...request,
+      workspace_id: rowSet.workspace_id,
+      row_set_id: this.id,
+    }, options)
+    return new ModelResource(this.client, response.id)
+  }
+
+  protected async fetch (options?: RequestOptions): Promise<RowSet> {
+    return this.client.getRowSet(this.id, options)
+  }
+}
+
+export class ColumnSetResource extends Resource<ColumnSet> {
+  async dataset (options?: RequestOptions): Promise<DatasetResource> {
+    const columnSet = await this.load(options)
+    return new DatasetResource(this.client, columnSet.dataset_id)
+  }
+
+  async update (payload: ColumnSetUpdate, options?: RequestOptions): Promise<ColumnSet> {
+    return this.remember(await this.client.updateColumnSet(this.id, payload, options))
+  }
+
+  async rename (name: string, options?: RequestOptions): Promise<ColumnSet> {
+    return this.update({ name }, options)
+  }
+
+  async clone (options?: RequestOptions): Promise<ColumnSetResource> {
+    const columnSet = await this.client.cloneColumnSet(this.id, options)
+    return new ColumnSetResource(this.client, columnSet.id, columnSet)
+  }
+
+  async delete (options?: RequestOptions): Promise<{ status: string }> {
+    return this.client.deleteColumnSet(this.id, options)
+  }
+
+  protected async fetch (options?: RequestOptions): Promise<ColumnSet> {
+    return this.client.getColumnSet(this.id, options)
+  }
+}
+
+export class TrainingParamSetResource extends Resource<TrainingParamSet> {
+  async update (payload: TrainingParamSetUpdate, options?: RequestOptions): Promise<TrainingParamSet> {
+    return this.remember(await this.client.updateTrainingParamSet(this.id, payload, options))
+  }
+
+  async rename (name: string, options?: RequestOptions): Promise<TrainingParamSet> {
+    return this.update({ name }, options)
+  }
+
+  async delete (options?: RequestOptions): Promise<{ status: string }> {
+    return this.client.deleteTrainingParamSet(this.id, options)
+  }
+
+  protected async fetch (options?: RequestOptions): Promise<TrainingParamSet> {
+    return this.client.getTrainingParamSet(this.id, options)
+  }
+}
+
+// ----------------------------------------------------------
+// Models
+// ----------------------------------------------------------
+
+export class ModelResource extends Resource<ModelDetail> {
+  /** Pass feature rows directly or a full `PredictionRequest` */
+  async predict (
+    features: PredictionRequest | Array<Record<string, unknown>>,
+    options?: RequestOptions
+  ): Promise<PredictionResponse> {
+    const request = Array.isArray(features) ? { features } : features
+    return this.client.predict(this.id, request, options)
+  }
+
+  async predictWithFreeParameter (
+    request: PredictionWithFreeParameterRequest,
+    options?: RequestOptions
+  ): Promise<PredictionWithFreeParameterResponse> {
+    return this.client.predictWithFreeParameter(this.id, request, options)
+  }
+
+  async rename (name: string, options?: RequestOptions): Promise<ModelDetail> {
+    return this.remember(await this.client.renameModel(this.id, name, options))
+  }
+
+  async delete (options?: RequestOptions): Promise<{ status: string }> {
+    return this.client.deleteModel(this.id, options)
+  }
+
+  /** The row set the model was trained on, when the server reports it */
+  async rowSet (options?: RequestOptions): Promise<RowSetResource | undefined> {
+    const { row_set_id: id } = await this.load(options)
+    return id ? new RowSetResource(this.client, id) : undefined
+  }
+
+  async columnSet (options?: RequestOptions): Promise<ColumnSetResource | undefined> {
+    const { column_set_id: id } = await this.load(options)
+    return id ? new ColumnSetResource(this.client, id) : undefined
+  }
+
+  protected async fetch (options?: RequestOptions): Promise<ModelDetail> {
+    return this.client.getModel(this.id, options)
+  }
+}
+
+function requestOptions (options?: RequestOptions): RequestOptions {
+  return { signal: options?.signal, timeout: options?.timeout }
+}
@@ -0,0 +1,114 @@
+import type { RetryOptions } from './types.js'
+import {
+  NetworkError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+} from './types.js'
+
+export interface ResolvedRetryOptions {
+  maxAttempts: number
+  initialDelay: number
+  maxDelay: number
+  factor: number
+  jitter: boolean
+  retryOnStatus: number[]
+  retryNonIdempotent: boolean
+}
+
+const DEFAULT_RETRY_STATUS = [408, 429, 502, 503, 504]
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE', 'PATCH'])
+
+export function resolveRetryOptions (options?: RetryOptions): ResolvedRetryOptions {
+  return {
+    maxAttempts: Math.max(1, options?.maxAttempts ?? (options ? 3 : 1)),
+    initialDelay: options?.initialDelay ?? 500,
+    maxDelay: options?.maxDelay ?? 30_000,
+    factor: options?.factor ?? 2,
+    jitter: options?.jitter ?? true,
+    retryOnStatus: options?.retryOnStatus ?? DEFAULT_RETRY_STATUS,
+    retryNonIdempotent: options?.retryNonIdempotent ?? false,
+  }
+}
+
+export function isIdempotentMethod (method?: string): boolean {
+  return IDEMPOTENT_METHODS.has((method ?? 'GET').toUpperCase())
+}
+
+/**
+ * Only connection-level failures are retried. Timeouts and caller
+ * cancellations are deliberate and surface immediately.
+ */
+export function isRetryableError (error: unknown): boolean {
+  return error instanceof NetworkError
+}
+
+/**
+ * Failures after which continuing a partial transfer is worthwhile: the
+ * server may hold a usable prefix of an upload, and a download can pick up
+ * where it stopped with a Range request.
+ */
+export function isResumableError (error: unknown): boolean {
+  return (
+    error instanceof NetworkError ||
+    error instanceof TimeoutError ||
+    error instanceof ServerError ||
+    error instanceof RateLimitError
+  )
+}
+
+/**
+ * Parses a Retry-After header (delta-seconds or HTTP-date) into milliseconds.
+ */
+export function parseRetryAfter (value: string | null, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined
+  }
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+  const date = Date.parse(value)
+  if (Number.isNaN(date)) {
+    return undefined
+  }
+  return Math.max(0, date - now)
+}
+
+/**
+ * Delay before the given retry (1-based), with full jitter unless disabled.
+ * A Retry-After hint from the server takes precedence over the backoff.
+ */
+export function retryDelay (
+  attempt: number,
+  options: ResolvedRetryOptions,
+  retryAfter?: number
+): number {
+  if (retryAfter !== undefined) {
+    return Math.min(retryAfter, options.maxDelay)
+  }
+  const backoff = Math.min(
+    options.initialDelay * options.factor ** (attempt - 1),
+    options.maxDelay
+  )
+  return options.jitter ? Math.random() * backoff : backoff
+}
+
+export function sleep (ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const onAbort = (): void => {
+      clearTimeout(timeoutId)
+      reject(signal?.reason)
+    }
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
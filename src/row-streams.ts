@@ -0,0 +1,93 @@
+import type { CsvWriteOptions, RowStreamOptions } from './types.js'
+
+type Rows = Iterable<Record<string, unknown>> | AsyncIterable<Record<string, unknown>>
+
+/**
+ * Encodes rows as CSV (RFC 4180, CRLF line endings). Nulls are empty cells,
+ * Dates are ISO strings and objects are JSON. Rows are pulled as the stream
+ * is read, so `queryIterator()` results are never held in memory at once.
+ */
+export function rowsToCsv (rows: Rows, options: CsvWriteOptions = {}): ReadableStream<Uint8Array> {
+  const delimiter = options.delimiter ?? ','
+  let columns = options.columns
+  let headerPending = options.header !== false
+
+  return textStream(rows, (row) => {
+    columns ??= Object.keys(row)
+    let text = ''
+    if (headerPending) {
+      headerPending = false
+      text += csvLine(columns, delimiter)
+    }
+    return text + csvLine(columns.map((column) => csvCell(row[column])), delimiter)
+  }, () => {
+    // An empty result still gets its header when the columns are known
+    return headerPending && columns ? csvLine(columns, delimiter) : ''
+  })
+}
+
+/** Encodes rows as JSON Lines. Bigints are written as strings */
+export function rowsToJsonLines (rows: Rows, options: RowStreamOptions = {}): ReadableStream<Uint8Array> {
+  const { columns } = options
+  return textStream(rows, (row) => {
+    const value = columns ? Object.fromEntries(columns.map((column) => [column, row[column] ?? null])) : row
+    return `${JSON.stringify(value, jsonReplacer)}\n`
+  })
+}
+
+function textStream (
+  rows: Rows,
+  render: (row: Record<string, unknown>) => string,
+  finish: () => string = () => ''
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  const iterator = Symbol.asyncIterator in rows
+    ? rows[Symbol.asyncIterator]()
+    : rows[Symbol.iterator]()
+
+  return new ReadableStream<Uint8Array>({
+    async pull (controller) {
+      const { done, value } = await iterator.next()
+      if (done) {
+        const tail = finish()
+        if (tail) {
+          controller.enqueue(encoder.encode(tail))
+        }
+        controller.close()
+        return
+      }
+      controller.enqueue(encoder.encode(render(value)))
+    },
+    async cancel () {
+      await iterator.return?.()
+    },
+  })
+}
+
+function csvLine (cells: string[], delimiter: string): string {
+  return cells.map((cell) => csvQuote(cell, delimiter)).join(delimiter) + '\r\n'
+}
+
+function csvCell (value: unknown): string {
+  if (value === null || value === undefined) {
+    return ''
+  }
+  if (value instanceof Date) {
+    return value.toISOString()
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value, jsonReplacer)
+  }
+  return String(value)
+}
+
+function csvQuote (cell: string, delimiter: string): string {
+  if (cell.includes(delimiter) || /["\r\n]/.test(cell)) {
+    return `"${cell.replace(/"/g, '""')}"`
+  }
+  return cell
+}
+
+function jsonReplacer (_key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? value.toString() : value
+}
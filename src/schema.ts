@@ -0,0 +1,159 @@
+import type { ResponseValidationIssue } from './types.js'
+
+/**
+ * Minimal runtime validators for API responses. Object schemas are typed
+ * against the interfaces in types.ts, so a field added to an interface
+ * without a matching validator fails the type-check.
+ */
+
+export interface Schema<T> {
+  readonly expected: string
+  check (value: unknown, path: string): ResponseValidationIssue | undefined
+  /** Phantom field carrying the validated type */
+  readonly _type?: T
+}
+
+export function describeValue (value: unknown): string {
+  if (value === null) {
+    return 'null'
+  }
+  if (Array.isArray(value)) {
+    return 'array'
+  }
+  return typeof value
+}
+
+function primitive<T> (expected: string, test: (value: unknown) => boolean): Schema<T> {
+  return {
+    expected,
+    check (value, path) {
+      return test(value) ? undefined : { path, expected, received: describeValue(value) }
+    },
+  }
+}
+
+export const string = (): Schema<string> =>
+  primitive('string', (value) => typeof value === 'string')
+
+export const number = (): Schema<number> =>
+  primitive('number', (value) => typeof value === 'number')
+
+export const boolean = (): Schema<boolean> =>
+  primitive('boolean', (value) => typeof value === 'boolean')
+
+export const unknown = (): Schema<unknown> =>
+  primitive('any value', () => true)
+
+export function literal<const T extends string | number | boolean> (...values: T[]): Schema<T> {
+  const expected = values.map((value) => JSON.stringify(value)).join(' | ')
+  return {
+    expected,
+    check (value, path) {
+      if (values.includes(value as T)) {
+        return undefined
+      }
+      return { path, expected, received: JSON.stringify(value) ?? describeValue(value) }
+    },
+  }
+}
+
+export function nullable<T> (schema: Schema<T>): Schema<T | null> {
+  return {
+    expected: `${schema.expected} | null`,
+    check (value, path) {
+      return value === null ? undefined : schema.check(value, path)
+    },
+  }
+}
+
+export function optional<T> (schema: Schema<T>): Schema<T | undefined> {
+  return {
+    expected: `${schema.expected} | undefined`,
+    check (value, path) {
+      return value === undefined ? undefined : schema.check(value, path)
+    },
+  }
+}
+
+/** Shorthand for the common `field?: T | null` */
+export function maybe<T> (schema: Schema<T>): Schema<T | null | undefined> {
+  return optional(nullable(schema))
+}
+
+export function union<A, B> (a: Schema<A>, b: Schema<B>): Schema<A | B> {
+  return {
+    expected: `${a.expected} | ${b.expected}`,
+    check (value, path) {
+      if (!a.check(value, path) || !b.check(value, path)) {
+        return undefined
+      }
+      return { path, expected: `${a.expected} | ${b.expected}`, received: describeValue(value) }
+    },
+  }
+}
+
+export function array<T> (item: Schema<T>): Schema<T[]> {
+  return {
+    expected: `${item.expected}[]`,
+    check (value, path) {
+      if (!Array.isArray(value)) {
+        return { path, expected: `${item.expected}[]`, received: describeValue(value) }
+      }
+      for (let index = 0; index < value.length; index++) {
+        const issue = item.check(value[index], `${path}[${index}]`)
+        if (issue) {
+          return issue
+        }
+      }
+      return undefined
+    },
+  }
+}
+
+export function record<T> (item: Schema<T>): Schema<Record<string, T>> {
+  return {
+    expected: `Record<string, ${item.expected}>`,
+    check (value, path) {
+      if (!isPlainObject(value)) {
+        return { path, expected: 'object', received: describeValue(value) }
+      }
+      for (const [key, entry] of Object.entries(value)) {
+        const issue = item.check(entry, childPath(path, key))
+        if (issue) {
+          return issue
+        }
+      }
+      return undefined
+    },
+  }
+}
+
+/**
+ * Validates the listed fields and lets unknown extra fields through, so
+ * additive server changes do not break clients.
+ */
+export function object<T> (shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+  return {
+    expected: 'object',
+    check (value, path) {
+      if (!isPlainObject(value)) {
+        return { path, expected: 'object', received: describeValue(value) }
+      }
+      for (const key of Object.keys(shape) as Array<keyof T & string>) {
+        const issue = shape[key].check(value[key], childPath(path, key))
+        if (issue) {
+          return issue
+        }
+      }
+      return undefined
+    },
+  }
+}
+
+function isPlainObject (value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function childPath (path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`
+}
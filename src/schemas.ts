@@ -0,0 +1,285 @@
+import type {
+  ColumnSet,
+  DatasetColumn,
+  DatasetColumnInfo,
+  DatasetColumnStatistics,
+  DatasetColumnUserInput,
+  DatasetItem,
+  DatasetMetaResponse,
+  DatasetSchemaResponse,
+  FeatureColumnDetail,
+  FreeParameterPrediction,
+  JobState,
+  ListPage,
+  ModelDetail,
+  OptimalParamSearchJobStatus,
+  OptimalParamSearchResponse,
+  OptimalParamSearchTrial,
+  PredicateNode,
+  PredictionResponse,
+  PredictionWithFreeParameterResponse,
+  QueryPage,
+  QueryResponse,
+  RowSet,
+  RowSetSampleResponse,
+  StoredDatasetColumn,
+  TrainingJobStatus,
+  TrainingParamSet,
+  TrainingResponse,
+  UploadResponse,
+  UploadSession,
+  UserCreateResponse,
+  Workspace,
+} from './types.js'
+import type { Schema } from './schema.js'
+import {
+  array,
+  boolean,
+  literal,
+  maybe,
+  nullable,
+  number,
+  object,
+  optional,
+  record,
+  string,
+  union,
+  unknown,
+} from './schema.js'
+
+// ------------------------------------------------------------
+// Response schemas, one per interface in types.ts
+// ------------------------------------------------------------
+
+const jsonObject = (): Schema<Record<string, unknown>> => record(unknown())
+
+/** Stored predicates are only checked to be objects; `parsePredicate()` checks their operators */
+const predicateNode = (): Schema<PredicateNode> => ({ expected: 'object', check: jsonObject().check })
+
+export const StatusResponseSchema = object<{ status: string }>({
+  status: string(),
+})
+
+export const UserCreateResponseSchema = object<UserCreateResponse>({
+  id: string(),
+  token: string(),
+})
+
+export const WorkspaceSchema = object<Workspace>({
+  id: string(),
+  owner_user_id: string(),
+  name: string(),
+  is_default: boolean(),
+  created_at: string(),
+})
+
+export const DatasetItemSchema = object<DatasetItem>({
+  id: string(),
+  alias: nullable(string()),
+  workspace_id: string(),
+  created_at: string(),
+  modified_at: maybe(string()),
+  file_size_bytes: maybe(number()),
+})
+
+export const DatasetColumnSchema = object<DatasetColumn>({
+  name: string(),
+  data_type: string(),
+  nullable: boolean(),
+})
+
+export const DatasetSchemaResponseSchema = object<DatasetSchemaResponse>({
+  columns: array(DatasetColumnSchema),
+})
+
+const distinctValues = maybe(array(union(string(), number())))
+const numericValuesStats = maybe(record(nullable(number())))
+
+export const DatasetColumnInfoSchema = object<DatasetColumnInfo>({
+  name: string(),
+  size_bytes: number(),
+  count_distinct: number(),
+  distinct_values: distinctValues,
+  numeric_values_stats: numericValuesStats,
+})
+
+export const DatasetMetaResponseSchema = object<DatasetMetaResponse>({
+  row_count: number(),
+  file_size_bytes: number(),
+  columns_info: array(DatasetColumnInfoSchema),
+})
+
+export const UploadResponseSchema = object<UploadResponse>({
+  dataset_id: string(),
+  created_at: string(),
+})
+
+const DatasetColumnUserInputSchema = object<DatasetColumnUserInput>({
+  value_filter_predicate: maybe(union(string(), jsonObject())),
+  display_formatter: maybe(string()),
+  is_categorical: optional(boolean()),
+})
+
+const DatasetColumnStatisticsSchema = object<DatasetColumnStatistics>({
+  size_bytes: number(),
+  count_distinct: number(),
+  distinct_values: distinctValues,
+  numeric_values_stats: numericValuesStats,
+})
+
+export const StoredDatasetColumnSchema = object<StoredDatasetColumn>({
+  id: string(),
+  dataset_id: string(),
+  name: string(),
+  userInput: DatasetColumnUserInputSchema,
+  statistics: DatasetColumnStatisticsSchema,
+  created_at: string(),
+})
+
+export const RowSetSchema = object<RowSet>({
+  id: string(),
+  workspace_id: string(),
+  name: string(),
+  base_dataset_id: string(),
+  predicate: maybe(predicateNode()),
+  created_at: string(),
+})
+
+export const RowSetSampleResponseSchema = object<RowSetSampleResponse>({
+  row: nullable(jsonObject()),
+  columns: array(string()),
+})
+
+const FeatureColumnDetailSchema = object<FeatureColumnDetail>({
+  field: string(),
+  is_categorical: boolean(),
+})
+
+export const ColumnSetSchema = object<ColumnSet>({
+  id: string(),
+  created_at: string(),
+  dataset_id: string(),
+  name: string(),
+  column_to_predict: string(),
+  feature_columns: array(union(string(), FeatureColumnDetailSchema)),
+})
+
+export const TrainingParamSetSchema = object<TrainingParamSet>({
+  id: string(),
+  created_at: string(),
+  workspace_id: string(),
+  name: string(),
+  params: jsonObject(),
+  meta: maybe(jsonObject()),
+})
+
+export const ModelDetailSchema = object<ModelDetail>({
+  id: string(),
+  workspace_id: maybe(string()),
+  name: maybe(string()),
+  created_at: string(),
+  metrics: maybe(jsonObject()),
+  row_set_id: maybe(string()),
+  column_set_id: maybe(string()),
+  training_param_set_id: maybe(string()),
+  training_seconds: maybe(number()),
+})
+
+export const TrainingResponseSchema = object<TrainingResponse>({
+  // Known values only, so a renamed status is reported instead of slipping through
+  status: literal('success', 'completed', 'failed'),
+  id: string(),
+  metrics: jsonObject(),
+})
+
+export const OptimalParamSearchResponseSchema = object<OptimalParamSearchResponse>({
+  status: string(),
+  metric_used: string(),
+  surrogate_metric: maybe(string()),
+  trials_run: number(),
+  best_params: jsonObject(),
+  best_score: maybe(number()),
+  best_iteration: maybe(number()),
+  best_score_breakdown: maybe(jsonObject()),
+  note: maybe(string()),
+  elapsed_seconds: maybe(number()),
+})
+
+export const PredictionResponseSchema = object<PredictionResponse>({
+  predictions: array(number()),
+})
+
+const FreeParameterPredictionSchema = object<FreeParameterPrediction>({
+  values: jsonObject(),
+  prediction: number(),
+})
+
+export const PredictionWithFreeParameterResponseSchema = object<PredictionWithFreeParameterResponse>({
+  predictions: array(FreeParameterPredictionSchema),
+})
+
+export const QueryResponseSchema = object<QueryResponse>({
+  columns: array(string()),
+  rows: array(jsonObject()),
+})
+
+export const QueryPageSchema = object<QueryPage>({
+  columns: array(string()),
+  rows: array(jsonObject()),
+  next_cursor: maybe(string()),
+})
+
+// Servers report states under several aliases, which are normalized after validation
+const jobState = string() as Schema<string> as Schema<JobState>
+
+export const TrainingJobStatusSchema = object<TrainingJobStatus>({
+  id: string(),
+  status: jobState,
+  progress: maybe(number()),
+  message: maybe(string()),
+  result: maybe(TrainingResponseSchema),
+  error: maybe(string()),
+  created_at: maybe(string()),
+  updated_at: maybe(string()),
+})
+
+const OptimalParamSearchTrialSchema = object<OptimalParamSearchTrial>({
+  number: number(),
+  params: jsonObject(),
+  score: maybe(number()),
+  state: maybe(string()),
+  elapsed_seconds: maybe(number()),
+})
+
+export const OptimalParamSearchJobStatusSchema = object<OptimalParamSearchJobStatus>({
+  id: string(),
+  status: jobState,
+  trials_run: maybe(number()),
+  trials: maybe(array(OptimalParamSearchTrialSchema)),
+  best_score: maybe(number()),
+  result: maybe(OptimalParamSearchResponseSchema),
+  error: maybe(string()),
+  created_at: maybe(string()),
+  updated_at: maybe(string()),
+})
+
+export const UploadSessionSchema = object<UploadSession>({
+  id: string(),
+  offset: number(),
+  size: maybe(number()),
+  expires_at: maybe(string()),
+})
+
+/** List endpoints answer with a bare array or a `ListPage` envelope */
+export function listResponse<T> (item: Schema<T>): Schema<T[] | ListPage<T>> {
+  const items = array(item)
+  const page = object<ListPage<T>>({
+    items,
+    next_cursor: maybe(string()),
+    total: maybe(number()),
+  })
+  return {
+    expected: `${items.expected} | ${page.expected}`,
+    check: (value, path) => Array.isArray(value) ? items.check(value, path) : page.check(value, path),
+  }
+}
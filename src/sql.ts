@@ -0,0 +1,176 @@
+import type { QueryColumnCoercion } from './types.js'
+import { Predicate, quoteIdentifier, sqlLiteral } from './predicate.js'
+
+export type SqlValue =
+  | string
+  | number
+  | bigint
+  | boolean
+  | null
+  | Date
+  | Predicate
+  | SqlQuery
+  | SqlValue[]
+
+/**
+ * SQL text built by the `sql` tag. Interpolated values are already rendered
+ * as DuckDB literals, so the text can be sent as is.
+ */
+export class SqlQuery {
+  constructor (readonly text: string) {}
+
+  toString (): string {
+    return this.text
+  }
+
+  toJSON (): string {
+    return this.text
+  }
+}
+
+function tag (strings: TemplateStringsArray, ...values: SqlValue[]): SqlQuery {
+  let text = strings[0]
+  values.forEach((value, index) => {
+    text += renderValue(value) + strings[index + 1]
+  })
+  return new SqlQuery(text)
+}
+
+/** A quoted identifier, for table and column names that come from variables */
+function identifier (...parts: string[]): SqlQuery {
+  return new SqlQuery(parts.map(quoteIdentifier).join('.'))
+}
+
+/** Trusted SQL inserted without escaping */
+function raw (text: string): SqlQuery {
+  return new SqlQuery(text)
+}
+
+function join (values: SqlValue[], separator = ', '): SqlQuery {
+  return new SqlQuery(values.map(renderValue).join(separator))
+}
+
+/**
+ * Tagged template for queries: `` sql`SELECT * FROM t WHERE id = ${id}` ``.
+ * Strings, numbers, bigints, booleans, null and Dates become literals,
+ * arrays become `(a, b)` lists for `IN`, predicates become their boolean
+ * expression and nested `sql` fragments are inlined.
+ */
+export const sql = Object.assign(tag, { identifier, raw, join })
+
+export function renderValue (value: SqlValue): string {
+  if (value instanceof SqlQuery) {
+    return value.text
+  }
+  if (value instanceof Predicate) {
+    return `(${value.toSQL()})`
+  }
+  if (value === undefined) {
+    throw new TypeError('Cannot render undefined as SQL; pass null for NULL')
+  }
+  if (typeof value === 'bigint') {
+    return value.toString()
+  }
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) {
+      throw new TypeError('Cannot render an invalid Date as SQL')
+    }
+    return `TIMESTAMP '${value.toISOString().replace('T', ' ').replace('Z', '')}'`
+  }
+  if (Array.isArray(value)) {
+    // An empty IN list is a syntax error; (NULL) matches nothing instead
+    return value.length === 0 ? '(NULL)' : `(${value.map(renderValue).join(', ')})`
+  }
+  if (typeof value === 'object' && value !== null) {
+    throw new TypeError(`Cannot render ${Object.prototype.toString.call(value)} as SQL`)
+  }
+  return sqlLiteral(value)
+}
+
+/**
+ * Converts the columns named in `coerce`, leaving the rest as the server
+ * sent them. Columns missing from the result are ignored.
+ */
+export function coerceRows<Row> (
+  columns: string[],
+  rows: Array<Record<string, unknown>>,
+  coerce: Record<string, QueryColumnCoercion>
+): Row[] {
+  const converters = columns
+    .filter((column) => coerce[column] !== undefined)
+    .map((column) => [column, converter(column, coerce[column])] as const)
+  if (converters.length === 0) {
+    return rows as Row[]
+  }
+  return rows.map((row) => {
+    const result = { ...row }
+    for (const [column, convert] of converters) {
+      const value = result[column]
+      if (value !== null && value !== undefined) {
+        result[column] = convert(value)
+      }
+    }
+    return result as Row
+  })
+}
+
+function converter (column: string, coercion: QueryColumnCoercion): (value: unknown) => unknown {
+  if (typeof coercion === 'function') {
+    return coercion
+  }
+  const fail = (value: unknown): never => {
+    throw new TypeError(`Query column "${column}": cannot convert ${JSON.stringify(value)} to ${coercion}`)
+  }
+  switch (coercion) {
+    case 'date':
+      return (value) => toDate(value) ?? fail(value)
+    case 'bigint':
+      return (value) => {
+        if ((typeof value === 'number' && Number.isInteger(value)) || (typeof value === 'string' && /^[-+]?\d+$/.test(value.trim()))) {
+          return BigInt(typeof value === 'string' ? value.trim() : value)
+        }
+        return fail(value)
+      }
+    case 'number':
+      return (value) => {
+        const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+        return typeof number === 'number' && !Number.isNaN(number) ? number : fail(value)
+      }
+    case 'boolean':
+      return (value) => {
+        if (typeof value === 'boolean') {
+          return value
+        }
+        if (value === 'true' || value === 1) {
+          return true
+        }
+        if (value === 'false' || value === 0) {
+          return false
+        }
+        return fail(value)
+      }
+    case 'string':
+      return (value) => typeof value === 'object' ? JSON.stringify(value) : String(value)
+    default:
+      throw new TypeError(`Unknown coercion "${coercion as string}" for query column "${column}"`)
+  }
+}
+
+/** Dates without a zone are read as UTC, which is how DuckDB renders TIMESTAMP */
+function toDate (value: unknown): Date | undefined {
+  let date: Date | undefined
+  if (typeof value === 'number') {
+    date = new Date(value)
+  } else if (typeof value === 'string') {
+    let text = value.trim().replace(' ', 'T')
+    if (text.includes('T')) {
+      if (/[+-]\d{2}$/.test(text)) {
+        text += ':00'
+      } else if (!/(Z|[+-]\d{2}:?\d{2})$/.test(text)) {
+        text += 'Z'
+      }
+    }
+    date = new Date(text)
+  }
+  return date && !Number.isNaN(date.getTime()) ? date : undefined
+}
@@ -1,3 +1,5 @@
+import type { Predicate } from './predicate.js'
+
 // ------------------------------------------------------------
 // API Types (match gagara-boost server responses)
 // ------------------------------------------------------------
@@ -58,9 +60,22 @@ export interface UploadResponse {
   created_at: string
 }
 
-export interface ReplaceDatasetOptions {
+export interface ReplaceDatasetOptions extends ChunkedUploadOptions {
   filename?: string
   contentType?: string
+
+  /**
+   * Compare the new file's schema with the current one before uploading and
+   * throw SchemaCompatibilityError when the mode does not allow the changes.
+   * Costs a schema and a column-set request. Default: 'none'
+   */
+  compatibility?: SchemaCompatibilityMode
+
+  /**
+   * Apply `compatibility` to every column, not only to the columns column
+   * sets use. Default: false
+   */
+  allColumns?: boolean
 }
 
 export interface UserCreateResponse {
@@ -107,7 +122,7 @@ export interface RowSet {
   workspace_id: string
   name: string
   base_dataset_id: string
-  predicate?: Record<string, unknown> | null
+  predicate?: PredicateNode | null
   created_at: string
 }
 
@@ -116,21 +131,87 @@ export interface QueryRequest {
   workspace_id?: string
 }
 
-export interface QueryResponse {
+export interface QueryResponse<Row = Record<string, any>> {
   columns: string[]
-  rows: Array<Record<string, any>>
+  rows: Row[]
+}
+
+/** One page from `POST /query/pages`; `next_cursor` is null or absent on the last page */
+export interface QueryPage<Row = Record<string, any>> extends QueryResponse<Row> {
+  next_cursor?: string | null
 }
 
 export interface RowSetCreate {
   name: string
   workspace_id: string
   base_dataset_id: string
-  predicate?: Record<string, unknown> | null
+  predicate?: PredicateInput | null
 }
 
 export interface RowSetUpdate {
   name?: string | null
-  predicate?: Record<string, unknown> | null
+  predicate?: PredicateInput | null
+}
+
+export type PredicateValue = string | number | boolean | null
+
+export type ComparisonOperator =
+  | '$eq'
+  | '$ne'
+  | '$gt'
+  | '$gte'
+  | '$lt'
+  | '$lte'
+  | '$in'
+  | '$nin'
+  | '$like'
+
+/** Conditions on one column, e.g. `{ $gte: 18, $lt: 65 }`; all of them must hold */
+export interface ColumnCondition {
+  $eq?: PredicateValue
+  $ne?: PredicateValue
+  $gt?: PredicateValue
+  $gte?: PredicateValue
+  $lt?: PredicateValue
+  $lte?: PredicateValue
+  $in?: PredicateValue[]
+  $nin?: PredicateValue[]
+  $like?: string
+}
+
+/**
+ * A row-set predicate in the server's Mongo-style format, e.g.
+ * `{ age: { $gte: 18 }, country: 'DE' }`. Each column maps to a value it
+ * must equal or to a ColumnCondition, `$and`, `$or` and `$not` combine
+ * nodes, and every key of a node must hold.
+ */
+export interface PredicateNode {
+  $and?: PredicateNode[]
+  $or?: PredicateNode[]
+  $not?: PredicateNode
+  [column: string]: PredicateValue | ColumnCondition | PredicateNode | PredicateNode[] | undefined
+}
+
+/** A predicate node, or a `Predicate` builder serializing to one */
+export type PredicateInput = Predicate | PredicateNode
+
+export type PredicateIssueCode =
+  | 'invalid_predicate'
+  | 'unknown_column'
+  | 'type_mismatch'
+  | 'impossible_range'
+
+export interface PredicateIssue {
+  code: PredicateIssueCode
+  /** Location inside the predicate, e.g. `predicate.and[1]` */
+  path: string
+  column?: string
+  message: string
+}
+
+export interface PredicateValidationResult {
+  valid: boolean
+  issues: PredicateIssue[]
 }
 
 export interface RowSetSampleResponse {
@@ -250,19 +331,340 @@ export interface PredictionWithFreeParameterResponse {
   predictions: FreeParameterPrediction[]
 }
 
+export type JobState = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+
+export interface TrainingJobStatus {
+  id: string
+  status: JobState
+  /** Fraction of work done, between 0 and 1 */
+  progress?: number | null
+  message?: string | null
+  result?: TrainingResponse | null
+  error?: string | null
+  created_at?: string | null
+  updated_at?: string | null
+}
+
+export interface OptimalParamSearchTrial {
+  number: number
+  params: Record<string, unknown>
+  score?: number | null
+  state?: string | null
+  elapsed_seconds?: number | null
+}
+
+export interface OptimalParamSearchJobStatus {
+  id: string
+  status: JobState
+  trials_run?: number | null
+  /** Trials finished so far, in completion order */
+  trials?: OptimalParamSearchTrial[] | null
+  best_score?: number | null
+  /** Final result, or the best result so far of a search cancelled early */
+  result?: OptimalParamSearchResponse | null
+  error?: string | null
+  created_at?: string | null
+  updated_at?: string | null
+}
+
+/** Server-side state of a resumable upload */
+export interface UploadSession {
+  id: string
+  /** Number of bytes the server has persisted so far */
+  offset: number
+  /** Total size declared when the session was created, if known */
+  size?: number | null
+  expires_at?: string | null
+}
+
 // ------------------------------------------------------------
 // Client Types
 // ------------------------------------------------------------
 
 export type UploadFileInput = Blob | File | Uint8Array | ArrayBuffer
 
-export interface UploadDatasetOptions {
+/**
+ * Anything `uploadDataset` can read from. Strings are file paths and only
+ * work in Node. Node readable streams are accepted as async iterables.
+ */
+export type UploadSource =
+  | UploadFileInput
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>
+  | string
+
+export type UploadProgressCallback = (bytesSent: number, total: number | undefined) => void
+
+export interface RequestOptions {
+  /** Cancels the request, including any pending retries */
+  signal?: AbortSignal
+
+  /** Request timeout in ms for this call, overriding ClientOptions.timeout */
+  timeout?: number
+}
+
+export interface ListOptions extends RequestOptions {
+  /** Maximum number of items to return */
+  limit?: number
+
+  offset?: number
+
+  /** Opaque cursor from a previous page's `next_cursor` or `X-Next-Cursor` header */
+  cursor?: string
+
+  /** Field to sort by, prefixed with `-` for descending, e.g. `-created_at` */
+  sort?: string
+
+  /** Case-insensitive substring match on the name (the alias for datasets) */
+  search?: string
+}
+
+export interface IterateOptions extends Omit<ListOptions, 'limit' | 'offset' | 'cursor'> {
+  /** Items fetched per request. Default: 100 */
+  pageSize?: number
+}
+
+/** Paged list response. List endpoints may also return a bare array */
+export interface ListPage<T> {
+  items: T[]
+  next_cursor?: string | null
+  total?: number | null
+}
+
+export interface RowSetWriteOptions extends RequestOptions {
+  /**
+   * Validate the predicate against the dataset schema before sending it.
+   * Costs one extra schema request. Default: false
+   */
+  validate?: boolean
+}
+
+/**
+ * How to convert a query column: `date` parses ISO strings (zone-less ones
+ * as UTC) and epoch milliseconds, `bigint` and `number` parse integer and
+ * decimal strings, or pass a function
+ */
+export type QueryColumnCoercion =
+  | 'date'
+  | 'bigint'
+  | 'number'
+  | 'boolean'
+  | 'string'
+  | ((value: unknown) => unknown)
+
+export interface QueryOptions extends RequestOptions {
+  /** Column conversions by name, applied to the columns the result contains */
+  coerce?: Record<string, QueryColumnCoercion>
+}
+
+export interface QueryIteratorOptions extends QueryOptions {
+  workspaceId?: string
+
+  /** Rows fetched per request. Default: 10000 */
+  pageSize?: number
+
+  /**
+   * `cursor` uses the server's `/query/pages` route, `offset` wraps the query
+   * in LIMIT/OFFSET, `auto` tries the cursor route and falls back to offsets
+   * on servers without it. Default: 'auto'
+   */
+  paging?: 'auto' | 'cursor' | 'offset'
+}
+
+export interface RowStreamOptions {
+  /** Column order. Default: the keys of the first row */
+  columns?: string[]
+}
+
+export interface CsvWriteOptions extends RowStreamOptions {
+  /** Default: ',' */
+  delimiter?: string
+
+  /** Write a header row. Default: true */
+  header?: boolean
+}
+
+export interface ChunkedUploadOptions extends RequestOptions {
+  /** Called after each persisted chunk. `total` is undefined for streams of unknown size */
+  onProgress?: UploadProgressCallback
+
+  /**
+   * `true` always uses the resumable upload protocol, `false` always sends a
+   * single multipart request (buffering streams in memory). Default: chunked
+   * for streams, file paths and inputs larger than `chunkSize`
+   */
+  chunked?: boolean
+
+  /** Bytes per chunk. Default: 8 MiB */
+  chunkSize?: number
+
+  /** Size of a stream source, reported to `onProgress` and the server */
+  size?: number
+
+  /**
+   * Continue an interrupted upload instead of starting a new one. The source
+   * must provide the same bytes from the start; the persisted prefix is skipped.
+   */
+  resumeUploadId?: string
+
+  /** Called once the upload session is known, e.g. to store its id for resuming later */
+  onSession?: (session: UploadSession) => void
+
+  /** How many times a failed chunk is resumed before giving up. Default: 5 */
+  maxResumeAttempts?: number
+}
+
+export type DownloadProgressCallback = (bytesReceived: number, total: number | undefined) => void
+
+export interface DownloadOptions extends RequestOptions {
+  /** Called as bytes arrive. `total` is undefined when the server sends no length */
+  onProgress?: DownloadProgressCallback
+
+  /** Start this many bytes into the file, using an HTTP Range request */
+  offset?: number
+}
+
+export interface DownloadToFileOptions extends RequestOptions {
+  onProgress?: DownloadProgressCallback
+
+  /**
+   * Expected SHA-256 of the whole file as hex. Default: the checksum the
+   * server advertises in `Repr-Digest`, `Digest` or `X-Checksum-SHA256`, if any
+   */
+  checksum?: string
+
+  /**
+   * Continue from `<path>.part` left behind by an earlier attempt. Default: true
+   */
+  resume?: boolean
+
+  /** How many times a dropped connection is resumed with a Range request. Default: 5 */
+  maxResumeAttempts?: number
+}
+
+export interface DownloadResult {
+  path: string
+  bytes: number
+  /** SHA-256 of the written file as hex */
+  sha256: string
+  /** Whether bytes from an earlier attempt were reused */
+  resumed: boolean
+}
+
+export interface UploadDatasetOptions extends ChunkedUploadOptions {
   workspaceId?: string
   alias?: string
   filename?: string
   contentType?: string
 }
 
+export type ParquetColumnType =
+  | 'boolean'
+  | 'int32'
+  | 'int64'
+  | 'double'
+  | 'string'
+  | 'date'
+  | 'timestamp'
+  | 'json'
+
+export interface ParquetConversionOptions {
+  /** Column types by name, overriding inference. Declared columns are always written */
+  columns?: Record<string, ParquetColumnType>
+
+  /** Rows per parquet row group. Types are inferred from the first group. Default: 10000 */
+  rowGroupSize?: number
+}
+
+export interface CsvParseOptions {
+  /** Default: ',' */
+  delimiter?: string
+
+  /**
+   * `true` reads column names from the first row, `false` names them
+   * `column_1`, `column_2`, ..., or pass the names. Default: true
+   */
+  header?: boolean | string[]
+
+  /** Cell values read as null. Default: [''] */
+  nullValues?: string[]
+}
+
+/** The parts of an Apache Arrow `Table` the client reads; apache-arrow itself is not a dependency */
+export interface ArrowTableLike {
+  readonly schema: { readonly fields: ReadonlyArray<{ readonly name: string, readonly type?: unknown }> }
+  readonly numRows: number
+  getChild (name: string): { get (index: number): unknown } | null
+}
+
+export type RecordInput =
+  | Iterable<Record<string, unknown>>
+  | AsyncIterable<Record<string, unknown>>
+  | ArrowTableLike
+
+export interface UploadRecordsOptions extends UploadDatasetOptions, ParquetConversionOptions {}
+
+export interface UploadCsvOptions extends UploadRecordsOptions, CsvParseOptions {}
+
+export interface InspectParquetOptions {
+  /** Columns with at most this many distinct values list them in `distinct_values`. Default: 20 */
+  distinctValuesLimit?: number
+}
+
+export interface ParquetInspection {
+  /** Same shape as `getDatasetSchema` */
+  schema: DatasetSchemaResponse
+
+  /** Same shape as `getDatasetMeta`; numeric columns get min, max, avg and std */
+  meta: DatasetMetaResponse
+
+  nullCounts: Record<string, number>
+}
+
+export type SchemaChangeKind = 'removed' | 'added' | 'type_changed' | 'nullability_changed'
+
+export interface SchemaChange {
+  kind: SchemaChangeKind
+  column: string
+  before?: DatasetColumn
+  after?: DatasetColumn
+}
+
+/**
+ * - `strict`: columns may not be added, removed, retyped or change nullability
+ * - `additive`: new columns are allowed; existing columns keep their type
+ * - `none`: no check
+ *
+ * Unless `allColumns` is set, the rules only cover columns that a column set
+ * uses, so new columns and columns nothing uses are always allowed.
+ */
+export type SchemaCompatibilityMode = 'strict' | 'additive' | 'none'
+
+export interface ColumnSetReference {
+  columnSetId: string
+  columnSetName: string
+  role: 'column_to_predict' | 'feature'
+}
+
+export interface SchemaCompatibilityIssue extends SchemaChange {
+  /** Column sets that use the column; these break if the replacement goes ahead */
+  references: ColumnSetReference[]
+  message: string
+}
+
+export interface SchemaCompatibilityReport {
+  mode: SchemaCompatibilityMode
+  /** Whether the mode covered every column or only the ones column sets use */
+  allColumns: boolean
+  compatible: boolean
+
+  /** Every difference between the current and the new schema */
+  changes: SchemaChange[]
+
+  /** The changes the mode does not allow */
+  issues: SchemaCompatibilityIssue[]
+}
+
 export interface ClientOptions {
   /** Base URL of gagara-boost server (no trailing slash) */
   baseUrl: string
@@ -278,25 +680,653 @@ export interface ClientOptions {
 
   /** Default request timeout in ms. Default: 30000 */
   timeout?: number
+
+  /** Retry policy for transient failures. Default: no retries */
+  retry?: RetryOptions
+
+  /** Middleware applied to every request, outermost first */
+  middleware?: Middleware[]
+
+  /**
+   * Check JSON responses against the API types at runtime: `warn` logs
+   * mismatches, `strict` throws ResponseValidationError. Default: 'off'
+   */
+  validateResponses?: ResponseValidationMode
+
+  /**
+   * How the server names datasets and row sets in `query()` SQL, with `{id}`
+   * standing for the id. Default: `dataset_{id}` and `row_set_{id}`
+   */
+  sqlNames?: SqlNameTemplates
+}
+
+export interface SqlNameTemplates {
+  datasetTable?: string
+  rowSetView?: string
+}
+
+export type ResponseValidationMode = 'off' | 'warn' | 'strict'
+
+export type MiddlewareNext = (request: Request) => Promise<Response>
+
+/**
+ * Wraps each HTTP attempt. Call `next` with the (possibly replaced) request
+ * and return its response, or a replacement for it.
+ */
+export type Middleware = (request: Request, next: MiddlewareNext) => Promise<Response>
+
+export interface RetryOptions {
+  /** Total attempts including the first one. Default: 3 */
+  maxAttempts?: number
+
+  /** Base backoff delay in ms. Default: 500 */
+  initialDelay?: number
+
+  /** Upper bound for a single backoff delay in ms, Retry-After included. Default: 30000 */
+  maxDelay?: number
+
+  /** Exponential backoff multiplier. Default: 2 */
+  factor?: number
+
+  /** Randomize each delay between 0 and the computed backoff. Default: true */
+  jitter?: boolean
+
+  /** Response statuses that trigger a retry. Default: [408, 429, 502, 503, 504] */
+  retryOnStatus?: number[]
+
+  /** Also retry non-idempotent requests such as POST /train or POST /datasets. Default: false */
+  retryNonIdempotent?: boolean
+}
+
+export interface JobWaitOptions {
+  /** Delay between status polls in ms. Default: 2000 */
+  pollInterval?: number
+
+  /** Stops polling; does not cancel the job on the server */
+  signal?: AbortSignal
+}
+
+export interface StartJobOptions extends RequestOptions {
+  /**
+   * Emulate a job with the synchronous endpoint when the server has no job
+   * support. Default: true
+   */
+  fallback?: boolean
+}
+
+export interface TrainingProgressEvent {
+  jobId: string
+  status: JobState
+  progress: number | null
+  message: string | null
+}
+
+export interface OptimalParamSearchTrialEvent extends OptimalParamSearchTrial {
+  jobId: string
+}
+
+/**
+ * Where the pipeline's dataset comes from. An existing dataset is referenced
+ * by `id`; otherwise the dataset with `alias` in the workspace is reused, or
+ * created from exactly one of `file`, `records` or `csv`.
+ */
+export type PipelineDatasetSpec =
+  | { id: string }
+  | (UploadCsvOptions & {
+    alias: string
+    file?: UploadSource
+    records?: RecordInput
+    csv?: UploadSource
+  })
+
+export interface PipelineSpec {
+  /** An existing workspace, or one reused or created by name */
+  workspace: { id: string } | { name: string }
+  dataset: PipelineDatasetSpec
+  /** Reused when the workspace has a row set with this name on the dataset */
+  rowSet: { name: string, predicate?: PredicateInput | null }
+  /** Reused when the dataset has a column set with this name */
+  columnSet: Omit<ColumnSetCreate, 'dataset_id'>
+  /** Reused when the workspace has a param set with this name */
+  params: Omit<TrainingParamSetCreate, 'workspace_id'>
+  training?: {
+    time_budget_seconds?: number
+    /**
+     * Names the trained model. A model with this name trained on the same
+     * row set, column set and params is reused instead of training again.
+     */
+    modelName?: string
+    /** Train through `startTraining()` and poll. Default: false */
+    job?: boolean
+    /** Poll interval for `job: true`, in ms */
+    pollInterval?: number
+  }
+}
+
+export type PipelineStepName = 'workspace' | 'dataset' | 'rowSet' | 'columnSet' | 'params' | 'model'
+
+export interface PipelineStepEvent {
+  step: PipelineStepName
+  status: 'created' | 'reused' | 'failed' | 'deleted'
+  id?: string
+  name?: string | null
+  error?: unknown
+}
+
+export interface PipelineOptions extends RequestOptions {
+  /** Called as each step finishes, and for each resource removed during cleanup */
+  onStep?: (event: PipelineStepEvent) => void
+
+  /** Delete the resources this run created when a later step fails. Default: true */
+  cleanup?: boolean
+}
+
+export interface PipelineIds {
+  workspaceId: string
+  datasetId: string
+  rowSetId: string
+  columnSetId: string
+  trainingParamSetId: string
+  modelId: string
+}
+
+export interface PipelineResult {
+  model: ModelDetail
+  ids: PipelineIds
+  /** Steps whose resource this run created rather than reused */
+  created: PipelineStepName[]
+  steps: PipelineStepEvent[]
+}
+
+/**
+ * The desired row sets, column sets and param sets of an existing workspace,
+ * matched to what exists by name. A section that is left out is not managed
+ * at all.
+ */
+export interface WorkspaceManifest {
+  workspace: { id: string } | { name: string }
+  rowSets?: ManifestRowSet[]
+  columnSets?: ManifestColumnSet[]
+  trainingParamSets?: ManifestTrainingParamSet[]
+}
+
+/** `dataset` is the alias of a dataset in the workspace, or a dataset id */
+export interface ManifestRowSet {
+  name: string
+  dataset: string
+  predicate?: PredicateInput | null
+}
+
+/** `dataset` is the alias of a dataset in the workspace, or a dataset id */
+export interface ManifestColumnSet extends Omit<ColumnSetCreate, 'dataset_id'> {
+  dataset: string
+}
+
+/** `meta` is only compared when the manifest sets it */
+export type ManifestTrainingParamSet = Omit<TrainingParamSetCreate, 'workspace_id'>
+
+export type ManifestResourceKind = 'rowSet' | 'columnSet' | 'trainingParamSet'
+
+/**
+ * One planned call. `replace` deletes and recreates a resource whose dataset
+ * changed, since that cannot be updated in place.
+ */
+export interface ManifestChange {
+  action: 'create' | 'update' | 'replace' | 'delete'
+  kind: ManifestResourceKind
+  name: string
+  /** The existing resource; set on created resources once applied */
+  id?: string
+  /** Fields that differ, for update and replace */
+  fields: string[]
+  /** The existing resource, except for create */
+  before?: RowSet | ColumnSet | TrainingParamSet
+  /** The create payload, except for delete */
+  after?: RowSetCreate | ColumnSetCreate | TrainingParamSetCreate
+}
+
+export interface ManifestPlan {
+  workspaceId: string
+  changes: ManifestChange[]
+  /** Resources that already match the manifest */
+  unchanged: number
+}
+
+export interface ManifestOptions extends RequestOptions {
+  /**
+   * Delete resources of a listed section that the manifest does not name.
+   * Default: false
+   */
+  prune?: boolean
+}
+
+export interface BundleDataset {
+  id: string
+  alias: string | null
+  /** The dataset's parquet file */
+  data: Uint8Array
+  columns: StoredDatasetColumn[]
+}
+
+/**
+ * Everything in a workspace, as exported by `exportWorkspace()`. Ids are the
+ * source server's; `importWorkspace()` maps them to the ids it creates.
+ */
+export interface WorkspaceBundle {
+  version: 1
+  exported_at: string
+  workspace: Workspace
+  datasets: BundleDataset[]
+  rowSets: RowSet[]
+  columnSets: ColumnSet[]
+  trainingParamSets: TrainingParamSet[]
+  /** Metadata only; trained models cannot be transferred, only retrained */
+  models: ModelDetail[]
+}
+
+export interface ImportWorkspaceOptions extends RequestOptions {
+  /** Import into this existing workspace instead of creating a new one */
+  targetWorkspaceId?: string
+
+  /** Name of the created workspace. Default: the exported workspace's name */
+  name?: string
+
+  /**
+   * Train each bundled model again on the imported row set, column set and
+   * param set, under its original name. Default: false
+   */
+  retrainModels?: boolean
+
+  /** Poll interval while a model is retrained, in ms */
+  pollInterval?: number
+}
+
+export interface WorkspaceImportResult {
+  workspaceId: string
+  /** The new id of every imported resource, keyed by its id in the bundle */
+  ids: Record<string, string>
+  /** Bundle ids whose resource already existed in the target workspace */
+  reused: string[]
+  /** Ids of bundled models that were not retrained */
+  skippedModels: string[]
+}
+
+/**
+ * A request or response body in a fixture file. Requests keep multipart
+ * fields and digests of binary data rather than the bytes; responses keep
+ * binary bodies as base64.
+ */
+export type FixtureBody =
+  | { json: unknown }
+  | { text: string }
+  | { base64: string }
+  | { sha256: string, size: number }
+  | { form: Record<string, string | { sha256: string, size: number, filename?: string }> }
+
+export interface FixtureRequest {
+  method: string
+  /** Path without host or query string, so fixtures replay against any base URL */
+  path: string
+  query: Record<string, string | string[]>
+  headers: Record<string, string>
+  body: FixtureBody | null
+}
+
+export interface FixtureResponse {
+  status: number
+  headers: Record<string, string>
+  body: FixtureBody | null
+}
+
+export interface HttpFixtureEntry {
+  request: FixtureRequest
+  response: FixtureResponse
+}
+
+/** Contents of a fixture file */
+export interface HttpFixture {
+  version: 1
+  entries: HttpFixtureEntry[]
+}
+
+export interface RedactionOptions {
+  /** Header values replaced with `[REDACTED]`. Default: authorization, cookie, set-cookie, x-api-key */
+  headers?: string[]
+
+  /** JSON body fields and query parameters replaced with `[REDACTED]`, at any depth. Default: ['token'] */
+  fields?: string[]
+}
+
+export interface RecordFetchOptions extends RedactionOptions {
+  /** Default: `globalThis.fetch` */
+  fetch?: typeof fetch
+
+  /** File written by `save()` without an argument */
+  path?: string
+
+  /** Final pass over each entry before it is stored, for custom scrubbing */
+  redact?: (entry: HttpFixtureEntry) => HttpFixtureEntry
+}
+
+export interface ReplayFetchOptions extends RedactionOptions {
+  /**
+   * Serve the last matching entry again once every match has been used,
+   * instead of failing. Polling loops may take more rounds than when they
+   * were recorded. Default: true
+   */
+  reuseLast?: boolean
 }
 
 export interface ErrorResponse {
-  detail?: string
+  detail?: string | ValidationErrorDetail[]
   error?: string
   [key: string]: unknown
 }
 
+/** FastAPI-style entry of a 422 `detail[]` array */
+export interface ValidationErrorDetail {
+  loc: Array<string | number>
+  msg: string
+  type: string
+}
+
 // ------------------------------------------------------------
 // Error Types
 // ------------------------------------------------------------
 
+export interface ErrorContext {
+  /** HTTP method of the failed request */
+  method?: string
+
+  /** Full URL of the failed request */
+  url?: string
+
+  /** Request id sent as X-Request-Id, or the one echoed by the server */
+  requestId?: string
+
+  cause?: unknown
+}
+
 export class GagaraBoostError extends Error {
+  readonly method?: string
+  readonly url?: string
+  readonly requestId?: string
+
   constructor(
     message: string,
     public readonly status: number,
-    public readonly body?: ErrorResponse
+    public readonly body?: ErrorResponse,
+    context: ErrorContext = {}
   ) {
-    super(message)
+    super(message, context.cause === undefined ? undefined : { cause: context.cause })
     this.name = 'GagaraBoostError'
+    this.method = context.method
+    this.url = context.url
+    this.requestId = context.requestId
+  }
+}
+
+/** 401 — missing or invalid token */
+export class AuthenticationError extends GagaraBoostError {
+  constructor(message: string, status: number, body?: ErrorResponse, context?: ErrorContext) {
+    super(message, status, body, context)
+    this.name = 'AuthenticationError'
+  }
+}
+
+/** 403 — token is valid but not allowed to access the resource */
+export class PermissionDeniedError extends GagaraBoostError {
+  constructor(message: string, status: number, body?: ErrorResponse, context?: ErrorContext) {
+    super(message, status, body, context)
+    this.name = 'PermissionDeniedError'
+  }
+}
+
+/** 404 */
+export class NotFoundError extends GagaraBoostError {
+  constructor(message: string, status: number, body?: ErrorResponse, context?: ErrorContext) {
+    super(message, status, body, context)
+    this.name = 'NotFoundError'
+  }
+}
+
+/** 409 */
+export class ConflictError extends GagaraBoostError {
+  constructor(message: string, status: number, body?: ErrorResponse, context?: ErrorContext) {
+    super(message, status, body, context)
+    this.name = 'ConflictError'
+  }
+}
+
+export interface ValidationIssue {
+  /** Where the offending value came from, e.g. `body` or `query` */
+  location?: string
+
+  /** Field path inside the location, e.g. `features[0].age` */
+  path: string
+
+  message: string
+  type?: string
+}
+
+/** 422 — request rejected by server-side validation */
+export class ValidationError extends GagaraBoostError {
+  readonly issues: ValidationIssue[]
+
+  constructor(message: string, status: number, body?: ErrorResponse, context?: ErrorContext) {
+    const issues = parseValidationIssues(body)
+    super(issues.length > 0 ? formatValidationIssues(issues) : message, status, body, context)
+    this.name = 'ValidationError'
+    this.issues = issues
+  }
+}
+
+/** 429 */
+export class RateLimitError extends GagaraBoostError {
+  constructor(
+    message: string,
+    status: number,
+    body?: ErrorResponse,
+    context?: ErrorContext,
+    /** Server-provided Retry-After in ms, when present */
+    public readonly retryAfter?: number
+  ) {
+    super(message, status, body, context)
+    this.name = 'RateLimitError'
+  }
+}
+
+/** 5xx */
+export class ServerError extends GagaraBoostError {
+  constructor(message: string, status: number, body?: ErrorResponse, context?: ErrorContext) {
+    super(message, status, body, context)
+    this.name = 'ServerError'
+  }
+}
+
+/** Response body could not be parsed as JSON */
+export class ResponseParseError extends GagaraBoostError {
+  constructor(message: string, status: number, body?: ErrorResponse, context?: ErrorContext) {
+    super(message, status, body, context)
+    this.name = 'ResponseParseError'
+  }
+}
+
+/** Request exceeded its timeout. `status` is 0 since no response was received. */
+export class TimeoutError extends GagaraBoostError {
+  constructor(
+    message: string,
+    public readonly timeout: number,
+    context?: ErrorContext
+  ) {
+    super(message, 0, undefined, context)
+    this.name = 'TimeoutError'
+  }
+}
+
+/** Connection failed before a response was received. `status` is 0. */
+export class NetworkError extends GagaraBoostError {
+  constructor(message: string, context?: ErrorContext) {
+    super(message, 0, undefined, context)
+    this.name = 'NetworkError'
+  }
+}
+
+export interface ResponseValidationIssue {
+  /** JSON path of the offending field, e.g. `$[0].created_at` */
+  path: string
+  expected: string
+  received: string
+}
+
+/** Response body does not match the expected API type. `status` is the response status. */
+export class ResponseValidationError extends GagaraBoostError {
+  readonly path: string
+  readonly expected: string
+  readonly received: string
+
+  constructor(
+    message: string,
+    status: number,
+    issue: ResponseValidationIssue,
+    context?: ErrorContext
+  ) {
+    super(message, status, undefined, context)
+    this.name = 'ResponseValidationError'
+    this.path = issue.path
+    this.expected = issue.expected
+    this.received = issue.received
+  }
+}
+
+/** Client-side predicate validation failed. `status` is 0. */
+export class PredicateValidationError extends GagaraBoostError {
+  constructor(
+    message: string,
+    public readonly issues: PredicateIssue[]
+  ) {
+    super(message, 0)
+    this.name = 'PredicateValidationError'
+  }
+}
+
+/** `replaceDataset` refused a file whose schema the compatibility mode does not allow. `status` is 0. */
+export class SchemaCompatibilityError extends GagaraBoostError {
+  constructor(
+    message: string,
+    public readonly report: SchemaCompatibilityReport
+  ) {
+    super(message, 0)
+    this.name = 'SchemaCompatibilityError'
+  }
+}
+
+/** A long-running job finished with status `failed`. `status` is 0. */
+export class JobFailedError extends GagaraBoostError {
+  constructor(
+    message: string,
+    public readonly jobId: string,
+    context?: ErrorContext
+  ) {
+    super(message, 0, undefined, context)
+    this.name = 'JobFailedError'
+  }
+}
+
+/** A long-running job was cancelled before producing a result. `status` is 0. */
+export class JobCancelledError extends GagaraBoostError {
+  constructor(
+    message: string,
+    public readonly jobId: string,
+    context?: ErrorContext
+  ) {
+    super(message, 0, undefined, context)
+    this.name = 'JobCancelledError'
   }
 }
+
+/** A downloaded file does not match its expected checksum. `status` is 0. */
+export class ChecksumMismatchError extends GagaraBoostError {
+  constructor(
+    message: string,
+    public readonly expected: string,
+    public readonly actual: string,
+    context?: ErrorContext
+  ) {
+    super(message, 0, undefined, context)
+    this.name = 'ChecksumMismatchError'
+  }
+}
+
+/**
+ * A pipeline step failed. `cause` is the original error, `status` its HTTP
+ * status (0 for client-side failures). `cleanupErrors` lists resources that
+ * could not be removed afterwards.
+ */
+export class PipelineError extends GagaraBoostError {
+  constructor(
+    message: string,
+    public readonly step: PipelineStepName,
+    public readonly ids: Partial<PipelineIds>,
+    public readonly cleanupErrors: unknown[],
+    cause: unknown
+  ) {
+    super(message, cause instanceof GagaraBoostError ? cause.status : 0, undefined, { cause })
+    this.name = 'PipelineError'
+  }
+}
+
+/**
+ * A manifest names datasets that do not exist or repeats a name within a
+ * section. `issues` lists every problem found. `status` is 0.
+ */
+export class ManifestError extends GagaraBoostError {
+  constructor(
+    message: string,
+    public readonly issues: string[]
+  ) {
+    super(message, 0)
+    this.name = 'ManifestError'
+  }
+}
+
+/** A replayed request matches no recorded one. `status` is 0. */
+export class FixtureMismatchError extends GagaraBoostError {
+  constructor(
+    message: string,
+    public readonly request: FixtureRequest
+  ) {
+    super(message, 0)
+    this.name = 'FixtureMismatchError'
+  }
+}
+
+function parseValidationIssues(body?: ErrorResponse): ValidationIssue[] {
+  if (!Array.isArray(body?.detail)) {
+    return []
+  }
+  return body.detail.map((entry) => {
+    const loc = Array.isArray(entry?.loc) ? entry.loc : []
+    const [head, ...rest] = loc
+    const hasLocation = typeof head === 'string' && ['body', 'query', 'path', 'header'].includes(head)
+    const segments = hasLocation ? rest : loc
+    const path = segments.reduce<string>((acc, segment) => {
+      if (typeof segment === 'number') {
+        return `${acc}[${segment}]`
+      }
+      return acc ? `${acc}.${segment}` : String(segment)
+    }, '')
+    return {
+      location: hasLocation ? head : undefined,
+      path,
+      message: String(entry?.msg ?? 'Invalid value'),
+      type: entry?.type,
+    }
+  })
+}
+
+function formatValidationIssues(issues: ValidationIssue[]): string {
+  return issues
+    .map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message))
+    .join('; ')
+}
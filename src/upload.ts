@@ -0,0 +1,223 @@
+import type { ChunkedUploadOptions, UploadFileInput, UploadSource } from './types.js'
+import { nodeFs } from './util.js'
+
+export const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024
+
+export function isInMemorySource (source: UploadSource): source is UploadFileInput {
+  return source instanceof Blob || source instanceof ArrayBuffer || source instanceof Uint8Array
+}
+
+/** Applies the `chunked` default: streams, paths and inputs above one chunk */
+export async function shouldChunk (source: UploadSource, options: ChunkedUploadOptions): Promise<boolean> {
+  if (options.chunked !== undefined || options.resumeUploadId) {
+    return options.chunked !== false
+  }
+  if (!isInMemorySource(source)) {
+    return true
+  }
+  const size = await sourceSize(source)
+  return (size ?? 0) > (options.chunkSize ?? DEFAULT_CHUNK_SIZE)
+}
+
+export function uploadFilename (source: UploadSource, filename?: string): string {
+  if (filename) {
+    return filename
+  }
+  if (typeof source === 'string') {
+    return source.split(/[\\/]/).pop() || 'dataset.parquet'
+  }
+  if (typeof File !== 'undefined' && source instanceof File) {
+    return source.name
+  }
+  return 'dataset.parquet'
+}
+
+/**
+ * Total byte size of a source, or undefined for streams without a declared size.
+ */
+export async function sourceSize (source: UploadSource, declared?: number): Promise<number | undefined> {
+  if (source instanceof Blob) {
+    return source.size
+  }
+  if (source instanceof ArrayBuffer || source instanceof Uint8Array) {
+    return source.byteLength
+  }
+  if (typeof source === 'string') {
+    const fs = await nodeFs()
+    return (await fs.promises.stat(source)).size
+  }
+  return declared
+}
+
+/**
+ * Reads a source as consecutive chunks of `chunkSize` bytes (the last one may
+ * be shorter), starting `skip` bytes in. Only one chunk is held in memory.
+ */
+export async function * readChunks (
+  source: UploadSource,
+  chunkSize: number,
+  skip = 0
+): AsyncGenerator<Uint8Array<ArrayBuffer>> {
+  if (!(chunkSize > 0)) {
+    throw new RangeError(`chunkSize must be positive, got ${chunkSize}`)
+  }
+
+  if (source instanceof Blob) {
+    assertSkip(skip, source.size)
+    for (let position = skip; position < source.size; position += chunkSize) {
+      yield new Uint8Array(await source.slice(position, position + chunkSize).arrayBuffer())
+    }
+    return
+  }
+
+  if (source instanceof ArrayBuffer || source instanceof Uint8Array) {
+    const bytes = source instanceof Uint8Array ? source : new Uint8Array(source)
+    assertSkip(skip, bytes.byteLength)
+    for (let position = skip; position < bytes.byteLength; position += chunkSize) {
+      yield bytes.slice(position, position + chunkSize)
+    }
+    return
+  }
+
+  if (typeof source === 'string') {
+    yield * readFileChunks(source, chunkSize, skip)
+    return
+  }
+
+  yield * rechunk(streamIterable(source), chunkSize, skip)
+}
+
+/**
+ * Materializes a source as a Blob for the single-request upload. File paths
+ * stay on disk where the runtime supports file-backed Blobs.
+ */
+export async function toBlob (source: UploadSource, contentType: string): Promise<Blob> {
+  if (source instanceof Blob) {
+    return source
+  }
+  if (source instanceof ArrayBuffer || source instanceof Uint8Array) {
+    return new Blob([new Uint8Array(source)], { type: contentType })
+  }
+  if (typeof source === 'string') {
+    const fs = await nodeFs()
+    if (typeof fs.openAsBlob === 'function') {
+      return fs.openAsBlob(source, { type: contentType })
+    }
+    return new Blob([new Uint8Array(await fs.promises.readFile(source))], { type: contentType })
+  }
+
+  const parts: Uint8Array<ArrayBuffer>[] = []
+  for await (const part of streamIterable(source)) {
+    parts.push(new Uint8Array(part))
+  }
+  return new Blob(parts, { type: contentType })
+}
+
+async function * readFileChunks (
+  path: string,
+  chunkSize: number,
+  skip: number
+): AsyncGenerator<Uint8Array<ArrayBuffer>> {
+  const fs = await nodeFs()
+  const handle = await fs.promises.open(path, 'r')
+  try {
+    const { size } = await handle.stat()
+    assertSkip(skip, size)
+    for (let position = skip; position < size; position += chunkSize) {
+      const buffer = new Uint8Array(Math.min(chunkSize, size - position))
+      let filled = 0
+      while (filled < buffer.byteLength) {
+        const { bytesRead } = await handle.read(buffer, filled, buffer.byteLength - filled, position + filled)
+        if (bytesRead === 0) {
+          throw new Error(`${path} shrank while it was being uploaded`)
+        }
+        filled += bytesRead
+      }
+      yield buffer
+    }
+  } finally {
+    await handle.close()
+  }
+}
+
+async function * rechunk (
+  parts: AsyncIterable<Uint8Array>,
+  chunkSize: number,
+  skip: number
+): AsyncGenerator<Uint8Array<ArrayBuffer>> {
+  let pending: Uint8Array[] = []
+  let pendingBytes = 0
+  let toSkip = skip
+
+  for await (let part of parts) {
+    if (toSkip > 0) {
+      if (part.byteLength <= toSkip) {
+        toSkip -= part.byteLength
+        continue
+      }
+      part = part.subarray(toSkip)
+      toSkip = 0
+    }
+    pending.push(part)
+    pendingBytes += part.byteLength
+
+    while (pendingBytes >= chunkSize) {
+      const joined = concat(pending, pendingBytes)
+      yield joined.slice(0, chunkSize)
+      const rest = joined.subarray(chunkSize)
+      pending = rest.byteLength > 0 ? [rest] : []
+      pendingBytes = rest.byteLength
+    }
+  }
+
+  if (toSkip > 0) {
+    throw new RangeError(`Source ended before the ${skip} bytes already uploaded`)
+  }
+  if (pendingBytes > 0) {
+    yield concat(pending, pendingBytes)
+  }
+}
+
+async function * streamIterable (
+  source: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>
+): AsyncGenerator<Uint8Array> {
+  if (!isReadableStream(source)) {
+    yield * source
+    return
+  }
+  const reader = source.getReader()
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) {
+        return
+      }
+      yield value
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+function isReadableStream (source: unknown): source is ReadableStream<Uint8Array> {
+  return typeof (source as ReadableStream | null)?.getReader === 'function'
+}
+
+export function concat (
+  parts: Uint8Array[],
+  byteLength = parts.reduce((total, part) => total + part.byteLength, 0)
+): Uint8Array<ArrayBuffer> {
+  const joined = new Uint8Array(byteLength)
+  let offset = 0
+  for (const part of parts) {
+    joined.set(part, offset)
+    offset += part.byteLength
+  }
+  return joined
+}
+
+function assertSkip (skip: number, size: number): void {
+  if (skip > size) {
+    throw new RangeError(`Cannot resume at byte ${skip} of a ${size}-byte source`)
+  }
+}
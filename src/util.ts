@@ -0,0 +1,34 @@
+export function randomId (): string {
+  const cryptoImpl = globalThis.crypto as Crypto | undefined
+  if (typeof cryptoImpl?.randomUUID === 'function') {
+    return cryptoImpl.randomUUID()
+  }
+  return `${Date.now().toString(16)}-${Math.random().toString(16).slice(2)}`
+}
+
+/** JSON with object keys sorted, for comparing values regardless of key order */
+export function canonicalJson (value: unknown): string {
+  return JSON.stringify(value, (_key, item: unknown) => {
+    if (item !== null && typeof item === 'object' && !Array.isArray(item)) {
+      return Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+    }
+    return item
+  })
+}
+
+// Node built-ins are loaded lazily so browser bundles never touch them
+export async function nodeFs (): Promise<typeof import('node:fs')> {
+  assertNode('File system access')
+  return import('node:fs')
+}
+
+export async function nodeCrypto (): Promise<typeof import('node:crypto')> {
+  assertNode('Checksum verification')
+  return import('node:crypto')
+}
+
+function assertNode (feature: string): void {
+  if (typeof process === 'undefined' || !process.versions?.node) {
+    throw new TypeError(`${feature} is only supported in Node`)
+  }
+}
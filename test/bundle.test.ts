@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  GagaraBoostClient,
+  createMockGagaraBoost,
+  loadWorkspaceBundle,
+  saveWorkspaceBundle,
+  where,
+} from '../src/index.js';
+import type { WorkspaceBundle } from '../src/index.js';
+
+function createClient() {
+  return new GagaraBoostClient({ baseUrl: 'http://mock.test', fetch: createMockGagaraBoost() });
+}
+
+async function exportSource(): Promise<WorkspaceBundle> {
+  const client = createClient();
+  const workspace = await client.createWorkspace('staging');
+  const records = [{ age: 25, country: 'DE', churned: false }, { age: 40, country: 'FR', churned: true }];
+  const { dataset_id: datasetId } = await client.uploadRecords(records, { workspaceId: workspace.id, alias: 'customers' });
+  await client.createDatasetColumn(datasetId, {
+    name: 'country',
+    userInput: { is_categorical: true, display_formatter: 'upper' },
+    statistics: { size_bytes: 10, count_distinct: 2 },
+  });
+  const rowSet = await client.createRowSet({
+    workspace_id: workspace.id,
+    base_dataset_id: datasetId,
+    name: 'adults',
+    predicate: where('age').gte(18),
+  });
+  const columnSet = await client.createColumnSet({
+    dataset_id: datasetId,
+    name: 'churn',
+    column_to_predict: 'churned',
+    feature_columns: ['age', { field: 'country', is_categorical: true }],
+  });
+  const paramSet = await client.createTrainingParamSet({ workspace_id: workspace.id, name: 'fast', params: { num_leaves: 15 } });
+  const trained = await client.train({
+    workspace_id: workspace.id,
+    row_set_id: rowSet.id,
+    column_set_id: columnSet.id,
+    training_param_set_id: paramSet.id,
+  });
+  await client.renameModel(trained.id, 'churn-v1');
+  return client.exportWorkspace(workspace.id);
+}
+
+describe('workspace bundles', () => {
+  it('exports every resource of the workspace', async () => {
+    const bundle = await exportSource();
+
+    expect(bundle.version).toBe(1);
+    expect(bundle.workspace.name).toBe('staging');
+    expect(bundle.datasets).toHaveLength(1);
+    expect(bundle.datasets[0]).toMatchObject({ id: 'ds-1', alias: 'customers', columns: [{ name: 'country' }] });
+    expect(bundle.datasets[0].data.byteLength).toBeGreaterThan(0);
+    expect(bundle.rowSets.map((rowSet) => rowSet.id)).toEqual(['rs-1']);
+    expect(bundle.columnSets.map((columnSet) => columnSet.id)).toEqual(['cs-1']);
+    expect(bundle.trainingParamSets.map((paramSet) => paramSet.id)).toEqual(['ps-1']);
+    expect(bundle.models).toMatchObject([{ id: 'model-1', name: 'churn-v1' }]);
+  });
+
+  it('imports into another server with remapped ids', async () => {
+    const bundle = await exportSource();
+    const target = createClient();
+    // Offsets the target's ids from the bundle's
+    const existing = await target.createWorkspace('existing');
+    await target.uploadRecords([{ x: 1 }], { workspaceId: existing.id, alias: 'unrelated' });
+
+    const result = await target.importWorkspace(bundle, { name: 'production' });
+
+    expect(result.workspaceId).toBe('ws-2');
+    expect(result.ids).toEqual({ 'ws-1': 'ws-2', 'ds-1': 'ds-2', 'rs-1': 'rs-1', 'cs-1': 'cs-1', 'ps-1': 'ps-1' });
+    expect(result.skippedModels).toEqual(['model-1']);
+    expect((await target.getWorkspace('ws-2')).name).toBe('production');
+    expect(await target.getRowSet('rs-1')).toMatchObject({ workspace_id: 'ws-2', base_dataset_id: 'ds-2', predicate: bundle.rowSets[0].predicate });
+    expect(await target.getColumnSet('cs-1')).toMatchObject({ dataset_id: 'ds-2', feature_columns: bundle.columnSets[0].feature_columns });
+    expect((await target.listDatasetColumns('ds-2'))[0].userInput).toEqual({ is_categorical: true, display_formatter: 'upper' });
+    expect((await target.getRowSetMeta('rs-1')).row_count).toBe(2);
+  });
+
+  it('retrains models into an existing workspace when asked', async () => {
+    const bundle = await exportSource();
+    const target = createClient();
+    const workspace = await target.createWorkspace('production');
+
+    const result = await target.importWorkspace(bundle, { targetWorkspaceId: workspace.id, retrainModels: true, pollInterval: 0 });
+
+    expect(result.workspaceId).toBe(workspace.id);
+    expect(result.skippedModels).toEqual([]);
+    expect(await target.getModel(result.ids['model-1'])).toMatchObject({
+      name: 'churn-v1',
+      row_set_id: result.ids['rs-1'],
+      column_set_id: result.ids['cs-1'],
+      training_param_set_id: result.ids['ps-1'],
+    });
+    expect(await target.listWorkspaces()).toHaveLength(1);
+  });
+
+  it('reuses matching resources when imported into the same workspace again', async () => {
+    const bundle = await exportSource();
+    const target = createClient();
+    const workspace = await target.createWorkspace('production');
+    const options = { targetWorkspaceId: workspace.id, retrainModels: true, pollInterval: 0 };
+    const first = await target.importWorkspace(bundle, options);
+
+    const second = await target.importWorkspace(bundle, options);
+
+    expect(second.ids).toEqual(first.ids);
+    expect(second.reused).toEqual(['ds-1', 'rs-1', 'cs-1', 'ps-1', 'model-1']);
+    expect(await target.listDatasets(workspace.id)).toHaveLength(1);
+    expect(await target.listRowSets(workspace.id)).toHaveLength(1);
+    expect(await target.listModels()).toHaveLength(1);
+  });
+
+  it('refuses to import over same-named resources with other settings', async () => {
+    const bundle = await exportSource();
+    const target = createClient();
+    const workspace = await target.createWorkspace('production');
+    await target.createTrainingParamSet({ workspace_id: workspace.id, name: 'fast', params: { num_leaves: 63 } });
+
+    await expect(target.importWorkspace(bundle, { targetWorkspaceId: workspace.id })).rejects.toThrow(
+      'Target workspace has resources with the same names and other settings: param set "fast"'
+    );
+    expect(await target.listDatasets(workspace.id)).toEqual([]);
+  });
+
+  it('refuses to reuse a same-alias dataset with other data', async () => {
+    const bundle = await exportSource();
+    const target = createClient();
+    const workspace = await target.createWorkspace('production');
+    const records = [{ age: 31, country: 'ES', churned: true }, { age: 52, country: 'IT', churned: false }];
+    const { dataset_id: datasetId } = await target.uploadRecords(records, { workspaceId: workspace.id, alias: 'customers' });
+
+    await expect(target.importWorkspace(bundle, { targetWorkspaceId: workspace.id })).rejects.toThrow(
+      'Target workspace has resources with the same names and other settings: dataset "customers"'
+    );
+    expect(await target.listRowSets(workspace.id)).toEqual([]);
+    expect((await target.listDatasetColumns(datasetId)).find((column) => column.name === 'country')?.userInput).not.toEqual({
+      is_categorical: true,
+      display_formatter: 'upper',
+    });
+  });
+
+  it('saves bundles as JSON plus parquet files and loads them back', async () => {
+    const bundle = await exportSource();
+    const dir = await mkdtemp(join(tmpdir(), 'gagara-bundle-'));
+
+    try {
+      await saveWorkspaceBundle(bundle, dir);
+      expect(await readdir(join(dir, 'datasets'))).toEqual(['ds-1.parquet']);
+
+      expect(await loadWorkspaceBundle(dir)).toEqual(bundle);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects bundles whose resources reference missing datasets', async () => {
+    const bundle = await exportSource();
+    const target = createClient();
+
+    await expect(target.importWorkspace({ ...bundle, datasets: [] })).rejects.toThrow(
+      'Bundle references datasets it does not contain: row set "adults" (dataset ds-1); column set "churn" (dataset ds-1)'
+    );
+    expect(await target.listWorkspaces()).toEqual([]);
+  });
+});
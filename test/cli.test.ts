@@ -0,0 +1,202 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { formatTable, nodeIO, runCli } from '../src/cli.js';
+import { GagaraBoostClient, createMockGagaraBoost } from '../src/index.js';
+import type { CliIO } from '../src/cli.js';
+
+function createIO(responses: unknown[] = [], files: Record<string, string> = {}) {
+  const out: string[] = [];
+  const err: string[] = [];
+  const written: Record<string, Uint8Array> = {};
+  const fetch = vi.fn(async (_input: RequestInfo | URL, _init?: RequestInit) => {
+    const body = responses.shift();
+    if (body instanceof Response) {
+      return body;
+    }
+    return new Response(JSON.stringify(body ?? {}), { status: 200 });
+  });
+  const io: CliIO = {
+    env: { GAGARA_BOOST_SERVER_URL: 'https://boost.test', GAGARA_BOOST_CONFIG: '/config.json' },
+    stdout: (text) => out.push(text),
+    stderr: (text) => err.push(text),
+    readFile: async (file) => {
+      if (!(file in files)) {
+        throw new Error(`ENOENT: ${file}`);
+      }
+      return new TextEncoder().encode(files[file]);
+    },
+    openFile: async (file) => new Blob([await io.readFile(file)]),
+    downloadDataset: async (client, id, file) => {
+      written[file] = new Uint8Array(await client.downloadDataset(id));
+      return { path: file, bytes: written[file].byteLength, sha256: 'test', resumed: false };
+    },
+    fetch,
+  };
+  return { io, fetch, out, err, written };
+}
+
+const workspace = {
+  id: 'ws-1',
+  owner_user_id: 'u-1',
+  name: 'Main',
+  is_default: true,
+  created_at: '2024-01-01T00:00:00Z',
+};
+
+describe('cli', () => {
+  it('prints a table by default and JSON with --json', async () => {
+    const table = createIO([[workspace]]);
+    expect(await runCli(['workspaces', 'ls'], table.io)).toBe(0);
+    expect(table.out[0]).toContain('ID    OWNER_USER_ID  NAME  IS_DEFAULT');
+    expect(table.out[0]).toContain('ws-1  u-1            Main  true');
+
+    const json = createIO([[workspace]]);
+    expect(await runCli(['workspaces', 'ls', '--json'], json.io)).toBe(0);
+    expect(JSON.parse(json.out[0])).toEqual([workspace]);
+  });
+
+  it('reads the base URL and token from a config profile', async () => {
+    const config = JSON.stringify({
+      profiles: { staging: { baseUrl: 'https://staging.test', token: 'profile-token' } },
+    });
+    const { io, fetch } = createIO([[workspace]], { '/config.json': config });
+    delete io.env.GAGARA_BOOST_SERVER_URL;
+
+    await runCli(['workspaces', 'ls', '--profile', 'staging'], io);
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('https://staging.test/workspaces');
+    expect(new Headers(init?.headers).get('Authorization')).toBe('Bearer profile-token');
+  });
+
+  it('prefers flags over env over profile', async () => {
+    const config = JSON.stringify({ profiles: { default: { baseUrl: 'https://profile.test' } } });
+    const { io, fetch } = createIO([[]], { '/config.json': config });
+    io.env.GAGARA_BOOST_USER_TOKEN = 'env-token';
+
+    await runCli(['workspaces', 'ls', '--url', 'https://flag.test'], io);
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('https://flag.test/workspaces');
+    expect(new Headers(init?.headers).get('Authorization')).toBe('Bearer env-token');
+  });
+
+  it('passes list options to ls', async () => {
+    const { io, fetch } = createIO([[]]);
+
+    await runCli(['datasets', 'ls', '-w', 'ws-1', '--limit', '5', '--sort=-created_at', '--search', 'sales'], io);
+
+    const url = new URL(fetch.mock.calls[0][0] as string);
+    expect(url.pathname).toBe('/datasets');
+    expect(url.searchParams.get('workspace_id')).toBe('ws-1');
+    expect(url.searchParams.get('limit')).toBe('5');
+    expect(url.searchParams.get('sort')).toBe('-created_at');
+    expect(url.searchParams.get('search')).toBe('sales');
+  });
+
+  it('builds request bodies from options and JSON arguments', async () => {
+    const predicate = { age: { $gt: 30 } };
+    const { io, fetch } = createIO([{}], { 'pred.json': JSON.stringify(predicate) });
+
+    await runCli([
+      'row-sets', 'create', '-w', 'ws-1', '-d', 'ds-1', '-n', 'adults', '--predicate', '@pred.json', '--json',
+    ], io);
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('https://boost.test/row-sets');
+    expect(JSON.parse(init?.body as string)).toEqual({
+      workspace_id: 'ws-1',
+      base_dataset_id: 'ds-1',
+      name: 'adults',
+      predicate,
+    });
+  });
+
+  it('plans and applies manifests', async () => {
+    const mock = createMockGagaraBoost();
+    await new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mock }).createWorkspace('main');
+    const manifest = { workspace: { name: 'main' }, trainingParamSets: [{ name: 'fast', params: { num_leaves: 15 } }] };
+    const { io, out } = createIO([], { 'manifest.json': JSON.stringify(manifest) });
+    io.fetch = mock;
+
+    expect(await runCli(['plan', '@manifest.json'], io)).toBe(0);
+    expect(out[0]).toMatch(/^ACTION +KIND +NAME/);
+    expect(out[0]).toContain('create  trainingParamSet  fast');
+    expect(await runCli(['apply', '@manifest.json'], io)).toBe(0);
+    expect(await runCli(['plan', '@manifest.json'], io)).toBe(0);
+    expect(out[2]).toBe('No changes (1 unchanged)');
+  });
+
+  it('writes downloaded datasets to a file', async () => {
+    const { io, written, out } = createIO([new Response(new Uint8Array([1, 2, 3]))]);
+
+    expect(await runCli(['datasets', 'download', 'ds-1', 'out.parquet', '--json'], io)).toBe(0);
+
+    expect([...written['out.parquet']]).toEqual([1, 2, 3]);
+    expect(JSON.parse(out[0])).toMatchObject({ path: 'out.parquet', bytes: 3 });
+  });
+
+  it('downloads through a part file and opens uploads from disk with the Node IO', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'gagara-cli-'));
+    const file = join(dir, 'out.parquet');
+    const { io, out } = createIO([new Response(new Uint8Array([1, 2, 3]))]);
+    const node = nodeIO();
+
+    try {
+      expect(await runCli(['datasets', 'download', 'ds-1', file, '--json'], { ...io, downloadDataset: node.downloadDataset })).toBe(0);
+
+      expect([...await readFile(file)]).toEqual([1, 2, 3]);
+      expect(JSON.parse(out[0])).toMatchObject({ path: file, bytes: 3, resumed: false });
+      expect(await (await node.openFile(file)).arrayBuffer()).toEqual(new Uint8Array([1, 2, 3]).buffer);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('uploads files opened through the IO', async () => {
+    const { io, fetch } = createIO([{ dataset_id: 'ds-1' }], { 'data/customers.parquet': 'PAR1' });
+
+    expect(await runCli(['datasets', 'upload', 'data/customers.parquet', '-w', 'ws-1', '--json'], io)).toBe(0);
+
+    const file = (fetch.mock.calls[0][1]?.body as FormData).get('file') as File;
+    expect(file.name).toBe('customers.parquet');
+    expect(await file.text()).toBe('PAR1');
+  });
+
+  it('exits with 2 on usage errors', async () => {
+    const { io, err, fetch } = createIO();
+
+    expect(await runCli(['models', 'frobnicate'], io)).toBe(2);
+    expect(await runCli(['train', '-w', 'ws-1'], io)).toBe(2);
+    expect(await runCli(['workspaces', 'ls', '--bogus'], io)).toBe(2);
+    expect(await runCli(['datasets', 'replace', 'ds-1', 'a.parquet', '--compatibility', 'loose'], io)).toBe(2);
+
+    expect(err[0]).toContain('Unknown subcommand "models frobnicate"');
+    expect(err[1]).toContain('Missing required option --row-set');
+    expect(err[3]).toContain('--compatibility must be strict, additive or none, got "loose"');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('exits with 1 and reports API errors', async () => {
+    const { io, err } = createIO([
+      new Response(JSON.stringify({ detail: 'Model not found' }), { status: 404 }),
+    ]);
+
+    expect(await runCli(['models', 'get', 'missing'], io)).toBe(1);
+    expect(err[0]).toBe('error (404): Model not found');
+  });
+});
+
+describe('formatTable', () => {
+  it('renders objects as field/value rows and nested values as JSON', () => {
+    expect(formatTable({ id: 'm-1', metrics: { auc: 0.9 }, name: null })).toBe(
+      'FIELD    VALUE\n' +
+      'id       m-1\n' +
+      'metrics  {"auc":0.9}\n' +
+      'name'
+    );
+    expect(formatTable([])).toBe('(empty)');
+  });
+});
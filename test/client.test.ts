@@ -1,5 +1,14 @@
 import { describe, it, expect, vi } from 'vitest';
-import { GagaraBoostClient, GagaraBoostError } from '../src/index.js';
+import {
+  GagaraBoostClient,
+  GagaraBoostError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  ResponseParseError,
+  TimeoutError,
+  ValidationError,
+} from '../src/index.js';
 
 interface MockResponse {
   status: number;
@@ -133,3 +142,220 @@ describe('GagaraBoostClient', () => {
     await expect(promise).rejects.toThrow('Not found');
   });
 });
+
+describe('GagaraBoostClient retry', () => {
+  function createSequenceFetch(sequence: Array<MockResponse & { headers?: Record<string, string> }>) {
+    return vi.fn(async () => {
+      const response = sequence.shift();
+      if (!response) {
+        throw new Error('No more mock responses');
+      }
+      const rawText = response.body === undefined ? '' : JSON.stringify(response.body);
+      return new Response(rawText || null, {
+        status: response.status,
+        headers: response.headers,
+      });
+    });
+  }
+
+  it('does not retry when no retry policy is configured', async () => {
+    const mockFetch = createSequenceFetch([
+      { status: 503, body: { detail: 'Unavailable' } },
+      { status: 200, body: [] },
+    ]);
+
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch });
+
+    await expect(client.listWorkspaces()).rejects.toThrow('Unavailable');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries idempotent requests on transient statuses', async () => {
+    const mockFetch = createSequenceFetch([
+      { status: 502 },
+      { status: 429, headers: { 'Retry-After': '0' } },
+      { status: 200, body: [{ id: 'w1' }] },
+    ]);
+
+    const client = new GagaraBoostClient({
+      baseUrl: 'https://boost.test',
+      fetch: mockFetch,
+      retry: { maxAttempts: 3, initialDelay: 1 },
+    });
+
+    await expect(client.listWorkspaces()).resolves.toEqual([{ id: 'w1' }]);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries network errors', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(new Response('[]', { status: 200 }));
+
+    const client = new GagaraBoostClient({
+      baseUrl: 'https://boost.test',
+      fetch: mockFetch,
+      retry: { initialDelay: 1 },
+    });
+
+    await expect(client.listWorkspaces()).resolves.toEqual([]);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries POST only when opted in', async () => {
+    const request = {
+      workspace_id: 'ws1',
+      row_set_id: 'rs1',
+      column_set_id: 'cs1',
+      training_param_set_id: 'tp1',
+    };
+
+    const mockFetch = createSequenceFetch([{ status: 503 }, { status: 200, body: {} }]);
+    const client = new GagaraBoostClient({
+      baseUrl: 'https://boost.test',
+      fetch: mockFetch,
+      retry: { initialDelay: 1 },
+    });
+    await expect(client.train(request)).rejects.toThrow(GagaraBoostError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    const optInFetch = createSequenceFetch([
+      { status: 503 },
+      { status: 200, body: { status: 'completed', id: 'm1', metrics: {} } },
+    ]);
+    const optInClient = new GagaraBoostClient({
+      baseUrl: 'https://boost.test',
+      fetch: optInFetch,
+      retry: { initialDelay: 1, retryNonIdempotent: true },
+    });
+    await expect(optInClient.train(request)).resolves.toMatchObject({ status: 'success' });
+    expect(optInFetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('GagaraBoostClient request options', () => {
+  function createHangingFetch() {
+    return vi.fn(
+      (_input: RequestInfo | URL, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+        })
+    );
+  }
+
+  it('aborts a call when the caller signal fires', async () => {
+    const mockFetch = createHangingFetch();
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch });
+
+    const controller = new AbortController();
+    const promise = client.listModels(undefined, { signal: controller.signal });
+    controller.abort(new Error('unmounted'));
+
+    await expect(promise).rejects.toThrow('unmounted');
+  });
+
+  it('applies a per-call timeout override', async () => {
+    const mockFetch = createHangingFetch();
+    const client = new GagaraBoostClient({
+      baseUrl: 'https://boost.test',
+      fetch: mockFetch,
+      timeout: 60_000,
+    });
+
+    await expect(client.getWorkspace('w1', { timeout: 5 })).rejects.toThrow();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps non-request options out of the fetch init', async () => {
+    const mockFetch = createMockFetch({
+      'GET /row-sets/rs1/meta?force=true': { status: 200, body: { row_count: 1 } },
+    });
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch });
+
+    await client.getRowSetMeta('rs1', { force: true, timeout: 1_000 });
+
+    const init = mockFetch.mock.calls[0]?.[1] as Record<string, unknown>;
+    expect(init).not.toHaveProperty('force');
+    expect(init).not.toHaveProperty('timeout');
+  });
+});
+
+describe('GagaraBoostClient errors', () => {
+  it('maps statuses to error subclasses with request context', async () => {
+    const mockFetch = createMockFetch({
+      'DELETE /models/m1': { status: 404, body: { detail: 'Model not found' } },
+    });
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch });
+
+    const error = await client.deleteModel('m1').catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error).toBeInstanceOf(GagaraBoostError);
+    expect(error).toMatchObject({
+      status: 404,
+      method: 'DELETE',
+      url: 'https://boost.test/models/m1',
+      message: 'Model not found',
+    });
+    const headers = mockFetch.mock.calls[0]?.[1]?.headers as Headers;
+    expect((error as NotFoundError).requestId).toBe(headers.get('X-Request-Id'));
+  });
+
+  it('parses FastAPI validation details into field paths', async () => {
+    const mockFetch = createMockFetch({
+      'POST /row-sets': {
+        status: 422,
+        body: {
+          detail: [
+            { loc: ['body', 'name'], msg: 'field required', type: 'value_error.missing' },
+            { loc: ['body', 'predicate', 'and', 0], msg: 'invalid', type: 'value_error' },
+          ],
+        },
+      },
+    });
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch });
+
+    const error = await client
+      .createRowSet({ name: '', workspace_id: 'ws1', base_dataset_id: 'ds1' })
+      .catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).issues).toEqual([
+      { location: 'body', path: 'name', message: 'field required', type: 'value_error.missing' },
+      { location: 'body', path: 'predicate.and[0]', message: 'invalid', type: 'value_error' },
+    ]);
+    expect((error as ValidationError).message).toBe('name: field required; predicate.and[0]: invalid');
+  });
+
+  it('exposes Retry-After on rate limit errors', async () => {
+    const mockFetch = vi.fn(
+      async () => new Response('{"detail":"Slow down"}', { status: 429, headers: { 'Retry-After': '3' } })
+    );
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch });
+
+    const error = await client.listWorkspaces().catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).retryAfter).toBe(3000);
+  });
+
+  it('wraps timeouts, network failures and invalid JSON', async () => {
+    const hangingFetch = vi.fn(
+      (_input: RequestInfo | URL, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+        })
+    );
+    const slowClient = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: hangingFetch, timeout: 5 });
+    await expect(slowClient.listWorkspaces()).rejects.toBeInstanceOf(TimeoutError);
+
+    const failingFetch = vi.fn().mockRejectedValue(new TypeError('fetch failed'));
+    const offlineClient = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: failingFetch });
+    await expect(offlineClient.listWorkspaces()).rejects.toBeInstanceOf(NetworkError);
+
+    const garbledFetch = createMockFetch({ 'GET /workspaces': { status: 200, rawText: '<html>' } });
+    const garbledClient = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: garbledFetch });
+    await expect(garbledClient.listWorkspaces()).rejects.toBeInstanceOf(ResponseParseError);
+  });
+});
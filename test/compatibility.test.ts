@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  GagaraBoostClient,
+  SchemaCompatibilityError,
+  checkSchemaCompatibility,
+  recordsToParquet,
+} from '../src/index.js';
+import type { ColumnSet } from '../src/index.js';
+
+const current = {
+  columns: [
+    { name: 'id', data_type: 'BIGINT', nullable: true },
+    { name: 'age', data_type: 'BIGINT', nullable: true },
+    { name: 'churned', data_type: 'BOOLEAN', nullable: true },
+    { name: 'note', data_type: 'VARCHAR', nullable: true },
+  ],
+};
+
+const columnSet: ColumnSet = {
+  id: 'cs-1',
+  dataset_id: 'ds-1',
+  name: 'churn',
+  column_to_predict: 'churned',
+  feature_columns: ['age', { field: 'note', is_categorical: false }],
+  created_at: '2024-01-01T00:00:00Z',
+};
+
+function schemaOf(columns: Array<[string, string]>) {
+  return { columns: columns.map(([name, data_type]) => ({ name, data_type, nullable: true })) };
+}
+
+describe('checkSchemaCompatibility', () => {
+  it('refuses removed and retyped columns in additive mode and names the column sets using them', () => {
+    const candidate = schemaOf([['id', 'BIGINT'], ['age', 'DOUBLE'], ['note', 'VARCHAR'], ['extra', 'VARCHAR']]);
+
+    const report = checkSchemaCompatibility(current, candidate, [columnSet], 'additive');
+
+    expect(report.compatible).toBe(false);
+    expect(report.changes.map((change) => change.kind)).toEqual(['type_changed', 'removed', 'added']);
+    expect(report.issues).toEqual([
+      expect.objectContaining({
+        kind: 'type_changed',
+        column: 'age',
+        references: [{ columnSetId: 'cs-1', columnSetName: 'churn', role: 'feature' }],
+        message: 'column "age" changes type from BIGINT to DOUBLE, used by column set churn (feature)',
+      }),
+      expect.objectContaining({
+        kind: 'removed',
+        column: 'churned',
+        references: [{ columnSetId: 'cs-1', columnSetName: 'churn', role: 'column_to_predict' }],
+        message: 'column "churned" is missing, used by column set churn (column_to_predict)',
+      }),
+    ]);
+  });
+
+  it('allows dropping a column no column set uses', () => {
+    const candidate = { columns: current.columns.filter((column) => column.name !== 'id') };
+
+    const report = checkSchemaCompatibility(current, candidate, [columnSet], 'strict');
+
+    expect(report.compatible).toBe(true);
+    expect(report.changes).toEqual([expect.objectContaining({ kind: 'removed', column: 'id' })]);
+    expect(checkSchemaCompatibility(current, candidate, [columnSet], 'additive', true).compatible).toBe(false);
+  });
+
+  it('refuses retyping a referenced feature column', () => {
+    const candidate = { columns: current.columns.map((column) => column.name === 'note' ? { ...column, data_type: 'BIGINT' } : column) };
+
+    const report = checkSchemaCompatibility(current, candidate, [columnSet], 'additive');
+
+    expect(report.compatible).toBe(false);
+    expect(report.issues).toEqual([expect.objectContaining({
+      kind: 'type_changed',
+      column: 'note',
+      references: [{ columnSetId: 'cs-1', columnSetName: 'churn', role: 'feature' }],
+    })]);
+  });
+
+  it('applies the mode to every column with allColumns', () => {
+    const candidate = { columns: [...current.columns, { name: 'extra', data_type: 'VARCHAR', nullable: true }] };
+
+    expect(checkSchemaCompatibility(current, candidate, [columnSet], 'strict').compatible).toBe(true);
+    expect(checkSchemaCompatibility(current, candidate, [columnSet], 'additive', true).compatible).toBe(true);
+    const strict = checkSchemaCompatibility(current, candidate, [columnSet], 'strict', true);
+    expect(strict.compatible).toBe(false);
+    expect(strict.issues[0]).toMatchObject({ kind: 'added', column: 'extra', references: [] });
+    expect(checkSchemaCompatibility(current, schemaOf([]), [columnSet], 'none', true).compatible).toBe(true);
+  });
+});
+
+describe('replaceDataset compatibility', () => {
+  function createFetch() {
+    return vi.fn(async (input: RequestInfo | URL, _init?: RequestInit) => {
+      const url = new URL(String(input));
+      if (url.pathname === '/datasets/ds-1/schema') {
+        return Response.json(current);
+      }
+      if (url.pathname === '/column-sets') {
+        return Response.json(url.searchParams.get('dataset_id') === 'ds-1' ? [columnSet] : []);
+      }
+      return Response.json({ id: 'ds-1', alias: null, workspace_id: 'ws-1', created_at: '2024-01-01T00:00:00Z' });
+    });
+  }
+
+  const compatibleRows = [{ id: 1, age: 30, churned: true, note: 'x', extra: 'y' }];
+
+  it('uploads when the new file is compatible', async () => {
+    const mockFetch = createFetch();
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch });
+
+    const item = await client.replaceDataset('ds-1', await recordsToParquet(compatibleRows), {
+      compatibility: 'additive',
+    });
+
+    expect(item.id).toBe('ds-1');
+    expect(mockFetch.mock.calls.map(([url]) => new URL(String(url)).pathname).sort()).toEqual([
+      '/column-sets',
+      '/datasets/ds-1/replace',
+      '/datasets/ds-1/schema',
+    ]);
+  });
+
+  it('throws SchemaCompatibilityError with the report and does not upload', async () => {
+    const mockFetch = createFetch();
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch });
+    const parquet = await recordsToParquet([{ id: 1, age: 30, note: 'x' }]);
+
+    const error = await client.replaceDataset('ds-1', parquet, { compatibility: 'strict' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(SchemaCompatibilityError);
+    expect(error.status).toBe(0);
+    expect(error.report.issues.map((issue: { column: string }) => issue.column)).toEqual(['churned']);
+    expect(error.message).toContain('column "churned" is missing');
+    expect(mockFetch.mock.calls.some(([url]) => String(url).includes('/replace'))).toBe(false);
+  });
+
+  it('buffers streams so they can be checked and uploaded', async () => {
+    const mockFetch = createFetch();
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch });
+    const parquet = await recordsToParquet(compatibleRows);
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(parquet);
+        controller.close();
+      },
+    });
+
+    await client.replaceDataset('ds-1', stream, { compatibility: 'additive', chunked: false });
+
+    const upload = mockFetch.mock.calls.find(([url]) => String(url).endsWith('/replace'));
+    const file = (upload?.[1]?.body as FormData).get('file') as File;
+    expect(file.size).toBe(parquet.byteLength);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parquetMetadata, parquetReadObjects } from 'hyparquet';
+import { Table, TimestampMillisecond, vectorFromArray } from 'apache-arrow';
+import {
+  GagaraBoostClient,
+  csvToParquet,
+  parseCsv,
+  parseJsonLines,
+  recordsToParquet,
+} from '../src/index.js';
+
+async function readParquet(bytes: Uint8Array) {
+  const file = bytes.slice().buffer;
+  const metadata = parquetMetadata(file);
+  const rows = await parquetReadObjects({ file });
+  const types = Object.fromEntries(metadata.schema.slice(1).map((element) => [
+    element.name,
+    element.converted_type ?? element.type,
+  ]));
+  return { rows, types, rowGroups: metadata.row_groups.length };
+}
+
+function blob(text: string): Blob {
+  return new Blob([text]);
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('recordsToParquet', () => {
+  it('infers column types from plain objects', async () => {
+    const { rows, types } = await readParquet(await recordsToParquet([
+      { id: 1, price: 9.5, name: 'a', active: true, at: new Date('2024-01-01T00:00:00Z'), tags: ['x'] },
+      { id: 2, price: 10, name: null, active: false, at: null, tags: null },
+    ]));
+
+    expect(types).toEqual({
+      id: 'INT64',
+      price: 'DOUBLE',
+      name: 'UTF8',
+      active: 'BOOLEAN',
+      at: 'TIMESTAMP_MILLIS',
+      tags: 'JSON',
+    });
+    expect(rows[0]).toMatchObject({ id: 1n, price: 9.5, name: 'a', active: true, tags: ['x'] });
+    expect((rows[0].at as Date).toISOString()).toBe('2024-01-01T00:00:00.000Z');
+    expect(rows[1]).toMatchObject({ name: null, at: null });
+  });
+
+  it('applies explicit column types', async () => {
+    const { rows, types } = await readParquet(await recordsToParquet(
+      [{ zip: 1234, score: 3, day: '2024-02-03' }],
+      { columns: { zip: 'string', score: 'double', day: 'date', extra: 'int32' } }
+    ));
+
+    expect(types).toEqual({ zip: 'UTF8', score: 'DOUBLE', day: 'DATE', extra: 'INT32' });
+    expect(rows[0]).toMatchObject({ zip: '1234', score: 3, extra: null });
+  });
+
+  it('streams async iterables into row groups', async () => {
+    async function * generate() {
+      for (let index = 0; index < 25; index++) {
+        yield { index };
+      }
+    }
+
+    const { rows, rowGroups } = await readParquet(await recordsToParquet(generate(), { rowGroupSize: 10 }));
+
+    expect(rowGroups).toBe(3);
+    expect(rows.map((row) => row.index)).toEqual(Array.from({ length: 25 }, (_, index) => BigInt(index)));
+  });
+
+  it('reports values that do not fit the inferred type', async () => {
+    const records = [{ amount: 1 }, { amount: 'n/a' }];
+
+    await expect(recordsToParquet(records, { rowGroupSize: 1 }))
+      .rejects.toThrow('Row 2, column "amount": cannot convert "n/a" to int64');
+    await expect(recordsToParquet([{ a: 1 }, { a: 2, b: 3 }], { rowGroupSize: 1 }))
+      .rejects.toThrow('Row 2: column "b" did not appear in the first 1 rows');
+  });
+
+  it('converts Apache Arrow tables using their field types', async () => {
+    const table = new Table({
+      id: vectorFromArray(Int32Array.from([1, 2])),
+      label: vectorFromArray(['x', 'y']),
+      at: vectorFromArray([new Date('2024-01-01T00:00:00Z'), null], new TimestampMillisecond()),
+    });
+
+    const { rows, types } = await readParquet(await recordsToParquet(table));
+
+    expect(types).toEqual({ id: 'INT32', label: 'UTF8', at: 'TIMESTAMP_MILLIS' });
+    expect(rows[1]).toEqual({ id: 2, label: 'y', at: null });
+    expect((rows[0].at as Date).getTime()).toBe(Date.parse('2024-01-01T00:00:00Z'));
+  });
+});
+
+describe('CSV and JSON Lines', () => {
+  it('parses quoted fields, embedded newlines and CRLF', async () => {
+    const csv = 'id,comment\r\n1,"hello, ""world"""\r\n2,"two\nlines"\r\n\r\n3,\r\n';
+
+    expect(await collect(parseCsv(blob(csv)))).toEqual([
+      { id: '1', comment: 'hello, "world"' },
+      { id: '2', comment: 'two\nlines' },
+      { id: '3', comment: null },
+    ]);
+  });
+
+  it('supports custom delimiters and headers', async () => {
+    const rows = await collect(parseCsv(blob('1;x\n2;y'), { delimiter: ';', header: false }));
+
+    expect(rows).toEqual([
+      { column_1: '1', column_2: 'x' },
+      { column_1: '2', column_2: 'y' },
+    ]);
+    await expect(collect(parseCsv(blob('a,b\n1')))).rejects.toThrow('CSV row 2: expected 2 fields, got 1');
+  });
+
+  it('infers types from CSV text and keeps leading zeros', async () => {
+    const csv = 'id,price,zip,ok,day,at\n1,2.5,00123,true,2024-01-02,2024-01-02T03:04:05Z\n2,3,00456,FALSE,,\n';
+
+    const { rows, types } = await readParquet(await csvToParquet(blob(csv)));
+
+    expect(types).toEqual({
+      id: 'INT64',
+      price: 'DOUBLE',
+      zip: 'UTF8',
+      ok: 'BOOLEAN',
+      day: 'DATE',
+      at: 'TIMESTAMP_MILLIS',
+    });
+    expect(rows[1]).toMatchObject({ id: 2n, price: 3, zip: '00456', ok: false, day: null, at: null });
+  });
+
+  it('parses JSON Lines across chunk boundaries', async () => {
+    const text = '{"a":1}\n\n{"a":2,"b":"x"}\n';
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const bytes = new TextEncoder().encode(text);
+        controller.enqueue(bytes.subarray(0, 5));
+        controller.enqueue(bytes.subarray(5));
+        controller.close();
+      },
+    });
+
+    expect(await collect(parseJsonLines(stream))).toEqual([{ a: 1 }, { a: 2, b: 'x' }]);
+    await expect(collect(parseJsonLines(blob('{"a":1}\n[1]')))).rejects.toThrow('JSONL line 2: expected an object');
+  });
+});
+
+describe('uploadRecords and uploadCsv', () => {
+  function createUploadFetch() {
+    return vi.fn(async (_input: RequestInfo | URL, _init?: RequestInit) =>
+      new Response(JSON.stringify({ dataset_id: 'ds-1', created_at: '2024-01-01T00:00:00Z' }), { status: 200 })
+    );
+  }
+
+  it('uploads converted parquet with the dataset options', async () => {
+    const mockFetch = createUploadFetch();
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch });
+
+    await client.uploadRecords([{ a: 1 }], { workspaceId: 'ws-1', alias: 'records' });
+    await client.uploadCsv(blob('a\n1\n'), { workspaceId: 'ws-1' });
+
+    for (const [url, init] of mockFetch.mock.calls) {
+      expect(url).toBe('https://boost.test/datasets');
+      const form = init?.body as FormData;
+      const file = form.get('file') as File;
+      expect(file.name).toBe('dataset.parquet');
+      expect(form.get('workspace_id')).toBe('ws-1');
+      const { rows } = await readParquet(new Uint8Array(await file.arrayBuffer()));
+      expect(rows).toEqual([{ a: 1n }]);
+    }
+    expect((mockFetch.mock.calls[0][1]?.body as FormData).get('alias')).toBe('records');
+  });
+});
@@ -0,0 +1,154 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import { mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { createHash } from 'node:crypto';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ChecksumMismatchError, GagaraBoostClient } from '../src/index.js';
+import { startDatasetServer } from './support/dataset-server.js';
+import type { DatasetServer, DatasetServerOptions } from './support/dataset-server.js';
+
+const data = Buffer.from(Uint8Array.from({ length: 3000 }, (_, index) => index % 251));
+const sha256 = createHash('sha256').update(data).digest('hex');
+
+describe('dataset downloads', () => {
+  let server: DatasetServer | undefined;
+  let dir: string;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function setup(options?: DatasetServerOptions) {
+    server = await startDatasetServer(options);
+    server.datasets.set('ds-1', data);
+    dir = await mkdtemp(join(tmpdir(), 'gagara-download-'));
+    const client = new GagaraBoostClient({
+      baseUrl: server.url,
+      token: 'test-token',
+      retry: { maxAttempts: 1, initialDelay: 1 },
+    });
+    return { server, client, file: join(dir, 'ds-1.parquet') };
+  }
+
+  it('streams a dataset with progress', async () => {
+    const { client } = await setup();
+    const progress: Array<[number, number | undefined]> = [];
+
+    const stream = await client.downloadDatasetStream('ds-1', {
+      onProgress: (received, total) => progress.push([received, total]),
+    });
+
+    expect(Buffer.from(await new Response(stream).arrayBuffer())).toEqual(data);
+    expect(progress.at(-1)).toEqual([3000, 3000]);
+  });
+
+  it('starts at an offset with a Range request', async () => {
+    const { server, client } = await setup();
+
+    const stream = await client.downloadDatasetStream('ds-1', { offset: 1000 });
+
+    expect(Buffer.from(await new Response(stream).arrayBuffer())).toEqual(data.subarray(1000));
+    expect(server.downloadRanges).toEqual(['bytes=1000-']);
+  });
+
+  it('skips leading bytes when the server ignores Range', async () => {
+    const { client } = await setup({ ignoreRange: true });
+
+    const stream = await client.downloadDatasetStream('ds-1', { offset: 1000 });
+
+    expect(Buffer.from(await new Response(stream).arrayBuffer())).toEqual(data.subarray(1000));
+  });
+
+  it('downloads to a file and verifies the advertised checksum', async () => {
+    const { client, file } = await setup();
+
+    const result = await client.downloadDatasetToFile('ds-1', file);
+
+    expect(result).toEqual({ path: file, bytes: 3000, sha256, resumed: false });
+    expect(await readFile(file)).toEqual(data);
+    await expect(stat(`${file}.part`)).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+
+  it('resumes a dropped connection with a Range request', async () => {
+    const { server, client, file } = await setup({ dropDownloads: [1] });
+    const progress: number[] = [];
+
+    const result = await client.downloadDatasetToFile('ds-1', file, {
+      onProgress: (received) => progress.push(received),
+    });
+
+    expect(result.sha256).toBe(sha256);
+    expect(await readFile(file)).toEqual(data);
+    // The first response delivered half of the file before the connection dropped
+    expect(server.downloadRanges).toEqual(['', 'bytes=1500-']);
+    expect(progress).toContain(1500);
+    expect(progress.at(-1)).toBe(3000);
+  });
+
+  it('continues from a partial file left by an earlier call', async () => {
+    const { server, client, file } = await setup();
+    await writeFile(`${file}.part`, data.subarray(0, 1000));
+
+    const result = await client.downloadDatasetToFile('ds-1', file);
+
+    expect(result).toMatchObject({ bytes: 3000, sha256, resumed: true });
+    expect(server.downloadRanges).toEqual(['bytes=1000-']);
+    expect(await readFile(file)).toEqual(data);
+  });
+
+  it('finishes a partial file that is already complete', async () => {
+    const { server, client, file } = await setup();
+    await writeFile(`${file}.part`, data);
+
+    const result = await client.downloadDatasetToFile('ds-1', file);
+
+    expect(result).toMatchObject({ bytes: 3000, sha256, resumed: true });
+    expect(server.downloadRanges).toEqual(['bytes=3000-']);
+    expect(await readFile(file)).toEqual(data);
+  });
+
+  it('verifies the checksum of a complete partial file', async () => {
+    const { server, client, file } = await setup();
+    await writeFile(`${file}.part`, Buffer.alloc(data.byteLength));
+
+    const error = await client.downloadDatasetToFile('ds-1', file).catch((err) => err);
+
+    expect(error).toBeInstanceOf(ChecksumMismatchError);
+    expect(server.downloadRanges).toEqual(['bytes=3000-']);
+    await expect(stat(`${file}.part`)).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+
+  it('starts over when the partial file is longer than the dataset', async () => {
+    const { server, client, file } = await setup();
+    await writeFile(`${file}.part`, Buffer.concat([data, data]));
+
+    const result = await client.downloadDatasetToFile('ds-1', file);
+
+    expect(result).toMatchObject({ bytes: 3000, sha256, resumed: false });
+    expect(server.downloadRanges).toEqual(['bytes=6000-', '']);
+  });
+
+  it('starts over when the server ignores Range', async () => {
+    const { client, file } = await setup({ ignoreRange: true });
+    await writeFile(`${file}.part`, data.subarray(0, 1000));
+
+    const result = await client.downloadDatasetToFile('ds-1', file);
+
+    expect(result).toMatchObject({ bytes: 3000, sha256, resumed: false });
+    expect(await readFile(file)).toEqual(data);
+  });
+
+  it('rejects a checksum mismatch and discards the partial file', async () => {
+    const { client, file } = await setup({ digests: false });
+
+    const error = await client.downloadDatasetToFile('ds-1', file, { checksum: '0'.repeat(64) })
+      .catch((err) => err);
+
+    expect(error).toBeInstanceOf(ChecksumMismatchError);
+    expect(error).toMatchObject({ expected: '0'.repeat(64), actual: sha256 });
+    await expect(stat(`${file}.part`)).rejects.toMatchObject({ code: 'ENOENT' });
+    await expect(stat(file)).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+});
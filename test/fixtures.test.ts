@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  FixtureMismatchError,
+  GagaraBoostClient,
+  createMockGagaraBoost,
+  createRecordingFetch,
+  createReplayFetch,
+} from '../src/index.js';
+import type { HttpFixture } from '../src/index.js';
+
+async function recordSession() {
+  const recorder = createRecordingFetch({ fetch: createMockGagaraBoost() });
+  const client = new GagaraBoostClient({ baseUrl: 'https://staging.test', fetch: recorder });
+  await client.createUserAndSetToken();
+  const workspace = await client.createWorkspace('recorded');
+  await client.uploadDataset(new Uint8Array([1, 2, 3]), { workspaceId: workspace.id, alias: 'raw', chunked: false });
+  await client.listDatasets(workspace.id);
+  return recorder;
+}
+
+describe('record and replay', () => {
+  it('redacts tokens from headers and bodies', async () => {
+    const recorder = await recordSession();
+    const [user, workspace] = recorder.entries;
+
+    expect(user.response.body).toEqual({ json: { id: 'user-1', token: '[REDACTED]' } });
+    expect(workspace.request.headers.authorization).toBe('[REDACTED]');
+    expect(workspace.request.headers['x-request-id']).toBeUndefined();
+    expect(workspace.request.body).toEqual({ json: { name: 'recorded' } });
+    expect(JSON.stringify(recorder.fixture())).not.toContain('token-1');
+  });
+
+  it('replays a saved fixture against any base URL', async () => {
+    const recorder = await recordSession();
+    const dir = await mkdtemp(join(tmpdir(), 'gagara-fixtures-'));
+    const path = join(dir, 'nested', 'session.json');
+
+    try {
+      await recorder.save(path);
+      expect(JSON.parse(await readFile(path, 'utf8')).version).toBe(1);
+
+      const replay = createReplayFetch(path);
+      const client = new GagaraBoostClient({ baseUrl: 'https://ci.invalid', fetch: replay });
+      await client.createUserAndSetToken();
+      const workspace = await client.createWorkspace('recorded');
+      // Multipart boundaries differ from the recording; the parts still match
+      const upload = await client.uploadDataset(new Uint8Array([1, 2, 3]), { workspaceId: workspace.id, alias: 'raw', chunked: false });
+      const datasets = await client.listDatasets(workspace.id);
+
+      expect(workspace.id).toBe('ws-1');
+      expect(datasets.map((dataset) => dataset.id)).toEqual([upload.dataset_id]);
+      expect(await replay.pending()).toEqual([]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('fails loudly on unmatched requests', async () => {
+    const recorder = await recordSession();
+    const replay = createReplayFetch(recorder.fixture());
+    const client = new GagaraBoostClient({ baseUrl: 'https://ci.invalid', fetch: replay });
+
+    const error = await client.createWorkspace('other').catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(FixtureMismatchError);
+    expect((error as FixtureMismatchError).message).toBe(
+      'No recorded request for POST /workspaces with body {"json":{"name":"other"}}; ' +
+      '1 recorded POST /workspaces request(s) differ in query string or body'
+    );
+    expect((await replay.pending()).length).toBe(4);
+  });
+
+  it('does not retry unmatched requests', async () => {
+    const recorder = await recordSession();
+    const replay = vi.fn(createReplayFetch(recorder.fixture()));
+    const client = new GagaraBoostClient({
+      baseUrl: 'https://ci.invalid',
+      fetch: replay,
+      retry: { maxAttempts: 3, initialDelay: 0 },
+    });
+
+    await expect(client.listDatasets('ws-9')).rejects.toBeInstanceOf(FixtureMismatchError);
+    expect(replay).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves identical requests in recorded order', async () => {
+    const fixture: HttpFixture = {
+      version: 1,
+      entries: [1, 2].map((count) => ({
+        request: { method: 'GET', path: '/workspaces', query: {}, headers: {}, body: null },
+        response: {
+          status: 200,
+          headers: { 'content-type': 'application/json' },
+          body: { json: Array.from({ length: count }, (_, index) => ({ id: `ws-${index}` })) },
+        },
+      })),
+    };
+    const strict = createReplayFetch(fixture, { reuseLast: false });
+
+    expect((await (await strict('https://x.test/workspaces')).json())).toHaveLength(1);
+    expect((await (await strict('https://x.test/workspaces')).json())).toHaveLength(2);
+    await expect(strict('https://x.test/workspaces')).rejects.toThrow('Every recorded response for GET /workspaces has been used');
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { compareSchemas, inspectParquet, recordsToParquet } from '../src/index.js';
+
+const records = [
+  { id: 1, price: 2.5, country: 'DE', active: true, at: new Date('2024-01-01T00:00:00Z') },
+  { id: 2, price: 4.5, country: 'FR', active: false, at: null },
+  { id: 3, price: null, country: 'DE', active: null, at: new Date('2024-01-03T00:00:00Z') },
+];
+
+describe('inspectParquet', () => {
+  it('describes the schema the way getDatasetSchema does', async () => {
+    const parquet = await recordsToParquet(records, { columns: { id: 'int32' } });
+
+    const { schema } = await inspectParquet(parquet);
+
+    expect(schema.columns).toEqual([
+      { name: 'id', data_type: 'INTEGER', nullable: true },
+      { name: 'price', data_type: 'DOUBLE', nullable: true },
+      { name: 'country', data_type: 'VARCHAR', nullable: true },
+      { name: 'active', data_type: 'BOOLEAN', nullable: true },
+      { name: 'at', data_type: 'TIMESTAMP', nullable: true },
+    ]);
+  });
+
+  it('computes row counts, null counts and column statistics across row groups', async () => {
+    const parquet = await recordsToParquet(records, { rowGroupSize: 2 });
+
+    const { meta, nullCounts } = await inspectParquet(new Blob([parquet]), { distinctValuesLimit: 2 });
+
+    expect(meta.row_count).toBe(3);
+    expect(meta.file_size_bytes).toBe(parquet.byteLength);
+    expect(nullCounts).toEqual({ id: 0, price: 1, country: 0, active: 1, at: 1 });
+
+    const info = Object.fromEntries(meta.columns_info.map((column) => [column.name, column]));
+    expect(info.id).toMatchObject({
+      count_distinct: 3,
+      distinct_values: null,
+      numeric_values_stats: { min: 1, max: 3, avg: 2, std: 1 },
+    });
+    expect(info.price.numeric_values_stats).toEqual({ min: 2.5, max: 4.5, avg: 3.5, std: Math.SQRT2 });
+    expect(info.country).toMatchObject({
+      count_distinct: 2,
+      distinct_values: ['DE', 'FR'],
+      numeric_values_stats: null,
+    });
+    expect(info.at.count_distinct).toBe(2);
+    for (const column of meta.columns_info) {
+      expect(column.size_bytes).toBeGreaterThan(0);
+    }
+  });
+
+  it('reads file paths', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'gagara-inspect-'));
+    const file = join(dir, 'data.parquet');
+
+    try {
+      await writeFile(file, await recordsToParquet(records));
+      const { meta } = await inspectParquet(file);
+      expect(meta.row_count).toBe(3);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('compareSchemas', () => {
+  it('reports removed, retyped, nullability and added columns', () => {
+    const current = {
+      columns: [
+        { name: 'id', data_type: 'BIGINT', nullable: false },
+        { name: 'age', data_type: 'INTEGER', nullable: true },
+        { name: 'name', data_type: 'VARCHAR', nullable: true },
+        { name: 'label', data_type: 'varchar', nullable: true },
+      ],
+    };
+    const candidate = {
+      columns: [
+        { name: 'id', data_type: 'BIGINT', nullable: true },
+        { name: 'age', data_type: 'BIGINT', nullable: true },
+        { name: 'label', data_type: 'VARCHAR', nullable: true },
+        { name: 'score', data_type: 'DOUBLE', nullable: true },
+      ],
+    };
+
+    expect(compareSchemas(current, candidate).map(({ kind, column }) => [kind, column])).toEqual([
+      ['nullability_changed', 'id'],
+      ['type_changed', 'age'],
+      ['removed', 'name'],
+      ['added', 'score'],
+    ]);
+    expect(compareSchemas(current, current)).toEqual([]);
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GagaraBoostClient, JobCancelledError, JobFailedError } from '../src/index.js';
+import type { TrainingProgressEvent } from '../src/index.js';
+
+const trainingRequest = {
+  workspace_id: 'ws1',
+  row_set_id: 'rs1',
+  column_set_id: 'cs1',
+  training_param_set_id: 'tp1',
+};
+
+function jsonResponse(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), { status });
+}
+
+describe('training jobs', () => {
+  it('polls a server-side job and emits progress events', async () => {
+    const statuses = [
+      { id: 'job-1', status: 'running', progress: 0.5 },
+      { id: 'job-1', status: 'running', progress: 0.5 },
+      { id: 'job-1', status: 'success', progress: 1, result: { status: 'completed', id: 'm1', metrics: {} } },
+    ];
+    const mockFetch = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = new URL(String(input));
+      if (init?.method === 'POST' && url.pathname === '/train/jobs') {
+        return jsonResponse(202, { id: 'job-1', status: 'queued' });
+      }
+      if (url.pathname === '/train/jobs/job-1') {
+        return jsonResponse(200, statuses.length > 1 ? statuses.shift() : statuses[0]);
+      }
+      throw new Error(`Unexpected ${url.pathname}`);
+    });
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch });
+
+    const job = await client.startTraining(trainingRequest);
+    expect(job.id).toBe('job-1');
+    expect(job.isLocal).toBe(false);
+    expect(job.lastStatus?.status).toBe('queued');
+
+    const events: TrainingProgressEvent[] = [];
+    for await (const event of job.events({ pollInterval: 1 })) {
+      events.push(event);
+    }
+
+    expect(events).toEqual([
+      { jobId: 'job-1', status: 'running', progress: 0.5, message: null },
+      { jobId: 'job-1', status: 'completed', progress: 1, message: null },
+    ]);
+    await expect(job.wait({ pollInterval: 1 })).resolves.toEqual({ status: 'success', id: 'm1', metrics: {} });
+  });
+
+  it('rejects wait() when the job fails or is cancelled', async () => {
+    const mockFetch = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = new URL(String(input));
+      if (url.pathname === '/train/jobs') {
+        return jsonResponse(202, { id: 'job-2', status: 'running' });
+      }
+      if (url.pathname === '/train/jobs/job-2/cancel' && init?.method === 'POST') {
+        return jsonResponse(200, { id: 'job-2', status: 'canceled' });
+      }
+      return jsonResponse(200, { id: 'job-2', status: 'failed', error: 'Out of memory' });
+    });
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch });
+
+    const job = await client.startTraining(trainingRequest);
+    await expect(job.wait({ pollInterval: 1 })).rejects.toThrow(JobFailedError);
+    await expect(job.wait({ pollInterval: 1 })).rejects.toThrow('Out of memory');
+
+    const cancelled = await job.cancel();
+    expect(cancelled.status).toBe('cancelled');
+  });
+
+  it('falls back to the synchronous endpoint without job support', async () => {
+    let finishTraining: (() => void) | undefined;
+    const mockFetch = vi.fn(async (input: RequestInfo | URL) => {
+      const url = new URL(String(input));
+      if (url.pathname === '/train/jobs') {
+        return jsonResponse(404, { detail: 'Not Found' });
+      }
+      await new Promise<void>((resolve) => {
+        finishTraining = resolve;
+      });
+      return jsonResponse(200, { status: 'completed', id: 'm2', metrics: { auc: 0.9 } });
+    });
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch });
+
+    const job = await client.startTraining(trainingRequest, { timeout: 60_000 });
+    expect(job.isLocal).toBe(true);
+    expect((await job.status()).status).toBe('running');
+
+    const result = job.wait({ pollInterval: 60_000 });
+    await vi.waitFor(() => expect(finishTraining).toBeDefined());
+    finishTraining?.();
+
+    await expect(result).resolves.toEqual({ status: 'success', id: 'm2', metrics: { auc: 0.9 } });
+  });
+
+  it('cancels a fallback job by aborting the request', async () => {
+    const mockFetch = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = new URL(String(input));
+      if (url.pathname === '/train/jobs') {
+        return jsonResponse(405, { detail: 'Method Not Allowed' });
+      }
+      return new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+      });
+    });
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch });
+
+    const job = await client.startTraining(trainingRequest);
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+    await job.cancel();
+
+    await expect(job.wait({ pollInterval: 1 })).rejects.toThrow(JobCancelledError);
+    const trainInit = mockFetch.mock.calls[1]?.[1];
+    expect(trainInit?.signal?.aborted).toBe(true);
+  });
+
+  it('does not fall back when disabled', async () => {
+    const mockFetch = vi.fn(async () => jsonResponse(404, { detail: 'Not Found' }));
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch });
+
+    await expect(client.startTraining(trainingRequest, { fallback: false })).rejects.toThrow('Not Found');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('optimal parameter search jobs', () => {
+  const searchRequest = { row_set_id: 'rs1', column_set_id: 'cs1', objective: 'binary' };
+  const finalResult = {
+    status: 'completed',
+    metric_used: 'auc',
+    trials_run: 3,
+    best_params: { num_leaves: 31 },
+    best_score: 0.91,
+  };
+
+  it('streams each trial once as it completes', async () => {
+    const statuses = [
+      { id: 'search-1', status: 'running', trials: [{ number: 0, params: { num_leaves: 15 }, score: 0.8 }] },
+      {
+        id: 'search-1',
+        status: 'running',
+        trials: [
+          { number: 0, params: { num_leaves: 15 }, score: 0.8 },
+          { number: 1, params: { num_leaves: 31 }, score: 0.91 },
+        ],
+      },
+      {
+        id: 'search-1',
+        status: 'completed',
+        trials: [
+          { number: 0, params: { num_leaves: 15 }, score: 0.8 },
+          { number: 1, params: { num_leaves: 31 }, score: 0.91 },
+          { number: 2, params: { num_leaves: 63 }, score: 0.85 },
+        ],
+        result: finalResult,
+      },
+    ];
+    const mockFetch = vi.fn(async (input: RequestInfo | URL) => {
+      const url = new URL(String(input));
+      if (url.pathname === '/calculate-optimal-param-set/jobs') {
+        return jsonResponse(202, { id: 'search-1', status: 'queued' });
+      }
+      return jsonResponse(200, statuses.length > 1 ? statuses.shift() : statuses[0]);
+    });
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch });
+
+    const job = await client.startOptimalParamSearch(searchRequest);
+    const scores: Array<number | null | undefined> = [];
+    for await (const trial of job.events({ pollInterval: 1 })) {
+      expect(trial.jobId).toBe('search-1');
+      scores.push(trial.score);
+    }
+
+    expect(scores).toEqual([0.8, 0.91, 0.85]);
+    await expect(job.wait({ pollInterval: 1 })).resolves.toEqual(finalResult);
+  });
+
+  it('resolves with the best result so far after early cancellation', async () => {
+    const mockFetch = vi.fn(async (input: RequestInfo | URL) => {
+      const url = new URL(String(input));
+      if (url.pathname === '/calculate-optimal-param-set/jobs') {
+        return jsonResponse(202, { id: 'search-2', status: 'running' });
+      }
+      if (url.pathname.endsWith('/cancel')) {
+        return jsonResponse(200, { id: 'search-2', status: 'cancelled', result: finalResult });
+      }
+      return jsonResponse(200, { id: 'search-2', status: 'cancelled', result: finalResult });
+    });
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch });
+
+    const job = await client.startOptimalParamSearch(searchRequest);
+    await job.cancel();
+
+    await expect(job.wait({ pollInterval: 1 })).resolves.toEqual(finalResult);
+  });
+
+  it('falls back to the synchronous search endpoint', async () => {
+    const mockFetch = vi.fn(async (input: RequestInfo | URL) => {
+      const url = new URL(String(input));
+      if (url.pathname === '/calculate-optimal-param-set/jobs') {
+        return jsonResponse(404, { detail: 'Not Found' });
+      }
+      return jsonResponse(200, finalResult);
+    });
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch });
+
+    const job = await client.startOptimalParamSearch(searchRequest);
+
+    expect(job.isLocal).toBe(true);
+    await expect(job.wait({ pollInterval: 1 })).resolves.toEqual(finalResult);
+  });
+});
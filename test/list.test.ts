@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GagaraBoostClient } from '../src/index.js';
+
+const models = Array.from({ length: 7 }, (_, index) => ({
+  id: `m-${index + 1}`,
+  name: index % 2 === 0 ? `churn-${index + 1}` : `price-${index + 1}`,
+  created_at: `2024-01-0${index + 1}T00:00:00Z`,
+}));
+
+type Mode = 'full' | 'array' | 'envelope' | 'header' | 'limit-only';
+
+function createClient(mode: Mode) {
+  const urls: URL[] = [];
+  const mockFetch = vi.fn(async (input: RequestInfo | URL, _init?: RequestInit) => {
+    const url = new URL(String(input));
+    urls.push(url);
+    if (mode === 'full') {
+      return Response.json(models);
+    }
+    const params = url.searchParams;
+    const limit = Number(params.get('limit') ?? models.length);
+    const start = mode === 'limit-only' ? 0 : Number(params.get('cursor') ?? params.get('offset') ?? 0);
+    const items = models.slice(start, start + limit);
+    const next = start + limit < models.length ? String(start + limit) : null;
+    if (mode === 'envelope') {
+      return Response.json({ items, next_cursor: next, total: models.length });
+    }
+    if (mode === 'header' && next) {
+      return Response.json(items, { headers: { 'X-Next-Cursor': next } });
+    }
+    return Response.json(items);
+  });
+  return { urls, client: new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch }) };
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('list options', () => {
+  it('sends paging, sort and search parameters and unwraps envelopes', async () => {
+    const { client, urls } = createClient('envelope');
+
+    const page = await client.listModels({ workspaceId: 'ws-1' }, { limit: 2, offset: 4, sort: 'created_at', search: 'churn' });
+
+    expect(Object.fromEntries(urls[0].searchParams)).toEqual({
+      workspace_id: 'ws-1',
+      limit: '2',
+      offset: '4',
+      sort: 'created_at',
+      search: 'churn',
+    });
+    expect(page.map((model) => model.id)).toEqual(['m-5']);
+  });
+
+  it('applies search, sort and paging locally when the server ignores them', async () => {
+    const { client } = createClient('full');
+
+    const page = await client.listModels(undefined, { search: 'CHURN', sort: '-created_at', offset: 1, limit: 2 });
+    const all = await client.listModels(undefined, { sort: 'name' });
+
+    expect(page.map((model) => model.id)).toEqual(['m-5', 'm-3']);
+    expect(all.map((model) => model.name).slice(0, 2)).toEqual(['churn-1', 'churn-3']);
+  });
+
+  it('applies offset and sort locally when the server ignores them and returns fewer rows than the limit', async () => {
+    const { client } = createClient('full');
+
+    expect((await client.listModels(undefined, { offset: 5, limit: 5 })).map((model) => model.id)).toEqual(['m-6', 'm-7']);
+    expect((await client.listModels(undefined, { limit: 10, sort: '-created_at' })).map((model) => model.id))
+      .toEqual(['m-7', 'm-6', 'm-5', 'm-4', 'm-3', 'm-2', 'm-1']);
+    expect((await client.listModels(undefined, { limit: 10, offset: 4, sort: '-name' })).map((model) => model.name))
+      .toEqual(['churn-5', 'churn-3', 'churn-1']);
+  });
+
+  it('requests an offset page once', async () => {
+    const { client, urls } = createClient('array');
+
+    const page = await client.listModels(undefined, { limit: 2, offset: 2 });
+
+    expect(page.map((model) => model.id)).toEqual(['m-3', 'm-4']);
+    expect(urls).toHaveLength(1);
+  });
+
+  it('compares names by code unit, as the server sorts them', async () => {
+    const mockFetch = vi.fn(async () => Response.json([
+      { id: 'ws-2', name: 'Zeta', created_at: '2024-01-01T00:00:00Z' },
+      { id: 'ws-1', name: 'alpha', created_at: '2024-01-01T00:00:00Z' },
+    ]));
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch });
+
+    expect((await client.listWorkspaces({ sort: 'name', limit: 2 })).map((workspace) => workspace.id)).toEqual(['ws-2', 'ws-1']);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('searches datasets by alias', async () => {
+    const mockFetch = vi.fn(async () => Response.json([
+      { id: 'ds-1', alias: 'Sales 2024', workspace_id: 'ws-1', created_at: '2024-01-01T00:00:00Z' },
+      { id: 'ds-2', alias: null, workspace_id: 'ws-1', created_at: '2024-01-01T00:00:00Z' },
+    ]));
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch });
+
+    expect((await client.listDatasets('ws-1', { search: 'sales' })).map((dataset) => dataset.id)).toEqual(['ds-1']);
+  });
+});
+
+describe('iterate*', () => {
+  it.each(['array', 'envelope', 'header'] as const)('pages through every item (%s responses)', async (mode) => {
+    const { client, urls } = createClient(mode);
+
+    const ids = (await collect(client.iterateModels(undefined, { pageSize: 3 }))).map((model) => model.id);
+
+    expect(ids).toEqual(models.map((model) => model.id));
+    expect(urls).toHaveLength(3);
+    if (mode !== 'array') {
+      expect(urls.map((url) => url.searchParams.get('cursor'))).toEqual([null, '3', '6']);
+    }
+  });
+
+  it('makes one request when the server ignores paging', async () => {
+    const { client, urls } = createClient('full');
+
+    const names = (await collect(client.iterateModels(undefined, { pageSize: 2, search: 'price', sort: '-name' })))
+      .map((model) => model.name);
+
+    expect(names).toEqual(['price-6', 'price-4', 'price-2']);
+    expect(urls).toHaveLength(1);
+  });
+
+  it('falls back to the whole list without duplicates when the server ignores offset', async () => {
+    const { client, urls } = createClient('limit-only');
+
+    const ids = (await collect(client.iterateWorkspaces({ pageSize: 3 }))).map((item) => item.id);
+
+    expect(ids).toEqual(models.map((model) => model.id));
+    expect(urls.map((url) => url.searchParams.get('offset'))).toEqual(['0', '3', null]);
+  });
+
+  it('sorts locally when the server ignores sort on a short page', async () => {
+    const { client, urls } = createClient('full');
+
+    const ids = (await collect(client.iterateModels(undefined, { pageSize: 10, sort: '-created_at' }))).map((model) => model.id);
+
+    expect(ids).toEqual(models.map((model) => model.id).reverse());
+    expect(urls).toHaveLength(1);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GagaraBoostClient,
+  ManifestError,
+  createMockGagaraBoost,
+  where,
+} from '../src/index.js';
+import type { WorkspaceManifest } from '../src/index.js';
+
+const manifest: WorkspaceManifest = {
+  workspace: { name: 'churn' },
+  rowSets: [
+    { name: 'adults', dataset: 'customers', predicate: where('age').gte(18) },
+    { name: 'all', dataset: 'customers' },
+  ],
+  columnSets: [
+    { name: 'churn', dataset: 'customers', column_to_predict: 'churned', feature_columns: ['age', 'country'] },
+  ],
+  trainingParamSets: [
+    { name: 'fast', params: { num_leaves: 15 } },
+  ],
+};
+
+async function setup() {
+  const client = new GagaraBoostClient({ baseUrl: 'http://mock.test', fetch: createMockGagaraBoost() });
+  const workspace = await client.createWorkspace('churn');
+  const records = [{ age: 25, country: 'DE', churned: false }];
+  const customers = await client.uploadRecords(records, { workspaceId: workspace.id, alias: 'customers' });
+  const archive = await client.uploadRecords(records, { workspaceId: workspace.id, alias: 'archive' });
+  return { client, workspaceId: workspace.id, customersId: customers.dataset_id, archiveId: archive.dataset_id };
+}
+
+describe('workspace manifests', () => {
+  it('plans creates, applies them and then has nothing left to do', async () => {
+    const { client, workspaceId, customersId } = await setup();
+
+    const plan = await client.plan(manifest);
+
+    expect(plan.workspaceId).toBe(workspaceId);
+    expect(plan.changes.map(({ action, kind, name }) => `${action} ${kind} ${name}`)).toEqual([
+      'create rowSet adults',
+      'create rowSet all',
+      'create columnSet churn',
+      'create trainingParamSet fast',
+    ]);
+    expect(plan.changes[2].after).toMatchObject({ dataset_id: customersId });
+    expect(await client.listRowSets(workspaceId)).toEqual([]);
+
+    const applied = await client.apply(plan);
+
+    expect(applied.changes.map((change) => change.id)).toEqual(['rs-1', 'rs-2', 'cs-1', 'ps-1']);
+    expect(await client.getRowSet('rs-1')).toMatchObject({ base_dataset_id: customersId, predicate: { age: { $gte: 18 } } });
+    expect(await client.plan(manifest)).toEqual({ workspaceId, changes: [], unchanged: 4 });
+  });
+
+  it('updates changed fields and replaces resources that moved to another dataset', async () => {
+    const { client, archiveId } = await setup();
+    await client.apply(manifest);
+
+    const plan = await client.plan({
+      ...manifest,
+      rowSets: [
+        { name: 'adults', dataset: 'customers', predicate: where('age').gte(21) },
+        { name: 'all', dataset: archiveId },
+      ],
+      trainingParamSets: [{ name: 'fast', params: { num_leaves: 31 }, meta: { owner: 'ml' } }],
+    });
+
+    expect(plan.unchanged).toBe(1);
+    expect(plan.changes.map(({ action, name, id, fields }) => ({ action, name, id, fields }))).toEqual([
+      { action: 'update', name: 'adults', id: 'rs-1', fields: ['predicate'] },
+      { action: 'replace', name: 'all', id: 'rs-2', fields: ['base_dataset_id'] },
+      { action: 'update', name: 'fast', id: 'ps-1', fields: ['params', 'meta'] },
+    ]);
+
+    const applied = await client.apply(plan);
+
+    expect(applied.changes[1].id).toBe('rs-3');
+    expect((await client.getRowSet('rs-1')).predicate).toEqual({ age: { $gte: 21 } });
+    expect(await client.getTrainingParamSet('ps-1')).toMatchObject({ params: { num_leaves: 31 }, meta: { owner: 'ml' } });
+    expect((await client.listRowSets()).map((rowSet) => rowSet.id)).toEqual(['rs-1', 'rs-3']);
+  });
+
+  it('deletes unlisted resources only with prune and leaves unlisted sections alone', async () => {
+    const { client, workspaceId } = await setup();
+    await client.apply(manifest);
+    const trimmed = { workspace: { id: workspaceId }, rowSets: [manifest.rowSets![0]] };
+
+    expect((await client.plan(trimmed)).changes).toEqual([]);
+
+    const applied = await client.apply(trimmed, { prune: true });
+
+    expect(applied.changes.map(({ action, name }) => `${action} ${name}`)).toEqual(['delete all']);
+    expect((await client.listRowSets()).map((rowSet) => rowSet.name)).toEqual(['adults']);
+    expect(await client.listColumnSets()).toHaveLength(1);
+  });
+
+  it('reports every manifest issue before touching the server', async () => {
+    const { client } = await setup();
+
+    const error = await client.plan({
+      workspace: { name: 'churn' },
+      rowSets: [{ name: 'adults', dataset: 'missing' }],
+      trainingParamSets: [{ name: 'fast', params: {} }, { name: 'fast', params: {} }],
+    }).catch((caught: unknown) => caught) as ManifestError;
+
+    expect(error).toBeInstanceOf(ManifestError);
+    expect(error.status).toBe(0);
+    expect(error.issues).toEqual([
+      'rowSets[0] "adults": unknown dataset "missing"',
+      'trainingParamSet "fast" is listed more than once',
+    ]);
+    await expect(client.plan({ workspace: { name: 'nope' } })).rejects.toThrow('workspace "nope" does not exist');
+  });
+});
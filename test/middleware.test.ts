@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  GagaraBoostClient,
+  headersMiddleware,
+  loggingMiddleware,
+  timingMiddleware,
+} from '../src/index.js';
+import type { Middleware } from '../src/index.js';
+
+function createRequestFetch(status = 200, body: unknown = []) {
+  return vi.fn(async (_input: RequestInfo | URL, _init?: RequestInit) =>
+    new Response(JSON.stringify(body), { status })
+  );
+}
+
+describe('middleware', () => {
+  it('runs middleware in order around each request', async () => {
+    const calls: string[] = [];
+    const outer: Middleware = async (request, next) => {
+      calls.push('outer:before');
+      const response = await next(request);
+      calls.push('outer:after');
+      return response;
+    };
+    const inner: Middleware = async (request, next) => {
+      calls.push('inner:before');
+      const response = await next(request);
+      calls.push('inner:after');
+      return response;
+    };
+
+    const mockFetch = createRequestFetch();
+    const client = new GagaraBoostClient({
+      baseUrl: 'https://boost.test',
+      fetch: mockFetch,
+      middleware: [outer],
+    }).use(inner);
+
+    await client.listWorkspaces();
+
+    expect(calls).toEqual(['outer:before', 'inner:before', 'inner:after', 'outer:after']);
+    expect(mockFetch.mock.calls[0]?.[0]).toBeInstanceOf(Request);
+  });
+
+  it('lets middleware rewrite the request URL', async () => {
+    const mockFetch = createRequestFetch();
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch });
+    client.use((request, next) =>
+      next(new Request(request.url.replace('https://boost.test', 'https://staging.test/boost'), request))
+    );
+
+    await client.listWorkspaces();
+
+    expect((mockFetch.mock.calls[0]?.[0] as Request).url).toBe('https://staging.test/boost/workspaces');
+  });
+
+  it('injects headers without overriding existing ones', async () => {
+    const mockFetch = createRequestFetch();
+    const client = new GagaraBoostClient({
+      baseUrl: 'https://boost.test',
+      token: 'secret',
+      fetch: mockFetch,
+      middleware: [headersMiddleware({ traceparent: '00-abc-def-01', Authorization: 'Bearer other' })],
+    });
+
+    await client.createWorkspace('demo');
+
+    const request = mockFetch.mock.calls[0]?.[0] as Request;
+    expect(request.headers.get('traceparent')).toBe('00-abc-def-01');
+    expect(request.headers.get('Authorization')).toBe('Bearer secret');
+    expect(await request.text()).toBe(JSON.stringify({ name: 'demo' }));
+  });
+
+  it('logs requests with redacted tokens and reports timings', async () => {
+    const lines: string[] = [];
+    const timings = vi.fn();
+    const client = new GagaraBoostClient({
+      baseUrl: 'https://boost.test',
+      token: 'secret',
+      fetch: createRequestFetch(404, { detail: 'Not found' }),
+      middleware: [
+        loggingMiddleware({ logger: (line) => lines.push(line), logHeaders: true }),
+        timingMiddleware(timings),
+      ],
+    });
+
+    await expect(client.getModel('m1')).rejects.toThrow('Not found');
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toContain('GET https://boost.test/models/m1 -> 404');
+    expect(lines[0]).toContain('[REDACTED]');
+    expect(lines[0]).not.toContain('secret');
+    expect(timings).toHaveBeenCalledWith(
+      expect.objectContaining({ method: 'GET', url: 'https://boost.test/models/m1', status: 404 })
+    );
+  });
+});
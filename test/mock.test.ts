@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AuthenticationError,
+  GagaraBoostClient,
+  NotFoundError,
+  ValidationError,
+  createMockGagaraBoost,
+  sql,
+  where,
+} from '../src/index.js';
+
+const records = [
+  { id: 1, age: 25, country: 'DE', churned: false },
+  { id: 2, age: 17, country: 'FR', churned: true },
+  { id: 3, age: 40, country: 'DE', churned: true },
+  { id: 4, age: 33, country: 'US', churned: false },
+];
+
+function createClient(options: Parameters<typeof createMockGagaraBoost>[0] = {}) {
+  const mock = createMockGagaraBoost(options);
+  const client = new GagaraBoostClient({ baseUrl: 'http://mock.test', fetch: mock });
+  return { mock, client };
+}
+
+async function seed(client: GagaraBoostClient) {
+  const workspace = await client.createWorkspace('churn');
+  const { dataset_id: datasetId } = await client.uploadRecords(records, { workspaceId: workspace.id, alias: 'customers' });
+  const rowSet = await client.createRowSet({
+    workspace_id: workspace.id,
+    base_dataset_id: datasetId,
+    name: 'adults',
+    predicate: where('age').gte(18),
+  });
+  const columnSet = await client.createColumnSet({
+    dataset_id: datasetId,
+    name: 'churn',
+    column_to_predict: 'churned',
+    feature_columns: ['age', 'country'],
+  });
+  const paramSet = await client.createTrainingParamSet({ workspace_id: workspace.id, name: 'fast', params: { num_leaves: 15 } });
+  return { workspace, datasetId, rowSet, columnSet, paramSet };
+}
+
+describe('createMockGagaraBoost', () => {
+  it('stores objects and derives schema, meta and samples from the parquet file', async () => {
+    const { client } = createClient();
+    const { workspace, datasetId, rowSet } = await seed(client);
+
+    expect(workspace).toEqual({
+      id: 'ws-1',
+      owner_user_id: 'user-0',
+      name: 'churn',
+      is_default: false,
+      created_at: '2024-01-01T00:00:00.000Z',
+    });
+    expect(await client.getDataset(datasetId)).toMatchObject({ id: 'ds-1', alias: 'customers', workspace_id: 'ws-1' });
+    expect((await client.getDatasetSchema(datasetId)).columns.map((column) => column.name)).toEqual(['id', 'age', 'country', 'churned']);
+    expect((await client.getDatasetMeta(datasetId)).row_count).toBe(4);
+    expect((await client.getRowSetMeta(rowSet.id)).row_count).toBe(3);
+    expect((await client.getRowSetSample(rowSet.id)).row).toEqual(records[0]);
+    expect((await client.listDatasets('ws-1')).map((dataset) => dataset.id)).toEqual([datasetId]);
+  });
+
+  it('trains deterministic models and predicts stable values', async () => {
+    const run = async () => {
+      const { client } = createClient();
+      const { workspace, rowSet, columnSet, paramSet } = await seed(client);
+      const trained = await client.train({
+        workspace_id: workspace.id,
+        row_set_id: rowSet.id,
+        column_set_id: columnSet.id,
+        training_param_set_id: paramSet.id,
+      });
+      const { predictions } = await client.predict(trained.id, { features: [{ age: 30, country: 'DE' }, { age: 30, country: 'DE' }] });
+      return { trained, predictions, model: await client.getModel(trained.id) };
+    };
+
+    const first = await run();
+    const second = await run();
+
+    expect(first.trained.status).toBe('success');
+    expect(first.trained.metrics).toEqual(second.trained.metrics);
+    expect(first.predictions[0]).toBe(first.predictions[1]);
+    expect(first.predictions).toEqual(second.predictions);
+    expect(first.model).toMatchObject({ id: 'model-1', row_set_id: 'rs-1', column_set_id: 'cs-1' });
+  });
+
+  it('runs training jobs through their states', async () => {
+    const { client } = createClient();
+    const { workspace, rowSet, columnSet, paramSet } = await seed(client);
+
+    const job = await client.startTraining({
+      workspace_id: workspace.id,
+      row_set_id: rowSet.id,
+      column_set_id: columnSet.id,
+      training_param_set_id: paramSet.id,
+    });
+    expect(job.isLocal).toBe(false);
+    expect(job.lastStatus?.status).toBe('queued');
+
+    const result = await job.wait({ pollInterval: 0 });
+    expect(result.id).toBe('model-1');
+  });
+
+  it('rejects missing fields, unknown ids and unauthenticated requests', async () => {
+    const { client } = createClient({ requireAuth: true });
+
+    await expect(client.listWorkspaces()).rejects.toBeInstanceOf(AuthenticationError);
+    await client.createUserAndSetToken();
+
+    await expect(client.getRowSet('rs-404')).rejects.toBeInstanceOf(NotFoundError);
+    await expect(client.createWorkspace({} as { name: string })).rejects.toBeInstanceOf(ValidationError);
+    expect(await client.listWorkspaces()).toEqual([]);
+  });
+
+  it('rejects malformed predicates and fields of the wrong type', async () => {
+    const { mock, client } = createClient();
+    const { workspace, datasetId } = await seed(client);
+    const post = (body: unknown) => mock('http://mock.test/row-sets', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    const response = await post({ workspace_id: workspace.id, base_dataset_id: datasetId, name: 'odd', predicate: { age: { $approx: 18 } } });
+    expect(response.status).toBe(422);
+    expect(await response.json()).toEqual({
+      detail: [{ loc: ['body', 'predicate'], msg: 'predicate.age.$approx: unknown operator', type: 'value_error' }],
+    });
+    expect((await post({ workspace_id: workspace.id, base_dataset_id: datasetId, name: 42 })).status).toBe(422);
+    expect(await client.listRowSets(workspace.id)).toHaveLength(1);
+  });
+
+  it('deletes column sets with their dataset or workspace', async () => {
+    const { client } = createClient();
+    const first = await seed(client);
+    const second = await seed(client);
+
+    await client.deleteDataset(first.datasetId);
+    await client.deleteWorkspace(second.workspace.id);
+
+    expect(await client.listColumnSets()).toEqual([]);
+  });
+
+  it('injects failures and records requests', async () => {
+    const { mock, client } = createClient();
+    mock.fail({ method: 'GET', path: '/workspaces', status: 503, times: 2 });
+    mock.fail({ path: /^\/health$/, error: new TypeError('fetch failed') });
+
+    await expect(client.listWorkspaces()).rejects.toMatchObject({ status: 503 });
+    await expect(client.listWorkspaces()).rejects.toMatchObject({ status: 503 });
+    expect(await client.listWorkspaces()).toEqual([]);
+    expect(await client.health()).toBe(false);
+    expect(await client.health()).toBe(true);
+
+    await client.createWorkspace('main');
+    expect(mock.requests.at(-1)).toEqual({ method: 'POST', path: '/workspaces', body: { name: 'main' } });
+
+    mock.reset();
+    expect(mock.requests).toEqual([]);
+    expect((await client.createWorkspace('again')).id).toBe('ws-1');
+  });
+
+  it('pages lists and scans dataset tables', async () => {
+    const { client } = createClient();
+    const { datasetId, rowSet } = await seed(client);
+    await client.createWorkspace('second');
+
+    const names = [];
+    for await (const workspace of client.iterateWorkspaces({ pageSize: 1, sort: '-name' })) {
+      names.push(workspace.name);
+    }
+    expect(names).toEqual(['second', 'churn']);
+
+    const all = await client.query(sql`SELECT * FROM ${client.datasetTable(datasetId)}`);
+    expect(all.rows).toHaveLength(4);
+
+    const pages = [];
+    for await (const page of client.queryPages(sql`SELECT * FROM ${client.rowSetView(rowSet.id)}`, { pageSize: 2 })) {
+      pages.push(page.rows.map((row) => row.id));
+    }
+    expect(pages).toEqual([[1, 3], [4]]);
+
+    await expect(client.query('SELECT count(*) FROM t')).rejects.toMatchObject({ status: 501 });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GagaraBoostClient,
+  PipelineError,
+  createMockGagaraBoost,
+  where,
+} from '../src/index.js';
+import type { PipelineSpec, PipelineStepEvent } from '../src/index.js';
+
+const spec: PipelineSpec = {
+  workspace: { name: 'churn' },
+  dataset: {
+    alias: 'customers',
+    records: [
+      { id: 1, age: 25, country: 'DE', churned: false },
+      { id: 2, age: 17, country: 'FR', churned: true },
+      { id: 3, age: 40, country: 'DE', churned: true },
+    ],
+  },
+  rowSet: { name: 'adults', predicate: where('age').gte(18) },
+  columnSet: { name: 'churn', column_to_predict: 'churned', feature_columns: ['age', 'country'] },
+  params: { name: 'fast', params: { num_leaves: 15 } },
+  training: { modelName: 'churn-v1' },
+};
+
+function createClient() {
+  const mock = createMockGagaraBoost();
+  const client = new GagaraBoostClient({ baseUrl: 'http://mock.test', fetch: mock });
+  return { mock, client };
+}
+
+describe('runPipeline', () => {
+  it('creates every resource on the first run and reuses them on the next', async () => {
+    const { client } = createClient();
+    const events: PipelineStepEvent[] = [];
+
+    const first = await client.runPipeline(spec, { onStep: (event) => events.push(event) });
+
+    expect(first.ids).toEqual({
+      workspaceId: 'ws-1',
+      datasetId: 'ds-1',
+      rowSetId: 'rs-1',
+      columnSetId: 'cs-1',
+      trainingParamSetId: 'ps-1',
+      modelId: 'model-1',
+    });
+    expect(first.model).toMatchObject({ id: 'model-1', name: 'churn-v1', row_set_id: 'rs-1' });
+    expect(first.created).toEqual(['workspace', 'dataset', 'rowSet', 'columnSet', 'params', 'model']);
+    expect(events).toEqual(first.steps);
+    expect(events[1]).toEqual({ step: 'dataset', status: 'created', id: 'ds-1', name: 'customers' });
+
+    const second = await client.runPipeline(spec);
+
+    expect(second.ids).toEqual(first.ids);
+    expect(second.created).toEqual([]);
+    expect(second.steps.map((event) => event.status)).toEqual(Array(6).fill('reused'));
+    expect(await client.listModels()).toHaveLength(1);
+  });
+
+  it('trains a new model when the spec has no model name', async () => {
+    const { client } = createClient();
+    const anonymous = { ...spec, training: { job: true, pollInterval: 0 } };
+
+    await client.runPipeline(anonymous);
+    const second = await client.runPipeline(anonymous);
+
+    expect(second.created).toEqual(['model']);
+    expect(second.ids.modelId).toBe('model-2');
+  });
+
+  it('deletes what it created when a step fails', async () => {
+    const { mock, client } = createClient();
+    await client.createWorkspace('churn');
+    mock.fail({ path: '/train', status: 500 });
+    const events: PipelineStepEvent[] = [];
+
+    const error = await client.runPipeline(spec, { onStep: (event) => events.push(event) })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(PipelineError);
+    const failure = error as PipelineError;
+    expect(failure.step).toBe('model');
+    expect(failure.status).toBe(500);
+    expect(failure.message).toMatch(/^Pipeline failed at step model: /);
+    expect(failure.cleanupErrors).toEqual([]);
+    expect(events.filter((event) => event.status === 'deleted').map((event) => event.step))
+      .toEqual(['params', 'columnSet', 'rowSet', 'dataset']);
+    // The workspace existed before the run and is kept
+    expect(await client.listWorkspaces()).toHaveLength(1);
+    expect(await client.listDatasets()).toEqual([]);
+    expect(await client.listRowSets()).toEqual([]);
+  });
+
+  it('requires a data source for datasets that do not exist yet', async () => {
+    const { client } = createClient();
+
+    const error = await client.runPipeline({ ...spec, dataset: { alias: 'missing' } }, { cleanup: false })
+      .catch((caught: unknown) => caught) as PipelineError;
+
+    expect(error.step).toBe('dataset');
+    expect(error.status).toBe(0);
+    expect(error.ids).toEqual({ workspaceId: 'ws-1' });
+    expect(error.cause).toBeInstanceOf(TypeError);
+    expect(await client.listWorkspaces()).toHaveLength(1);
+  });
+
+  it('refuses to reuse a resource whose settings differ from the spec', async () => {
+    const { client } = createClient();
+    await client.runPipeline(spec);
+
+    const changed = { ...spec, params: { name: 'fast', params: { num_leaves: 31 } } };
+    const error = await client.runPipeline(changed).catch((caught: unknown) => caught) as PipelineError;
+
+    expect(error).toBeInstanceOf(PipelineError);
+    expect(error.step).toBe('params');
+    expect(error.message).toBe(
+      'Pipeline failed at step params: Param set "fast" exists with a different params; rename it in the spec or update it first'
+    );
+    expect((await client.runPipeline({ ...spec, rowSet: { name: 'adults', predicate: where('age').gte(21) } })
+      .catch((caught: unknown) => caught) as PipelineError).step).toBe('rowSet');
+    expect((await client.listTrainingParamSets())[0].params).toEqual({ num_leaves: 15 });
+  });
+
+  it('cancels the training job when aborted while waiting for it', async () => {
+    const mock = createMockGagaraBoost();
+    const controller = new AbortController();
+    const client = new GagaraBoostClient({
+      baseUrl: 'http://mock.test',
+      fetch: async (input, init) => {
+        const response = await mock(input, init);
+        if (new URL(String(input)).pathname === '/train/jobs/job-1') {
+          controller.abort();
+        }
+        return response;
+      },
+    });
+    const events: PipelineStepEvent[] = [];
+
+    const error = await client.runPipeline(
+      { ...spec, training: { job: true, pollInterval: 60_000 } },
+      { signal: controller.signal, onStep: (event) => events.push(event) }
+    ).catch((caught: unknown) => caught) as PipelineError;
+
+    expect(error.step).toBe('model');
+    expect(error.cleanupErrors).toEqual([]);
+    expect((await client.getTrainingJob('job-1')).status).toBe('cancelled');
+    expect(events.filter((event) => event.status === 'deleted')).toHaveLength(5);
+  });
+});
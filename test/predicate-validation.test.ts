@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  GagaraBoostClient,
+  PredicateValidationError,
+  validatePredicate,
+  where,
+} from '../src/index.js';
+import type { DatasetSchemaResponse } from '../src/index.js';
+
+const schema: DatasetSchemaResponse = {
+  columns: [
+    { name: 'age', data_type: 'BIGINT', nullable: true },
+    { name: 'income', data_type: 'DECIMAL(18,2)', nullable: true },
+    { name: 'country', data_type: 'VARCHAR', nullable: false },
+    { name: 'is_active', data_type: 'BOOLEAN', nullable: false },
+    { name: 'signup', data_type: 'TIMESTAMP', nullable: true },
+  ],
+};
+
+describe('validatePredicate', () => {
+  it('accepts a predicate matching the schema', () => {
+    const predicate = where('age')
+      .gte(18)
+      .and(where('country').in(['DE', 'FR']), where('signup').gt('2024-01-01'), where('is_active').eq(true));
+
+    expect(validatePredicate(predicate, schema)).toEqual({ valid: true, issues: [] });
+  });
+
+  it('reports unknown columns and type mismatches with paths', () => {
+    const result = validatePredicate(
+      where('agee').gte(18).and(where('age').eq('18'), where('country').like('D%'), where('is_active').like('t%')),
+      schema
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.issues.map(({ code, path, column }) => ({ code, path, column }))).toEqual([
+      { code: 'unknown_column', path: 'predicate.$and[0].agee', column: 'agee' },
+      { code: 'type_mismatch', path: 'predicate.$and[1].age', column: 'age' },
+      { code: 'type_mismatch', path: 'predicate.$and[3].is_active', column: 'is_active' },
+    ]);
+  });
+
+  it('reports impossible ranges', () => {
+    const result = validatePredicate(
+      {
+        $or: [
+          { $and: [{ age: { $gt: 65 } }, { age: { $lt: 18 } }] },
+          { income: { $gte: 100, $lte: 10 } },
+          { country: null },
+          { country: { $in: [] } },
+        ],
+      },
+      schema
+    );
+
+    expect(result.issues.map(({ code, path }) => ({ code, path }))).toEqual([
+      { code: 'impossible_range', path: 'predicate.$or[0]' },
+      { code: 'impossible_range', path: 'predicate.$or[1]' },
+      { code: 'impossible_range', path: 'predicate.$or[2].country' },
+      { code: 'impossible_range', path: 'predicate.$or[3].country' },
+    ]);
+  });
+
+  it('reports malformed predicates', () => {
+    expect(validatePredicate({ age: { $near: 18 } }, schema).issues).toEqual([
+      { code: 'invalid_predicate', path: 'predicate', message: 'predicate.age.$near: unknown operator' },
+    ]);
+  });
+});
+
+describe('createRowSet validation', () => {
+  it('fetches the dataset schema and refuses invalid predicates', async () => {
+    const mockFetch = vi.fn(async () => new Response(JSON.stringify(schema), { status: 200 }));
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch });
+
+    const promise = client.createRowSet(
+      { name: 'rs', workspace_id: 'ws1', base_dataset_id: 'ds1', predicate: where('agee').gte(18) },
+      { validate: true }
+    );
+
+    await expect(promise).rejects.toBeInstanceOf(PredicateValidationError);
+    await expect(promise).rejects.toThrow('predicate.agee: Unknown column "agee"');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch).toHaveBeenCalledWith('https://boost.test/datasets/ds1/schema', expect.anything());
+  });
+
+  it('validates updates against the row set schema', async () => {
+    const mockFetch = vi.fn(async (input: RequestInfo | URL) => {
+      const body = String(input).endsWith('/schema') ? schema : { id: 'rs1' };
+      return new Response(JSON.stringify(body), { status: 200 });
+    });
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch });
+
+    await client.updateRowSet('rs1', { predicate: where('age').lt(30) }, { validate: true });
+
+    expect(mockFetch.mock.calls.map(([input]) => String(input))).toEqual([
+      'https://boost.test/row-sets/rs1/schema',
+      'https://boost.test/row-sets/rs1',
+    ]);
+  });
+});
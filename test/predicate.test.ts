@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GagaraBoostClient, and, not, or, parsePredicate, where } from '../src/index.js';
+
+describe('predicate builder', () => {
+  it('serializes to the predicate format', () => {
+    const predicate = where('age').gte(18).and(where('country').in(['DE', 'FR']));
+
+    expect(predicate.toJSON()).toEqual({
+      $and: [
+        { age: { $gte: 18 } },
+        { country: { $in: ['DE', 'FR'] } },
+      ],
+    });
+  });
+
+  it('flattens chained conjunctions', () => {
+    const predicate = where('a').eq(1).and(where('b').eq(2)).and(where('c').isNull());
+
+    expect(predicate.toJSON()).toEqual({
+      $and: [
+        { a: { $eq: 1 } },
+        { b: { $eq: 2 } },
+        { c: { $eq: null } },
+      ],
+    });
+  });
+
+  it('renders DuckDB SQL with quoting and escaping', () => {
+    const predicate = and(
+      where('first name').like("O'Neil%"),
+      or(where('score').between(0.5, 1), not(where('flag').eq(true))),
+      where('region').notIn(['x"y'])
+    );
+
+    expect(predicate.toSQL()).toBe(
+      `"first name" LIKE 'O''Neil%' AND (("score" >= 0.5 AND "score" <= 1) OR NOT "flag" = TRUE) AND "region" NOT IN ('x"y')`
+    );
+  });
+
+  it('reads the server format, including bare values and several keys per node', () => {
+    const predicate = parsePredicate({ name: { $like: '%A%' }, country: 'DE', vip: null, score: { $ne: null } });
+
+    expect(predicate.toSQL()).toBe(`"name" LIKE '%A%' AND "country" = 'DE' AND "vip" IS NULL AND "score" IS NOT NULL`);
+  });
+
+  it('round-trips stored predicates through the parser', () => {
+    const stored = JSON.parse(JSON.stringify(where('age').gte(18).or(where('vip').eq(true).not())));
+
+    expect(parsePredicate(stored).toJSON()).toEqual(stored);
+    expect(parsePredicate(stored).toSQL()).toBe('"age" >= 18 OR NOT "vip" = TRUE');
+  });
+
+  it('rejects malformed predicates with the offending path', () => {
+    expect(() => parsePredicate({ $and: [{ a: { $eq: 1 } }, { b: { $approx: 2 } }] }))
+      .toThrow('predicate.$and[1].b.$approx: unknown operator');
+    expect(() => parsePredicate({ a: { $in: 1 } }))
+      .toThrow('predicate.a.$in: expected an array of scalar values');
+    expect(() => parsePredicate({ $nor: [] })).toThrow('predicate.$nor: unknown operator');
+    expect(() => parsePredicate({ a: [1, 2] })).toThrow('predicate.a: expected a value or an operator object');
+  });
+
+  it('is accepted by createRowSet', async () => {
+    const mockFetch = vi.fn(
+      async (_input: RequestInfo | URL, _init?: RequestInit) => new Response('{"id":"rs1"}', { status: 200 })
+    );
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch });
+
+    await client.createRowSet({
+      name: 'adults',
+      workspace_id: 'ws1',
+      base_dataset_id: 'ds1',
+      predicate: where('age').gte(18),
+    });
+
+    const body = JSON.parse(mockFetch.mock.calls[0]?.[1]?.body as string);
+    expect(body.predicate).toEqual({ age: { $gte: 18 } });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GagaraBoostClient, select, sql, where } from '../src/index.js';
+
+describe('select', () => {
+  it('builds quoted queries with aliases, grouping, ordering and limits', () => {
+    const query = select('country', { 'order count': sql`count(*)` })
+      .from(sql.identifier('dataset_ds-1'))
+      .where(where('amount').gt(0))
+      .groupBy('country')
+      .having(sql`count(*) > ${10}`)
+      .orderBy(sql`count(*)`, 'desc')
+      .orderBy('country')
+      .limit(5)
+      .offset(10);
+
+    expect(query.toString()).toBe(
+      'SELECT "country", count(*) AS "order count" FROM "dataset_ds-1" WHERE ("amount" > 0) ' +
+      'GROUP BY "country" HAVING (count(*) > 10) ORDER BY count(*) DESC, "country" ASC LIMIT 5 OFFSET 10'
+    );
+  });
+
+  it('ANDs stored row-set predicates with other conditions', () => {
+    const rowSetPredicate = { $or: [{ age: { $lt: 18 } }, { age: { $gte: 65 } }] };
+
+    const query = select().from('t').where(rowSetPredicate, null, sql`"country" = ${'DE'}`);
+
+    expect(query.toString()).toBe(
+      `SELECT * FROM "t" WHERE ("age" < 18 OR "age" >= 65) AND ("country" = 'DE')`
+    );
+    expect(() => select().where({ age: { $bogus: 1 } })).toThrow();
+  });
+
+  it('is immutable and nests as a subquery', () => {
+    const base = select('id').from('t');
+    const filtered = base.where(where('id').eq(1));
+
+    expect(base.toString()).toBe('SELECT "id" FROM "t"');
+    expect(select({ n: sql`count(*)` }).from(filtered).toString()).toBe(
+      'SELECT count(*) AS "n" FROM (SELECT "id" FROM "t" WHERE ("id" = 1)) AS subquery'
+    );
+    expect(() => base.limit(-1)).toThrow('limit must be a non-negative integer');
+  });
+});
+
+describe('SQL names', () => {
+  it('quotes dataset tables and row-set views using the configured templates', () => {
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test' });
+    const custom = new GagaraBoostClient({
+      baseUrl: 'https://boost.test',
+      sqlNames: { datasetTable: 'ds_{id}', rowSetView: 'rs_{id}_view' },
+    });
+
+    expect(client.datasetTable('1a-2b').text).toBe('"dataset_1a-2b"');
+    expect(client.rowSetView('r"1').text).toBe('"row_set_r""1"');
+    expect(custom.datasetTable('x').text).toBe('"ds_x"');
+    expect(custom.rowSetView('y').text).toBe('"rs_y_view"');
+  });
+
+  it('sends built queries through query()', async () => {
+    const mockFetch = vi.fn(async (_input: RequestInfo | URL, _init?: RequestInit) =>
+      Response.json({ columns: ['n'], rows: [{ n: 3 }] })
+    );
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch });
+
+    await client.query(select({ n: sql`count(*)` }).from(client.rowSetView('rs-1')), 'ws-1');
+
+    expect(JSON.parse(mockFetch.mock.calls[0][1]?.body as string).sql).toBe(
+      'SELECT count(*) AS "n" FROM "row_set_rs-1"'
+    );
+  });
+});
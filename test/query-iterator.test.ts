@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GagaraBoostClient, NotFoundError, rowsToCsv, rowsToJsonLines, sql } from '../src/index.js';
+
+const table = Array.from({ length: 5 }, (_, index) => ({ id: index + 1, at: `2024-01-0${index + 1}` }));
+
+function createClient(options: { cursor?: boolean } = {}) {
+  const requests: Array<{ path: string; body: Record<string, any> }> = [];
+  const mockFetch = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const path = new URL(String(input)).pathname;
+    const body = JSON.parse(init?.body as string);
+    requests.push({ path, body });
+    if (path === '/query/pages') {
+      if (!options.cursor) {
+        return Response.json({ detail: 'Not Found' }, { status: 404 });
+      }
+      const start = body.cursor ? Number(body.cursor) : 0;
+      const end = start + body.page_size;
+      return Response.json({
+        columns: ['id', 'at'],
+        rows: table.slice(start, end),
+        next_cursor: end < table.length ? String(end) : null,
+      });
+    }
+    const match = /LIMIT (\d+) OFFSET (\d+)$/.exec(body.sql);
+    const [limit, offset] = match ? [Number(match[1]), Number(match[2])] : [table.length, 0];
+    return Response.json({ columns: ['id', 'at'], rows: table.slice(offset, offset + limit) });
+  });
+  return { requests, client: new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch }) };
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+async function text(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(stream).text();
+}
+
+describe('queryIterator', () => {
+  it('pages with LIMIT/OFFSET when the server has no cursor route', async () => {
+    const { client, requests } = createClient();
+
+    const rows = await collect(client.queryIterator(sql`SELECT * FROM t ORDER BY id;`, { pageSize: 2, workspaceId: 'ws-1' }));
+
+    expect(rows.map((row) => row.id)).toEqual([1, 2, 3, 4, 5]);
+    expect(requests.map(({ path, body }) => path === '/query' ? body.sql : path)).toEqual([
+      '/query/pages',
+      'SELECT * FROM (\nSELECT * FROM t ORDER BY id\n) AS page LIMIT 2 OFFSET 0',
+      'SELECT * FROM (\nSELECT * FROM t ORDER BY id\n) AS page LIMIT 2 OFFSET 2',
+      'SELECT * FROM (\nSELECT * FROM t ORDER BY id\n) AS page LIMIT 2 OFFSET 4',
+    ]);
+    expect(requests[1].body.workspace_id).toBe('ws-1');
+  });
+
+  it('wraps queries ending in a comment or semicolon for offset paging', async () => {
+    const { client, requests } = createClient();
+
+    await collect(client.queryIterator('SELECT * FROM t; -- all rows', { paging: 'offset', pageSize: 5 }));
+    await collect(client.queryIterator('SELECT * FROM t -- all rows', { paging: 'offset', pageSize: 5 }));
+
+    expect(requests.map(({ body }) => body.sql)).toEqual([
+      'SELECT * FROM (\nSELECT * FROM t -- all rows\n) AS page LIMIT 5 OFFSET 0',
+      'SELECT * FROM (\nSELECT * FROM t -- all rows\n) AS page LIMIT 5 OFFSET 5',
+      'SELECT * FROM (\nSELECT * FROM t -- all rows\n) AS page LIMIT 5 OFFSET 0',
+      'SELECT * FROM (\nSELECT * FROM t -- all rows\n) AS page LIMIT 5 OFFSET 5',
+    ]);
+  });
+
+  it('follows server cursors and coerces every page', async () => {
+    const { client, requests } = createClient({ cursor: true });
+
+    const pages = await collect(client.queryPages('SELECT * FROM t', { pageSize: 2, coerce: { at: 'date' } }));
+
+    expect(pages.map((page) => page.rows.length)).toEqual([2, 2, 1]);
+    expect(pages[2].columns).toEqual(['id', 'at']);
+    expect(pages[2].rows[0].at).toEqual(new Date('2024-01-05T00:00:00Z'));
+    expect(requests.map(({ body }) => body.cursor)).toEqual([null, '2', '4']);
+    expect(requests.every(({ path }) => path === '/query/pages')).toBe(true);
+  });
+
+  it('honours explicit paging modes', async () => {
+    const cursorOnly = createClient();
+    await expect(collect(cursorOnly.client.queryIterator('SELECT 1', { paging: 'cursor' })))
+      .rejects.toBeInstanceOf(NotFoundError);
+
+    const offsetOnly = createClient({ cursor: true });
+    await collect(offsetOnly.client.queryIterator('SELECT * FROM t', { paging: 'offset', pageSize: 10 }));
+    expect(offsetOnly.requests.map(({ path }) => path)).toEqual(['/query']);
+
+    await expect(collect(offsetOnly.client.queryIterator('SELECT 1', { pageSize: 0 })))
+      .rejects.toThrow('pageSize must be a positive integer');
+  });
+});
+
+describe('row streams', () => {
+  it('writes CSV with quoting, nulls and a header', async () => {
+    const rows = [
+      { id: 1n, name: 'a, "b"', at: new Date('2024-01-01T00:00:00Z'), tags: ['x'] },
+      { id: 2n, name: 'line\nbreak', at: null, tags: null },
+    ];
+
+    expect(await text(rowsToCsv(rows))).toBe(
+      'id,name,at,tags\r\n' +
+      '1,"a, ""b""",2024-01-01T00:00:00.000Z,"[""x""]"\r\n' +
+      '2,"line\nbreak",,\r\n'
+    );
+    expect(await text(rowsToCsv(rows, { columns: ['name'], delimiter: ';', header: false }))).toBe(
+      '"a, ""b"""\r\n"line\nbreak"\r\n'
+    );
+    expect(await text(rowsToCsv([], { columns: ['id'] }))).toBe('id\r\n');
+  });
+
+  it('writes JSON Lines from query iterators', async () => {
+    const { client } = createClient();
+
+    const output = await text(rowsToJsonLines(client.queryIterator('SELECT * FROM t', { pageSize: 2 })));
+
+    expect(output.trimEnd().split('\n').map((line) => JSON.parse(line))).toEqual(table);
+    expect(await text(rowsToJsonLines([{ a: 1n, b: 'x' }], { columns: ['a', 'c'] }))).toBe('{"a":"1","c":null}\n');
+  });
+});
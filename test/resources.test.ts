@@ -0,0 +1,153 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GagaraBoostClient, DatasetResource, ModelResource } from '../src/index.js';
+
+const dataset = {
+  id: 'ds-1',
+  alias: 'sales',
+  workspace_id: 'ws-1',
+  created_at: '2024-01-01T00:00:00Z',
+};
+
+const rowSet = {
+  id: 'rs-1',
+  workspace_id: 'ws-1',
+  name: 'adults',
+  base_dataset_id: 'ds-1',
+  predicate: null,
+  created_at: '2024-01-02T00:00:00Z',
+};
+
+type Route = (url: URL, init?: RequestInit) => unknown;
+
+function createClient(routes: Record<string, Route>) {
+  const calls: Array<{ method: string, path: string, body?: unknown }> = [];
+  const mockFetch = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(String(input));
+    const method = init?.method ?? 'GET';
+    const body = typeof init?.body === 'string' ? JSON.parse(init.body) : undefined;
+    calls.push({ method, path: url.pathname, body });
+    const route = routes[`${method} ${url.pathname}`];
+    if (!route) {
+      return Response.json({ detail: 'Not found' }, { status: 404 });
+    }
+    return Response.json(route(url, init));
+  });
+  return { calls, client: new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch }) };
+}
+
+describe('resource handles', () => {
+  it('loads lazily, caches, and refreshes on demand', async () => {
+    let alias = 'sales';
+    const { client, calls } = createClient({
+      'GET /datasets/ds-1': () => ({ ...dataset, alias }),
+    });
+
+    const handle = client.dataset('ds-1');
+    expect(handle.data).toBeUndefined();
+    expect(calls).toHaveLength(0);
+
+    const [first, second] = await Promise.all([handle.load(), handle.load()]);
+    expect(first).toBe(second);
+    expect(calls).toHaveLength(1);
+
+    alias = 'sales-2024';
+    expect((await handle.load()).alias).toBe('sales');
+    expect((await handle.refresh()).alias).toBe('sales-2024');
+    expect(handle.data?.alias).toBe('sales-2024');
+    expect(calls).toHaveLength(2);
+  });
+
+  it('does not share a refresh with a caller that aborts', async () => {
+    const { client, calls } = createClient({
+      'GET /datasets/ds-1': (_url, init) => {
+        init?.signal?.throwIfAborted();
+        return dataset;
+      },
+    });
+    const handle = client.dataset('ds-1');
+
+    const [aborted, plain] = await Promise.allSettled([
+      handle.refresh({ signal: AbortSignal.abort() }),
+      handle.refresh(),
+    ]);
+
+    expect(aborted.status).toBe('rejected');
+    expect(plain).toEqual({ status: 'fulfilled', value: dataset });
+    expect(handle.data).toEqual(dataset);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('scopes collections to their workspace', async () => {
+    const { client, calls } = createClient({
+      'POST /datasets': () => ({ dataset_id: 'ds-1', created_at: dataset.created_at }),
+      'GET /datasets': () => [dataset],
+      'POST /training-param-sets': (_url, init) => ({
+        ...JSON.parse(init?.body as string),
+        id: 'ps-1',
+        created_at: dataset.created_at,
+      }),
+    });
+    const workspace = client.workspace('ws-1');
+
+    const uploaded = await workspace.datasets.upload(new Uint8Array([1, 2, 3]), { alias: 'sales' });
+    expect(uploaded).toBeInstanceOf(DatasetResource);
+    expect(uploaded.id).toBe('ds-1');
+
+    const [listed] = await workspace.datasets.list();
+    expect(listed.data).toEqual(dataset);
+    expect(calls[1].path).toBe('/datasets');
+
+    const paramSet = await workspace.trainingParamSets.create({ name: 'fast', params: { iterations: 10 } });
+    expect(calls[2].body).toEqual({ workspace_id: 'ws-1', name: 'fast', params: { iterations: 10 } });
+    expect(paramSet.data?.id).toBe('ps-1');
+  });
+
+  it('creates row sets on a dataset and filters the workspace listing', async () => {
+    const { client, calls } = createClient({
+      'GET /datasets/ds-1': () => dataset,
+      'POST /row-sets': (_url, init) => ({ ...rowSet, ...JSON.parse(init?.body as string) }),
+      'GET /row-sets': () => [rowSet, { ...rowSet, id: 'rs-2', base_dataset_id: 'ds-2' }],
+    });
+    const handle = client.dataset('ds-1');
+
+    const created = await handle.rowSets.create({ name: 'adults', predicate: { age: { $gte: 18 } } });
+    expect(calls[1].body).toEqual({
+      name: 'adults',
+      predicate: { age: { $gte: 18 } },
+      workspace_id: 'ws-1',
+      base_dataset_id: 'ds-1',
+    });
+    expect(created.id).toBe('rs-1');
+
+    const listed = await handle.rowSets.list();
+    expect(listed.map((item) => item.id)).toEqual(['rs-1']);
+    expect(calls.filter((call) => call.path === '/datasets/ds-1')).toHaveLength(1);
+    expect(String(created.view)).toBe('"row_set_rs-1"');
+  });
+
+  it('predicts, renames and trains through model handles', async () => {
+    const { client, calls } = createClient({
+      'POST /predict/': () => ({ predictions: [0.25] }),
+      'PATCH /models/m-1': () => ({ id: 'm-1', name: 'churn-v2', created_at: dataset.created_at }),
+      'GET /row-sets/rs-1': () => rowSet,
+      'POST /train': () => ({ status: 'success', id: 'm-2', metrics: {} }),
+    });
+    const model = client.model('m-1');
+
+    expect(await model.predict([{ age: 40 }])).toEqual({ predictions: [0.25] });
+    expect(calls[0].body).toEqual({ features: [{ age: 40 }] });
+
+    await model.rename('churn-v2');
+    expect(model.data?.name).toBe('churn-v2');
+
+    const trained = await client.rowSet('rs-1').train({ column_set_id: 'cs-1', training_param_set_id: 'ps-1' });
+    expect(trained).toBeInstanceOf(ModelResource);
+    expect(trained.id).toBe('m-2');
+    expect(calls.at(-1)?.body).toEqual({
+      column_set_id: 'cs-1',
+      training_param_set_id: 'ps-1',
+      workspace_id: 'ws-1',
+      row_set_id: 'rs-1',
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { GagaraBoostClient, ResponseValidationError } from '../src/index.js';
+
+function jsonFetch(body: unknown) {
+  return vi.fn(async () => new Response(JSON.stringify(body), { status: 200 }));
+}
+
+const workspace = {
+  id: 'w1',
+  owner_user_id: 'u1',
+  name: 'demo',
+  is_default: false,
+  created_at: '2025-01-01T00:00:00Z',
+};
+
+describe('response validation', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('is off by default', async () => {
+    const client = new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: jsonFetch([{ id: 1 }]) });
+
+    await expect(client.listWorkspaces()).resolves.toEqual([{ id: 1 }]);
+  });
+
+  it('accepts responses matching the API types and ignores extra fields', async () => {
+    const client = new GagaraBoostClient({
+      baseUrl: 'https://boost.test',
+      fetch: jsonFetch([{ ...workspace, extra: true }]),
+      validateResponses: 'strict',
+    });
+
+    await expect(client.listWorkspaces()).resolves.toHaveLength(1);
+  });
+
+  it('throws with the offending field path in strict mode', async () => {
+    const client = new GagaraBoostClient({
+      baseUrl: 'https://boost.test',
+      fetch: jsonFetch([workspace, { ...workspace, created_at: 1735689600 }]),
+      validateResponses: 'strict',
+    });
+
+    const error = await client.listWorkspaces().catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect(error).toMatchObject({
+      path: '$[1].created_at',
+      expected: 'string',
+      received: 'number',
+      status: 200,
+      method: 'GET',
+      url: 'https://boost.test/workspaces',
+    });
+  });
+
+  it('catches unexpected training statuses', async () => {
+    const client = new GagaraBoostClient({
+      baseUrl: 'https://boost.test',
+      fetch: jsonFetch({ status: 'done', id: 'm1', metrics: {} }),
+      validateResponses: 'strict',
+    });
+
+    await expect(
+      client.train({ workspace_id: 'w', row_set_id: 'r', column_set_id: 'c', training_param_set_id: 't' })
+    ).rejects.toThrow('expected "success" | "completed" | "failed" at $.status, received "done"');
+  });
+
+  it('only logs in warn mode', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const client = new GagaraBoostClient({
+      baseUrl: 'https://boost.test',
+      fetch: jsonFetch({ columns: [{ name: 'age', data_type: 'BIGINT' }] }),
+      validateResponses: 'warn',
+    });
+
+    await expect(client.getDatasetSchema('ds1')).resolves.toBeDefined();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('at $.columns[0].nullable'));
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GagaraBoostClient, sql, where } from '../src/index.js';
+
+describe('sql', () => {
+  it('renders interpolated values as escaped DuckDB literals', () => {
+    const name = "O'Brien; DROP TABLE users; --";
+    const query = sql`SELECT * FROM t WHERE name = ${name} AND age > ${30} AND id = ${12345678901234567890n} AND ok = ${true} AND x IS ${null}`;
+
+    expect(query.text).toBe(
+      "SELECT * FROM t WHERE name = 'O''Brien; DROP TABLE users; --' AND age > 30 AND id = 12345678901234567890 AND ok = TRUE AND x IS NULL"
+    );
+    expect(String(query)).toBe(query.text);
+  });
+
+  it('renders dates, IN lists, identifiers, predicates and nested fragments', () => {
+    const table = sql.identifier('sales "2024"');
+    const filter = where('country').in(['DE', 'FR']);
+    const since = new Date('2024-01-02T03:04:05.678Z');
+    const order = sql.raw('ORDER BY 1');
+
+    expect(sql`SELECT * FROM ${table} WHERE ${filter} AND at >= ${since} AND id IN ${[1, 2]} ${order}`.text).toBe(
+      `SELECT * FROM "sales ""2024""" WHERE ("country" IN ('DE', 'FR')) AND at >= TIMESTAMP '2024-01-02 03:04:05.678' AND id IN (1, 2) ORDER BY 1`
+    );
+    expect(sql`x IN ${[]}`.text).toBe('x IN (NULL)');
+    expect(sql.join(['a', 1], ' | ').text).toBe("'a' | 1");
+    expect(sql.identifier('main', 't').text).toBe('"main"."t"');
+  });
+
+  it('rejects values without a safe rendering', () => {
+    expect(() => sql`${undefined as never}`).toThrow('pass null for NULL');
+    expect(() => sql`${{ a: 1 } as never}`).toThrow('Cannot render [object Object] as SQL');
+    expect(() => sql`${Number.NaN}`).toThrow('non-finite');
+  });
+});
+
+describe('query', () => {
+  function createClient(body: unknown) {
+    const mockFetch = vi.fn(async (_input: RequestInfo | URL, _init?: RequestInit) => Response.json(body));
+    return { mockFetch, client: new GagaraBoostClient({ baseUrl: 'https://boost.test', fetch: mockFetch }) };
+  }
+
+  it('sends sql-tagged queries as text', async () => {
+    const { client, mockFetch } = createClient({ columns: ['n'], rows: [{ n: 1 }] });
+
+    const result = await client.query<{ n: number }>(sql`SELECT count(*) AS n FROM t WHERE id = ${'x'}`, 'ws-1');
+
+    expect(result.rows[0].n).toBe(1);
+    expect(JSON.parse(mockFetch.mock.calls[0][1]?.body as string)).toEqual({
+      sql: "SELECT count(*) AS n FROM t WHERE id = 'x'",
+      workspace_id: 'ws-1',
+    });
+  });
+
+  it('coerces the columns named in coerce', async () => {
+    const { client } = createClient({
+      columns: ['id', 'amount', 'day', 'at', 'flag', 'label', 'other'],
+      rows: [
+        { id: '9007199254740993', amount: '12.50', day: '2024-01-02', at: '2024-01-02 03:04:05', flag: 1, label: 7, other: 'x' },
+        { id: null, amount: 3, day: null, at: '2024-01-02 03:04:05+02', flag: 'false', label: { a: 1 }, other: 'y' },
+      ],
+    });
+
+    const { rows } = await client.query('SELECT 1', undefined, {
+      coerce: {
+        id: 'bigint',
+        amount: 'number',
+        day: 'date',
+        at: 'date',
+        flag: 'boolean',
+        label: 'string',
+        other: (value) => String(value).toUpperCase(),
+        missing: 'bigint',
+      },
+    });
+
+    expect(rows[0]).toEqual({
+      id: 9007199254740993n,
+      amount: 12.5,
+      day: new Date('2024-01-02T00:00:00Z'),
+      at: new Date('2024-01-02T03:04:05Z'),
+      flag: true,
+      label: '7',
+      other: 'X',
+    });
+    expect(rows[1]).toEqual({
+      id: null,
+      amount: 3,
+      day: null,
+      at: new Date('2024-01-02T01:04:05Z'),
+      flag: false,
+      label: '{"a":1}',
+      other: 'Y',
+    });
+  });
+
+  it('reports values that cannot be coerced', async () => {
+    const { client } = createClient({ columns: ['id'], rows: [{ id: 1.5 }] });
+
+    await expect(client.query('SELECT 1', undefined, { coerce: { id: 'bigint' } }))
+      .rejects.toThrow('Query column "id": cannot convert 1.5 to bigint');
+  });
+});
@@ -0,0 +1,220 @@
+import { createHash } from 'node:crypto';
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+interface StoredUpload {
+  id: string;
+  fields: Record<string, unknown>;
+  size: number | null;
+  chunks: Buffer[];
+  offset: number;
+}
+
+export interface DatasetServerOptions {
+  /** Answer /uploads with 404, like a server without the resumable protocol */
+  chunkedUploads?: boolean;
+  /**
+   * Numbers of PUT requests (1-based) that keep only half of their body and
+   * then drop the connection without answering.
+   */
+  dropPuts?: number[];
+  /** Numbers of download requests (1-based) that send half the body and drop */
+  dropDownloads?: number[];
+  /** Answer Range requests with the whole file, like a server without range support */
+  ignoreRange?: boolean;
+  /** Advertise each dataset's SHA-256 in Repr-Digest. Default: true */
+  digests?: boolean;
+}
+
+export interface DatasetServer {
+  url: string;
+  uploads: Map<string, StoredUpload>;
+  datasets: Map<string, Buffer>;
+  /** "METHOD path" of every request, in arrival order */
+  requests: string[];
+  contentRanges: string[];
+  /** Range header of every download request, '' when absent */
+  downloadRanges: string[];
+  close(): Promise<void>;
+}
+
+/**
+ * Minimal stand-in for the dataset upload and download routes of a
+ * gagara-boost server, listening on a random local port.
+ */
+export async function startDatasetServer(options: DatasetServerOptions = {}): Promise<DatasetServer> {
+  const uploads = new Map<string, StoredUpload>();
+  const datasets = new Map<string, Buffer>();
+  const requests: string[] = [];
+  const contentRanges: string[] = [];
+  const downloadRanges: string[] = [];
+  let nextId = 1;
+  let putCount = 0;
+  let downloadCount = 0;
+
+  const send = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+  const session = (upload: StoredUpload) => ({
+    id: upload.id,
+    offset: upload.offset,
+    size: upload.size,
+  });
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const method = req.method ?? 'GET';
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    requests.push(`${method} ${path}`);
+    const body = await readBody(req);
+
+    const download = /^\/datasets\/([^/]+)\/download$/.exec(path);
+    if (download && method === 'GET') {
+      const data = datasets.get(download[1]);
+      if (!data) {
+        return send(res, 404, { detail: 'Dataset not found' });
+      }
+      downloadCount++;
+      const range = req.headers.range ?? '';
+      downloadRanges.push(range);
+
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/octet-stream',
+        'Accept-Ranges': 'bytes',
+      };
+      if (options.digests !== false) {
+        headers['Repr-Digest'] = `sha-256=:${createHash('sha256').update(data).digest('base64')}:`;
+      }
+      let start = 0;
+      let status = 200;
+      const requested = /^bytes=(\d+)-$/.exec(range);
+      if (requested && !options.ignoreRange) {
+        start = Number(requested[1]);
+        if (start >= data.byteLength) {
+          res.writeHead(416, { ...headers, 'Content-Type': 'application/json', 'Content-Range': `bytes */${data.byteLength}` });
+          res.end(JSON.stringify({ detail: 'Range Not Satisfiable' }));
+          return;
+        }
+        status = 206;
+        headers['Content-Range'] = `bytes ${start}-${data.byteLength - 1}/${data.byteLength}`;
+      }
+      const slice = data.subarray(start);
+      headers['Content-Length'] = String(slice.byteLength);
+      res.writeHead(status, headers);
+
+      if (options.dropDownloads?.includes(downloadCount)) {
+        res.write(slice.subarray(0, Math.floor(slice.byteLength / 2)), () => res.socket?.destroy());
+        return;
+      }
+      res.end(slice);
+      return;
+    }
+
+    if (path === '/datasets' && method === 'POST') {
+      const form = await new Response(body, {
+        headers: { 'Content-Type': req.headers['content-type'] ?? '' },
+      }).formData();
+      const file = form.get('file') as Blob;
+      const id = `ds-${nextId++}`;
+      datasets.set(id, Buffer.from(await file.arrayBuffer()));
+      return send(res, 200, { dataset_id: id, created_at: new Date().toISOString() });
+    }
+
+    const match = /^\/uploads(?:\/([^/]+))?(\/complete)?$/.exec(path);
+    if (!match || options.chunkedUploads === false) {
+      return send(res, 404, { detail: 'Not Found' });
+    }
+    const [, id, complete] = match;
+
+    if (!id) {
+      const fields = JSON.parse(body.toString());
+      const upload: StoredUpload = {
+        id: `up-${nextId++}`,
+        fields,
+        size: fields.size ?? null,
+        chunks: [],
+        offset: 0,
+      };
+      uploads.set(upload.id, upload);
+      return send(res, 201, session(upload));
+    }
+
+    const upload = uploads.get(id);
+    if (!upload) {
+      return send(res, 404, { detail: 'Upload not found' });
+    }
+
+    if (complete) {
+      const data = Buffer.concat(upload.chunks);
+      const datasetId = (upload.fields.dataset_id as string | undefined) ?? `ds-${nextId++}`;
+      datasets.set(datasetId, data);
+      const now = new Date().toISOString();
+      if (upload.fields.dataset_id) {
+        return send(res, 200, {
+          id: datasetId,
+          alias: null,
+          workspace_id: 'ws-1',
+          created_at: now,
+          file_size_bytes: data.byteLength,
+        });
+      }
+      return send(res, 200, { dataset_id: datasetId, created_at: now });
+    }
+
+    switch (method) {
+      case 'GET':
+        return send(res, 200, session(upload));
+      case 'DELETE':
+        uploads.delete(id);
+        return send(res, 200, { status: 'deleted' });
+      case 'PUT': {
+        putCount++;
+        const range = req.headers['content-range'] ?? '';
+        contentRanges.push(range);
+        const start = Number(/^bytes (\d+)-/.exec(range)?.[1]);
+        if (start !== upload.offset) {
+          return send(res, 409, { detail: `Expected offset ${upload.offset}` });
+        }
+        if (options.dropPuts?.includes(putCount)) {
+          const kept = body.subarray(0, Math.floor(body.byteLength / 2));
+          upload.chunks.push(kept);
+          upload.offset += kept.byteLength;
+          req.socket.destroy();
+          return;
+        }
+        upload.chunks.push(body);
+        upload.offset += body.byteLength;
+        return send(res, 200, session(upload));
+      }
+    }
+    return send(res, 405, { detail: 'Method Not Allowed' });
+  };
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((error) => send(res, 500, { detail: String(error) }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    uploads,
+    datasets,
+    requests,
+    contentRanges,
+    downloadRanges,
+    close: () => new Promise<void>((resolve) => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const parts: Buffer[] = [];
+  for await (const part of req) {
+    parts.push(part as Buffer);
+  }
+  return Buffer.concat(parts);
+}
@@ -0,0 +1,193 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { GagaraBoostClient, NetworkError } from '../src/index.js';
+import type { UploadSession } from '../src/index.js';
+import { startDatasetServer } from './support/dataset-server.js';
+import type { DatasetServer, DatasetServerOptions } from './support/dataset-server.js';
+
+function bytes(length: number): Uint8Array {
+  return Uint8Array.from({ length }, (_, index) => index % 251);
+}
+
+describe('chunked uploads', () => {
+  let server: DatasetServer | undefined;
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+    if (dir) {
+      await rm(dir, { recursive: true, force: true });
+      dir = undefined;
+    }
+  });
+
+  async function setup(options?: DatasetServerOptions) {
+    server = await startDatasetServer(options);
+    const client = new GagaraBoostClient({
+      baseUrl: server.url,
+      token: 'test-token',
+      retry: { maxAttempts: 1, initialDelay: 1 },
+    });
+    return { server, client };
+  }
+
+  it('uploads a file path in chunks and reports progress', async () => {
+    const { server, client } = await setup();
+    dir = await mkdtemp(join(tmpdir(), 'gagara-upload-'));
+    const file = join(dir, 'sales.parquet');
+    const data = bytes(2500);
+    await writeFile(file, data);
+
+    const progress: Array<[number, number | undefined]> = [];
+    const result = await client.uploadDataset(file, {
+      workspaceId: 'ws-1',
+      chunkSize: 1000,
+      onProgress: (sent, total) => progress.push([sent, total]),
+    });
+
+    expect(new Uint8Array(server.datasets.get(result.dataset_id)!)).toEqual(data);
+    expect(server.contentRanges).toEqual([
+      'bytes 0-999/2500',
+      'bytes 1000-1999/2500',
+      'bytes 2000-2499/2500',
+    ]);
+    expect(progress).toEqual([[0, 2500], [1000, 2500], [2000, 2500], [2500, 2500]]);
+  });
+
+  it('sends the filename and form fields when creating the session', async () => {
+    const { server, client } = await setup();
+    let created: UploadSession | undefined;
+
+    await client.uploadDataset(bytes(10), {
+      chunked: true,
+      workspaceId: 'ws-1',
+      alias: 'sales',
+      filename: 'sales.parquet',
+      onSession: (session) => { created = session; },
+    });
+
+    expect(created).toMatchObject({ offset: 0, size: 10 });
+    expect(server.uploads.get(created!.id)?.fields).toEqual({
+      workspace_id: 'ws-1',
+      alias: 'sales',
+      filename: 'sales.parquet',
+      size: 10,
+    });
+    expect(server.requests[0]).toBe('POST /uploads');
+    expect(server.requests.at(-1)).toBe(`POST /uploads/${created!.id}/complete`);
+  });
+
+  it('streams web and Node streams of unknown size', async () => {
+    const { server, client } = await setup();
+    const data = bytes(1500);
+    const web = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(data.subarray(0, 700));
+        controller.enqueue(data.subarray(700));
+        controller.close();
+      },
+    });
+
+    const progress: Array<number | undefined> = [];
+    const fromWeb = await client.uploadDataset(web, {
+      chunkSize: 1000,
+      onProgress: (_sent, total) => progress.push(total),
+    });
+    const fromNode = await client.uploadDataset(Readable.from([Buffer.from(data)]), {
+      chunkSize: 1000,
+      size: data.byteLength,
+    });
+
+    expect(new Uint8Array(server.datasets.get(fromWeb.dataset_id)!)).toEqual(data);
+    expect(new Uint8Array(server.datasets.get(fromNode.dataset_id)!)).toEqual(data);
+    expect(server.contentRanges.slice(0, 2)).toEqual(['bytes 0-999/*', 'bytes 1000-1499/*']);
+    expect(server.contentRanges.slice(2)).toEqual(['bytes 0-999/1500', 'bytes 1000-1499/1500']);
+    expect(progress.every((total) => total === undefined)).toBe(true);
+  });
+
+  it('resumes from the server offset after a dropped connection', async () => {
+    const { server, client } = await setup({ dropPuts: [2] });
+    const data = bytes(3000);
+
+    const result = await client.uploadDataset(data, { chunkSize: 1000 });
+
+    expect(new Uint8Array(server.datasets.get(result.dataset_id)!)).toEqual(data);
+    // The dropped PUT kept 500 bytes, so only the rest of that chunk is resent
+    expect(server.contentRanges).toEqual([
+      'bytes 0-999/3000',
+      'bytes 1000-1999/3000',
+      'bytes 1500-1999/3000',
+      'bytes 2000-2999/3000',
+    ]);
+    expect(server.requests.filter((request) => request.startsWith('GET'))).toHaveLength(1);
+  });
+
+  it('continues an interrupted upload with resumeUploadId', async () => {
+    const { server, client } = await setup({ dropPuts: [2] });
+    const data = bytes(3000);
+    let uploadId = '';
+
+    await expect(client.uploadDataset(data, {
+      chunkSize: 1000,
+      maxResumeAttempts: 0,
+      onSession: (session) => { uploadId = session.id; },
+    })).rejects.toBeInstanceOf(NetworkError);
+    expect(server.uploads.get(uploadId)?.offset).toBe(1500);
+
+    const progress: number[] = [];
+    const result = await client.uploadDataset(Readable.from([Buffer.from(data)]), {
+      chunkSize: 1000,
+      resumeUploadId: uploadId,
+      onProgress: (sent) => progress.push(sent),
+    });
+
+    expect(new Uint8Array(server.datasets.get(result.dataset_id)!)).toEqual(data);
+    expect(server.contentRanges.slice(2)).toEqual(['bytes 1500-2499/*', 'bytes 2500-2999/*']);
+    expect(progress[0]).toBe(1500);
+  });
+
+  it('replaces a dataset through the chunked protocol', async () => {
+    const { server, client } = await setup();
+    const data = bytes(1200);
+
+    const item = await client.replaceDataset('ds-existing', data, { chunkSize: 1000 });
+
+    expect(item).toMatchObject({ id: 'ds-existing', file_size_bytes: 1200 });
+    expect(new Uint8Array(server.datasets.get('ds-existing')!)).toEqual(data);
+  });
+
+  it('falls back to a single multipart request without upload support', async () => {
+    const { server, client } = await setup({ chunkedUploads: false });
+    const data = bytes(1200);
+    const progress: Array<[number, number | undefined]> = [];
+
+    const result = await client.uploadDataset(Readable.from([Buffer.from(data)]), {
+      chunkSize: 1000,
+      onProgress: (sent, total) => progress.push([sent, total]),
+    });
+
+    expect(server.requests).toEqual(['POST /uploads', 'POST /datasets']);
+    expect(new Uint8Array(server.datasets.get(result.dataset_id)!)).toEqual(data);
+    expect(progress).toEqual([[1200, 1200]]);
+  });
+
+  it('does not fall back when chunking is required', async () => {
+    const { client } = await setup({ chunkedUploads: false });
+
+    await expect(client.uploadDataset(bytes(10), { chunked: true }))
+      .rejects.toMatchObject({ status: 404 });
+  });
+
+  it('reads and aborts upload sessions', async () => {
+    const { server, client } = await setup();
+    server.uploads.set('up-x', { id: 'up-x', fields: {}, size: 10, chunks: [], offset: 0 });
+
+    await expect(client.getUploadSession('up-x')).resolves.toEqual({ id: 'up-x', offset: 0, size: 10 });
+    await expect(client.abortUpload('up-x')).resolves.toEqual({ status: 'deleted' });
+    expect(server.uploads.has('up-x')).toBe(false);
+  });
+});